@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionEndReason, SessionInfo } from '../shared/types';
+import { PricingTable } from '../shared/pricing';
+import { parseJSONL } from '../main/watcher';
+import { readSubagentTranscripts } from '../main/subagents';
+import { discoverSessions, detectEndReason } from '../main/session-discovery';
+import { loadPricing } from '../main/pricing';
+import { buildGraph } from '../renderer/store/graph-builder';
+import { computeTokenStats, detectActivity, TokenStats, LiveActivity } from '../shared/session-analysis';
+
+/**
+ * Headless entry point: summarise session JSONL files without the GUI.
+ *
+ *   claude-mindmap summarize <session.jsonl|sessionId>... [--json]
+ *
+ * Reuses the same parsing (parseJSONL, buildGraph, computeTokenStats,
+ * detectActivity) as the Electron app so numbers match what the UI shows.
+ */
+
+const USAGE = `Usage: claude-mindmap summarize <session.jsonl|sessionId>... [--json]
+
+Prints turn counts, tool usage, token/cost totals and end reason for each
+session. A sessionId (or unique prefix) is resolved via ~/.claude/history.jsonl.
+Costs use the same pricing table as the app (~/.claude-mindmap/pricing.json).
+
+Options:
+  --json    Print machine-readable JSON (an array when several sessions are given)
+  -h, --help`;
+
+interface ToolUsage {
+  calls: number;
+  errors: number;
+}
+
+interface SessionSummary {
+  sessionId: string;
+  filePath: string;
+  project: string | null;
+  endReason: SessionEndReason;
+  activity: LiveActivity;
+  startedAt: string | null;
+  endedAt: string | null;
+  durationMs: number;
+  messageCount: number;
+  turns: number;
+  subagents: number;
+  models: string[];
+  toolCalls: number;
+  toolErrors: number;
+  tools: Record<string, ToolUsage>;
+  tokens: TokenStats;
+}
+
+function summarize(filePath: string, pricing: PricingTable): SessionSummary {
+  const stat = fs.statSync(filePath);
+  const messages = parseJSONL(fs.readFileSync(filePath, 'utf8'));
+  const subagents = readSubagentTranscripts(filePath);
+  const sessionId = path.basename(filePath, '.jsonl');
+
+  // <claudeDir>/projects/<encoded-project>/<sessionId>.jsonl
+  const claudeDir = path.resolve(path.dirname(filePath), '..', '..');
+  const endReason = detectEndReason(filePath, stat.mtimeMs, sessionId, claudeDir);
+  const { activity } = detectActivity(messages, endReason === 'active', stat.mtimeMs);
+
+  const { nodes } = buildGraph(messages, endReason, subagents);
+  const tools: Record<string, ToolUsage> = {};
+  let turns = 0;
+  let toolCalls = 0;
+  let toolErrors = 0;
+  for (const n of nodes) {
+    if (n.kind === 'user') turns++;
+    if (n.kind !== 'tool_use' || !n.toolName) continue;
+    const usage = tools[n.toolName] ?? (tools[n.toolName] = { calls: 0, errors: 0 });
+    usage.calls++;
+    toolCalls++;
+    if (n.status === 'error') {
+      usage.errors++;
+      toolErrors++;
+    }
+  }
+
+  const models = new Set<string>();
+  let project: string | null = null;
+  let startedAt: string | null = null;
+  let endedAt: string | null = null;
+  for (const msg of messages) {
+    const m = msg as any;
+    if (!project && typeof m.cwd === 'string') project = m.cwd;
+    if (msg.type === 'assistant' && m.message?.model && m.message.model !== '<synthetic>') {
+      models.add(m.message.model);
+    }
+    if (msg.timestamp) {
+      if (!startedAt) startedAt = msg.timestamp;
+      endedAt = msg.timestamp;
+    }
+  }
+
+  return {
+    sessionId,
+    filePath,
+    project,
+    endReason,
+    activity,
+    startedAt,
+    endedAt,
+    durationMs: startedAt && endedAt ? new Date(endedAt).getTime() - new Date(startedAt).getTime() : 0,
+    messageCount: messages.length,
+    turns,
+    subagents: subagents.length,
+    models: [...models],
+    toolCalls,
+    toolErrors,
+    tools,
+    tokens: computeTokenStats(messages, subagents, pricing),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Target resolution
+// ---------------------------------------------------------------------------
+
+let sessionsCache: SessionInfo[] | null = null;
+
+async function resolveTarget(target: string): Promise<string> {
+  if (fs.existsSync(target)) return path.resolve(target);
+
+  sessionsCache ??= await discoverSessions();
+  const exact = sessionsCache.find((s) => s.sessionId === target);
+  if (exact) return exact.filePath;
+
+  const matches = sessionsCache.filter((s) => s.sessionId.startsWith(target));
+  if (matches.length === 1) return matches[0].filePath;
+  if (matches.length > 1) throw new Error(`ambiguous session id prefix "${target}" (${matches.length} matches)`);
+  throw new Error(`no such file or session: ${target}`);
+}
+
+// ---------------------------------------------------------------------------
+// Text output
+// ---------------------------------------------------------------------------
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
+  if (n >= 1_000) return (n / 1_000).toFixed(1) + 'k';
+  return String(n);
+}
+
+function formatDuration(ms: number): string {
+  const mins = Math.round(ms / 60_000);
+  if (mins < 60) return `${mins}m`;
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+function printSummary(s: SessionSummary): void {
+  const t = s.tokens;
+  const toolList = Object.entries(s.tools)
+    .sort((a, b) => b[1].calls - a[1].calls)
+    .map(([name, u]) => `${name} ${u.calls}${u.errors ? ` (${u.errors} err)` : ''}`)
+    .join(' · ');
+
+  const rows: [string, string][] = [
+    ['Session', `${s.sessionId}  (${s.endReason}${s.endReason === 'active' ? `, ${s.activity}` : ''})`],
+    ['File', s.filePath],
+    ['Project', s.project ?? '-'],
+    ['Time', s.startedAt ? `${s.startedAt} → ${s.endedAt} (${formatDuration(s.durationMs)})` : '-'],
+    ['Turns', `${s.turns}   Messages ${s.messageCount}   Subagents ${s.subagents}`],
+    ['Models', s.models.join(', ') || '-'],
+    ['Tokens', `in ${formatTokens(t.inputTokens + t.cacheRead + t.cacheCreation)} (cache read ${formatTokens(t.cacheRead)}, write ${formatTokens(t.cacheCreation)}) · out ${formatTokens(t.outputTokens)} · ~$${t.estimatedCost.toFixed(2)}`],
+    ...(t.unknownModels.length > 0
+      ? [['Pricing', `no price for ${t.unknownModels.join(', ')} (costed at default rate)`] as [string, string]]
+      : []),
+    ['Tools', `${s.toolCalls} calls, ${s.toolErrors} errors${toolList ? `: ${toolList}` : ''}`],
+  ];
+  for (const [label, value] of rows) {
+    process.stdout.write(`${label.padEnd(9)}${value}\n`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Main
+// ---------------------------------------------------------------------------
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+  if (!command || command === '-h' || command === '--help') {
+    process.stdout.write(USAGE + '\n');
+    return command ? 0 : 2;
+  }
+  if (command !== 'summarize') {
+    process.stderr.write(`Unknown command: ${command}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  const json = rest.includes('--json');
+  const targets = rest.filter((a) => !a.startsWith('-'));
+  if (targets.length === 0) {
+    process.stderr.write(USAGE + '\n');
+    return 2;
+  }
+
+  const pricing = loadPricing();
+  if (pricing.error) process.stderr.write(`claude-mindmap: ${pricing.filePath}: ${pricing.error}\n`);
+
+  let exitCode = 0;
+  const summaries: SessionSummary[] = [];
+  for (const target of targets) {
+    try {
+      const summary = summarize(await resolveTarget(target), pricing.table);
+      summaries.push(summary);
+      if (!json) {
+        if (summaries.length > 1) process.stdout.write('\n');
+        printSummary(summary);
+      }
+    } catch (err) {
+      process.stderr.write(`claude-mindmap: ${err instanceof Error ? err.message : String(err)}\n`);
+      exitCode = 1;
+    }
+  }
+
+  if (json) {
+    const out = targets.length === 1 ? summaries[0] ?? null : summaries;
+    process.stdout.write(JSON.stringify(out, null, 2) + '\n');
+  }
+  return exitCode;
+}
+
+// Prevent EPIPE crashes when piped into head/less
+process.stdout?.on?.('error', () => {});
+
+main(process.argv.slice(2)).then(
+  (code) => { process.exitCode = code; },
+  (err) => {
+    process.stderr.write(`claude-mindmap: ${err instanceof Error ? err.stack : String(err)}\n`);
+    process.exitCode = 1;
+  },
+);
@@ -1,8 +1,16 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 import { discoverSessions } from './session-discovery';
-import { SessionWatcher } from './watcher';
+import { SessionWatcher, parseJSONL } from './watcher';
+import { readSubagentTranscripts } from './subagents';
+import { loadPricing, ensurePricingFile, watchPricingFile } from './pricing';
+import { ensureSettingsFile, loadSettings } from './settings';
+import { UsageIndexer } from './usage-index';
+import { SearchIndex } from './search-index';
+import { showSessionNotification, SessionNotification } from './notifications';
+import { peekSessions } from './session-peek';
+import { SessionTray } from './tray';
 
 // Prevent EPIPE crashes when stdout pipe is closed (e.g. terminal exits)
 process.stdout?.on?.('error', () => {});
@@ -11,6 +19,19 @@ process.stderr?.on?.('error', () => {});
 let mainWindow: BrowserWindow | null = null;
 let currentWatcher: SessionWatcher | null = null;
 let secondaryWatcher: SessionWatcher | null = null;
+let stopPricingWatch: (() => void) | null = null;
+let sessionTray: SessionTray | null = null;
+/** Set once the app is really quitting, so closing the window no longer just hides it. */
+let quitting = false;
+const usageIndexer = new UsageIndexer();
+const searchIndex = new SearchIndex();
+
+usageIndexer.on('progress', (status) => {
+  if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('usage-index-progress', status);
+});
+usageIndexer.on('updated', (snapshot) => {
+  if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('usage-index-updated', snapshot);
+});
 
 function createWindow(): void {
   mainWindow = new BrowserWindow({
@@ -21,6 +42,8 @@ function createWindow(): void {
       preload: path.join(__dirname, '../preload/preload.js'),
       contextIsolation: true,
       nodeIntegration: false,
+      // Keep activity polling (and notifications) running while hidden to the tray
+      backgroundThrottling: false,
     },
   });
 
@@ -30,17 +53,55 @@ function createWindow(): void {
     mainWindow.loadFile(path.join(__dirname, '../../dist/index.html'));
   }
 
+  // With the tray on, closing the window hides it; the tray menu quits
+  mainWindow.on('close', (event) => {
+    if (quitting || !sessionTray || !loadSettings().tray.closeToTray) return;
+    event.preventDefault();
+    mainWindow?.hide();
+  });
+  mainWindow.on('show', () => sessionTray?.refresh());
+  mainWindow.on('hide', () => sessionTray?.refresh());
+
   mainWindow.on('closed', () => {
     mainWindow = null;
   });
 }
 
+function showMainWindow(): void {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+}
+
+/** Bring the window to the front and have the renderer open a session. */
+function openSessionInWindow(filePath: string): void {
+  showMainWindow();
+  mainWindow?.webContents.send('open-session', filePath);
+}
+
 // ---------------------------------------------------------------------------
 // IPC Handlers
 // ---------------------------------------------------------------------------
 
 ipcMain.handle('discover-sessions', async () => {
-  return discoverSessions();
+  const sessions = await discoverSessions();
+  sessionTray?.setSessions(sessions);
+  // Keep the usage and search indexes warm in the background; unchanged files are skipped
+  void usageIndexer.refresh(sessions);
+  void searchIndex.refresh(sessions);
+  return sessions;
+});
+
+ipcMain.handle('search-sessions', async (_event, query: string) => {
+  return searchIndex.search(query);
+});
+
+ipcMain.handle('get-usage-index', async () => {
+  return usageIndexer.snapshot();
 });
 
 ipcMain.handle('watch-session', async (_event, filePath: string) => {
@@ -70,6 +131,65 @@ ipcMain.handle('watch-session', async (_event, filePath: string) => {
   }
 });
 
+ipcMain.handle('load-subagents', async (_event, filePath: string) => {
+  if (!filePath) return [];
+  return readSubagentTranscripts(filePath);
+});
+
+/** Read whole session files without watching them (earlier sessions of a stitched lineage). */
+ipcMain.handle('read-sessions', async (_event, filePaths: string[]) => {
+  return filePaths.map((filePath) => {
+    if (!filePath.endsWith('.jsonl')) return [];
+    try {
+      return parseJSONL(fs.readFileSync(filePath, 'utf8'));
+    } catch {
+      return [];
+    }
+  });
+});
+
+const EXPORT_FILTERS: Record<string, Electron.FileFilter> = {
+  md: { name: 'Markdown', extensions: ['md'] },
+  html: { name: 'HTML', extensions: ['html'] },
+  json: { name: 'JSON', extensions: ['json'] },
+  svg: { name: 'SVG image', extensions: ['svg'] },
+  png: { name: 'PNG image', extensions: ['png'] },
+};
+
+/** Show a save dialog and write exported session content. Returns the saved path, or null if cancelled. */
+ipcMain.handle('save-export', async (_event, defaultName: string, content: string | Uint8Array) => {
+  if (!mainWindow) return null;
+  const ext = path.extname(defaultName).slice(1);
+  const result = await dialog.showSaveDialog(mainWindow, {
+    defaultPath: path.join(app.getPath('documents'), defaultName),
+    filters: EXPORT_FILTERS[ext] ? [EXPORT_FILTERS[ext]] : [],
+  });
+  if (result.canceled || !result.filePath) return null;
+  if (typeof content === 'string') fs.writeFileSync(result.filePath, content, 'utf8');
+  else fs.writeFileSync(result.filePath, content);
+  return result.filePath;
+});
+
+ipcMain.handle('get-pricing', async () => {
+  return loadPricing();
+});
+
+ipcMain.handle('open-pricing-file', async () => {
+  const filePath = ensurePricingFile();
+  const error = await shell.openPath(filePath);
+  if (error) shell.showItemInFolder(filePath);
+});
+
+ipcMain.handle('open-settings-file', async () => {
+  const filePath = ensureSettingsFile();
+  const error = await shell.openPath(filePath);
+  if (error) shell.showItemInFolder(filePath);
+});
+
+ipcMain.handle('notify-session', async (_event, notification: SessionNotification) => {
+  return showSessionNotification(notification, openSessionInWindow);
+});
+
 ipcMain.handle('stop-watching', async () => {
   if (currentWatcher) {
     currentWatcher.stop();
@@ -112,79 +232,58 @@ ipcMain.handle('stop-secondary-watching', async () => {
   }
 });
 
-/** Find the last real user prompt by scanning backward through JSONL lines. */
-function findLastUserPromptFromLines(lines: string[]): string | null {
-  for (let i = lines.length - 1; i >= 0; i--) {
-    let msg: any;
-    try { msg = JSON.parse(lines[i]); } catch { continue; }
-    if (msg.type !== 'user') continue;
-    const content = msg.message?.content;
-    if (content == null) continue;
-    if (typeof content === 'string') {
-      const trimmed = content.trimStart();
-      if (trimmed.startsWith('<task-notification>') || trimmed.startsWith('<system-reminder>')) continue;
-      return content.length > 80 ? content.slice(0, 77) + '\u2026' : content;
-    }
-    if (Array.isArray(content)) {
-      if (content.length > 0 && content.every((b: any) => b.type === 'tool_result')) continue;
-      const textParts = content.filter((b: any) => b.type === 'text' && b.text?.trim()).map((b: any) => b.text);
-      if (textParts.length === 0) continue;
-      const text = textParts.join(' ');
-      return text.length > 80 ? text.slice(0, 77) + '\u2026' : text;
-    }
-  }
-  return null;
-}
-
 ipcMain.handle('peek-session-activity', async (_event, filePaths: string[]) => {
-  return filePaths.map((fp) => {
-    try {
-      const stat = fs.statSync(fp);
-      if (stat.size === 0) return { filePath: fp, tailMessages: [], lastUserPrompt: null };
-      const fd = fs.openSync(fp, 'r');
-
-      // Small tail (64KB / 50 msgs) for activity detection
-      const tailSize = Math.min(65536, stat.size);
-      const tailBuf = Buffer.alloc(tailSize);
-      fs.readSync(fd, tailBuf, 0, tailSize, stat.size - tailSize);
-      const tailText = tailBuf.toString('utf8');
-      const tailLines = tailText.split('\n').filter((l) => l.trim());
-      const messages: any[] = [];
-      for (let i = tailLines.length - 1; i >= 0 && messages.length < 50; i--) {
-        try { messages.unshift(JSON.parse(tailLines[i])); } catch { /* skip */ }
-      }
-
-      // Try finding user prompt in the small tail first
-      let lastUserPrompt = findLastUserPromptFromLines(tailLines);
-
-      // If not found (image messages can be 100KB+ each), read a larger chunk
-      if (!lastUserPrompt && stat.size > tailSize) {
-        const bigSize = Math.min(524288, stat.size); // 512KB
-        const bigBuf = Buffer.alloc(bigSize);
-        fs.readSync(fd, bigBuf, 0, bigSize, stat.size - bigSize);
-        const bigLines = bigBuf.toString('utf8').split('\n').filter((l) => l.trim());
-        lastUserPrompt = findLastUserPromptFromLines(bigLines);
-      }
-
-      fs.closeSync(fd);
-      return { filePath: fp, tailMessages: messages, lastUserPrompt, fileMtime: stat.mtimeMs };
-    } catch {
-      return { filePath: fp, tailMessages: [], lastUserPrompt: null, fileMtime: 0 };
-    }
-  });
+  const peeks = await peekSessions(filePaths);
+  // The tray shows the same sessions; sharing the result saves it a poll of its own
+  sessionTray?.setPeeks(peeks);
+  return peeks;
 });
 
 // ---------------------------------------------------------------------------
 // App lifecycle
 // ---------------------------------------------------------------------------
 
+// A second launch (e.g. while hidden to the tray) brings the existing window back
+const isPrimaryInstance = app.requestSingleInstanceLock();
+if (!isPrimaryInstance) {
+  app.quit();
+} else {
+  app.on('second-instance', () => showMainWindow());
+}
+
+app.on('before-quit', () => {
+  quitting = true;
+});
+
 app.whenReady().then(() => {
+  if (!isPrimaryInstance) return;
   createWindow();
 
+  if (loadSettings().tray.enabled) {
+    sessionTray = new SessionTray({
+      showWindow: showMainWindow,
+      hideWindow: () => mainWindow?.hide(),
+      isWindowVisible: () => !!mainWindow && !mainWindow.isDestroyed() && mainWindow.isVisible(),
+      openSession: openSessionInWindow,
+      quit: () => app.quit(),
+    });
+    sessionTray.start();
+  }
+
+  // Push pricing edits to the renderer so costs update without a restart
+  stopPricingWatch = watchPricingFile((info) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('pricing-updated', info);
+    }
+  });
+
   // macOS: re-create window when dock icon is clicked and no windows exist.
+  // Also brings back a window hidden to the tray.
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow();
+    } else {
+      showMainWindow();
     }
   });
 });
@@ -199,6 +298,14 @@ app.on('window-all-closed', () => {
     secondaryWatcher.stop();
     secondaryWatcher = null;
   }
+  if (stopPricingWatch) {
+    stopPricingWatch();
+    stopPricingWatch = null;
+  }
+  if (sessionTray) {
+    sessionTray.stop();
+    sessionTray = null;
+  }
 
   if (process.platform !== 'darwin') {
     app.quit();
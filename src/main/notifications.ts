@@ -0,0 +1,50 @@
+import { Notification } from 'electron';
+import { loadSettings, NotificationSettings } from './settings';
+
+export interface SessionNotification {
+  filePath: string;
+  title: string;
+  body: string;
+}
+
+// Electron drops click handlers of notifications that get garbage collected,
+// so keep each one referenced until it is clicked or closed.
+const live = new Set<Notification>();
+
+function minutesOfDay(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** True when `now` falls in the quiet-hours range, which may wrap past midnight. */
+export function inQuietHours(settings: NotificationSettings, now = new Date()): boolean {
+  if (!settings.quietHours) return false;
+  const start = minutesOfDay(settings.quietHours.start);
+  const end = minutesOfDay(settings.quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Show a native notification for a session unless notifications are off or
+ * it's quiet hours. Settings are re-read each time so edits apply at once.
+ */
+export function showSessionNotification(n: SessionNotification, onClick: (filePath: string) => void): boolean {
+  const { notifications } = loadSettings();
+  if (!notifications.enabled || inQuietHours(notifications) || !Notification.isSupported()) return false;
+
+  const notification = new Notification({
+    title: n.title,
+    body: n.body,
+    silent: !notifications.sound,
+  });
+  live.add(notification);
+  notification.on('click', () => {
+    live.delete(notification);
+    onClick(n.filePath);
+  });
+  notification.on('close', () => live.delete(notification));
+  notification.show();
+  return true;
+}
@@ -1,8 +1,9 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { JSONLMessage, SessionInfo } from '../shared/types';
+import { GlobalSearchResponse, JSONLMessage, SessionInfo, SubagentTranscript, UsageIndexSnapshot, UsageIndexStatus } from '../shared/types';
+import { PricingInfo } from '../shared/pricing';
 
 contextBridge.exposeInMainWorld('api', {
-  /** Discover all available sessions from ~/.claude/history.jsonl */
+  /** Discover all available sessions across every configured .claude root */
   discoverSessions: (): Promise<SessionInfo[]> =>
     ipcRenderer.invoke('discover-sessions'),
 
@@ -10,6 +11,72 @@ contextBridge.exposeInMainWorld('api', {
   watchSession: (filePath: string): Promise<JSONLMessage[]> =>
     ipcRenderer.invoke('watch-session', filePath),
 
+  /** Read the transcripts of subagents spawned by a session's Task calls */
+  loadSubagents: (filePath: string): Promise<SubagentTranscript[]> =>
+    ipcRenderer.invoke('load-subagents', filePath),
+
+  /** Read whole session files without watching them, one message list per path */
+  readSessions: (filePaths: string[]): Promise<JSONLMessage[][]> =>
+    ipcRenderer.invoke('read-sessions', filePaths),
+
+  /** Save exported session content via a save dialog. Resolves to the path, or null if cancelled. */
+  saveExport: (defaultName: string, content: string | Uint8Array): Promise<string | null> =>
+    ipcRenderer.invoke('save-export', defaultName, content),
+
+  /** Load the model pricing table (built-in prices merged with the user's pricing.json) */
+  getPricing: (): Promise<PricingInfo> =>
+    ipcRenderer.invoke('get-pricing'),
+
+  /** Open the user's pricing.json in the default editor, creating it from the built-in table if missing */
+  openPricingFile: (): Promise<void> =>
+    ipcRenderer.invoke('open-pricing-file'),
+
+  /** Open settings.json (extra .claude roots, ...) in the default editor, creating it if missing */
+  openSettingsFile: (): Promise<void> =>
+    ipcRenderer.invoke('open-settings-file'),
+
+  /** Register a callback for edits to pricing.json */
+  onPricingUpdated: (callback: (info: PricingInfo) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, info: PricingInfo) => callback(info);
+    ipcRenderer.on('pricing-updated', handler);
+    return () => {
+      ipcRenderer.removeListener('pricing-updated', handler);
+    };
+  },
+
+  /** Current cross-session usage index (may still be filling in the background) */
+  getUsageIndex: (): Promise<UsageIndexSnapshot> =>
+    ipcRenderer.invoke('get-usage-index'),
+
+  /** Register callbacks for usage indexer progress and completed refreshes */
+  onUsageIndex: (onProgress: (status: UsageIndexStatus) => void, onUpdated: (snapshot: UsageIndexSnapshot) => void) => {
+    const progressHandler = (_event: Electron.IpcRendererEvent, status: UsageIndexStatus) => onProgress(status);
+    const updatedHandler = (_event: Electron.IpcRendererEvent, snapshot: UsageIndexSnapshot) => onUpdated(snapshot);
+    ipcRenderer.on('usage-index-progress', progressHandler);
+    ipcRenderer.on('usage-index-updated', updatedHandler);
+    return () => {
+      ipcRenderer.removeListener('usage-index-progress', progressHandler);
+      ipcRenderer.removeListener('usage-index-updated', updatedHandler);
+    };
+  },
+
+  /** Full-text search across every discovered session */
+  searchSessions: (query: string): Promise<GlobalSearchResponse> =>
+    ipcRenderer.invoke('search-sessions', query),
+
+  /** Show a desktop notification for a session (skipped when disabled or in quiet hours). Resolves to whether it was shown. */
+  notifySession: (notification: { filePath: string; title: string; body: string }): Promise<boolean> =>
+    ipcRenderer.invoke('notify-session', notification),
+
+  /** Register a callback for requests to open a session (notification or tray menu click) */
+  onOpenSession: (callback: (filePath: string) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, filePath: string) => callback(filePath);
+    ipcRenderer.on('open-session', handler);
+    return () => {
+      ipcRenderer.removeListener('open-session', handler);
+    };
+  },
+
   /** Stop the current file watcher */
   stopWatching: (): Promise<void> =>
     ipcRenderer.invoke('stop-watching'),
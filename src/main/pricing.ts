@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { BUILTIN_PRICING, PricingInfo, mergePricing } from '../shared/pricing';
+
+/**
+ * User pricing overrides live in ~/.claude-mindmap/pricing.json (or
+ * $CLAUDE_MINDMAP_PRICING). Entries are merged over the built-in table, so
+ * the file only needs the models whose prices differ or are missing.
+ */
+export function getPricingFilePath(): string {
+  return process.env.CLAUDE_MINDMAP_PRICING || path.join(os.homedir(), '.claude-mindmap', 'pricing.json');
+}
+
+export function loadPricing(): PricingInfo {
+  const filePath = getPricingFilePath();
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch {
+    // No file yet — built-in prices only
+    return { table: BUILTIN_PRICING, filePath, error: null };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    return { table: BUILTIN_PRICING, filePath, error: `Invalid JSON: ${(err as Error).message}` };
+  }
+  const { table, problems } = mergePricing(BUILTIN_PRICING, raw);
+  return { table, filePath, error: problems.length > 0 ? problems.join('; ') : null };
+}
+
+/** Create the pricing file with the built-in table as a starting point, if it doesn't exist. */
+export function ensurePricingFile(): string {
+  const filePath = getPricingFilePath();
+  if (!fs.existsSync(filePath)) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(BUILTIN_PRICING, null, 2) + '\n');
+  }
+  return filePath;
+}
+
+/**
+ * Poll the pricing file for edits. fs.watchFile copes with the file not
+ * existing yet and with editors that save by rename. Returns a stop function.
+ */
+export function watchPricingFile(onChange: (info: PricingInfo) => void): () => void {
+  const filePath = getPricingFilePath();
+  const listener = (curr: fs.Stats, prev: fs.Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+    onChange(loadPricing());
+  };
+  fs.watchFile(filePath, { interval: 2000 }, listener);
+  return () => fs.unwatchFile(filePath, listener);
+}
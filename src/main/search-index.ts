@@ -0,0 +1,339 @@
+import * as fs from 'fs';
+import { GlobalSearchResponse, SearchHit, SearchHitKind, SessionInfo, SessionSearchResult } from '../shared/types';
+
+/** Only the start of very large blocks (huge tool outputs) is indexed. */
+const MAX_INDEXED_CHARS = 65536;
+const MAX_RESULT_SESSIONS = 50;
+const HITS_PER_SESSION = 5;
+const SNIPPET_RADIUS = 80;
+
+interface BlockText {
+  blockIndex: number;
+  kind: SearchHitKind;
+  text: string;
+  /** tool_use id — set on tool_input and tool_result blocks */
+  toolUseId?: string;
+}
+
+/**
+ * A searchable block. Text isn't kept in memory; snippets are re-read from
+ * the block's line in the session file when a hit is displayed.
+ */
+interface IndexedDoc {
+  nodeId: string;
+  kind: SearchHitKind;
+  blockIndex: number;
+  lineOffset: number;
+  lineLength: number;
+  timestamp: string;
+}
+
+interface SessionDocs {
+  session: SessionInfo;
+  signature: string;
+  docs: IndexedDoc[];
+  /** token → ascending doc indexes */
+  postings: Map<string, number[]>;
+}
+
+const INJECTED_PREFIXES = ['<task-notification>', '<system-reminder>'];
+
+function isInjected(text: string): boolean {
+  const t = text.trimStart();
+  return INJECTED_PREFIXES.some(p => t.startsWith(p));
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter((b: any) => b?.type === 'text' && typeof b.text === 'string')
+    .map((b: any) => b.text)
+    .join('\n');
+}
+
+/**
+ * Searchable text blocks of one message, mirroring how graph-builder turns
+ * messages into nodes: one user node per prompt, one node per assistant
+ * text/tool_use block, and tool results folded into their tool_use node.
+ */
+function extractBlocks(msg: any): BlockText[] {
+  if (msg.isSidechain) return [];
+  const content = msg.message?.content;
+  const blocks: BlockText[] = [];
+
+  if (msg.type === 'user') {
+    if (typeof content === 'string') {
+      if (content.trim() && !isInjected(content)) blocks.push({ blockIndex: 0, kind: 'user', text: content });
+      return blocks;
+    }
+    if (!Array.isArray(content)) return blocks;
+    const textParts: string[] = [];
+    for (let i = 0; i < content.length; i++) {
+      const block = content[i];
+      if (block?.type === 'tool_result') {
+        const text = toolResultText(block.content);
+        if (text.trim()) blocks.push({ blockIndex: i, kind: 'tool_result', text, toolUseId: block.tool_use_id });
+      } else if (block?.type === 'text' && typeof block.text === 'string') {
+        textParts.push(block.text);
+      }
+    }
+    const text = textParts.join('\n');
+    if (text.trim() && !isInjected(text)) blocks.push({ blockIndex: -1, kind: 'user', text });
+    return blocks;
+  }
+
+  if (msg.type === 'assistant' && Array.isArray(content)) {
+    for (let i = 0; i < content.length; i++) {
+      const block = content[i];
+      if (block?.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+        blocks.push({ blockIndex: i, kind: 'text', text: block.text });
+      } else if (block?.type === 'tool_use') {
+        const text = `${block.name ?? ''}\n${JSON.stringify(block.input ?? {}, null, 1)}`;
+        blocks.push({ blockIndex: i, kind: 'tool_input', text, toolUseId: block.id });
+      }
+    }
+  }
+  return blocks;
+}
+
+/** Lowercased word tokens (letters, digits, underscore), at least 2 chars long. */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}_]{2,}/gu) ?? []).map(t => t.slice(0, 64));
+}
+
+function intersect(a: number[], b: number[]): number[] {
+  const out: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push(a[i]);
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Keep the first matching doc per node. A tool's input and its result are
+ * separate docs of the same tool node, which should count as one hit.
+ */
+function firstPerNode(docs: IndexedDoc[], docIndexes: number[]): number[] {
+  const seen = new Set<string>();
+  return docIndexes.filter((i) => {
+    if (seen.has(docs[i].nodeId)) return false;
+    seen.add(docs[i].nodeId);
+    return true;
+  });
+}
+
+function makeSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  let at = -1;
+  for (const term of terms) {
+    const i = lower.indexOf(term);
+    if (i >= 0 && (at < 0 || i < at)) at = i;
+  }
+  if (at < 0) at = 0;
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + SNIPPET_RADIUS * 2);
+  const body = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return (start > 0 ? '\u2026' : '') + body + (end < text.length ? '\u2026' : '');
+}
+
+async function fileSignature(filePath: string): Promise<string> {
+  const stat = await fs.promises.stat(filePath);
+  return `${stat.size}:${Math.floor(stat.mtimeMs)}`;
+}
+
+/** Yield to the event loop so IPC stays responsive while indexing. */
+function yieldToLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * In-memory full-text index over every discovered session.
+ *
+ * Each session gets its own small inverted index (token → blocks), rebuilt
+ * only when the file's size/mtime changes, so dropping or replacing a
+ * session never touches the others. Queries AND all terms within a block.
+ */
+export class SearchIndex {
+  private entries = new Map<string, SessionDocs>();
+  private indexing = false;
+  private running: Promise<void> | null = null;
+  private pending: SessionInfo[] | null = null;
+
+  /** Bring the index up to date with `sessions`. Concurrent calls coalesce. */
+  refresh(sessions: SessionInfo[]): Promise<void> {
+    if (this.running) {
+      this.pending = sessions;
+      return this.running;
+    }
+    this.running = this.run(sessions).finally(() => {
+      this.running = null;
+      const next = this.pending;
+      this.pending = null;
+      if (next) void this.refresh(next);
+    });
+    return this.running;
+  }
+
+  private async run(sessions: SessionInfo[]): Promise<void> {
+    const live = new Set(sessions.map((s) => s.filePath));
+    for (const filePath of this.entries.keys()) {
+      if (!live.has(filePath)) this.entries.delete(filePath);
+    }
+
+    this.indexing = true;
+    for (const session of sessions) {
+      try {
+        await this.indexSession(session);
+      } catch {
+        // File vanished or unreadable — drop it until the next refresh
+        this.entries.delete(session.filePath);
+      }
+      await yieldToLoop();
+    }
+    this.indexing = false;
+  }
+
+  private async indexSession(session: SessionInfo): Promise<void> {
+    const signature = await fileSignature(session.filePath);
+    const existing = this.entries.get(session.filePath);
+    if (existing && existing.signature === signature) {
+      existing.session = session;
+      return;
+    }
+
+    const buf = await fs.promises.readFile(session.filePath);
+    const docs: IndexedDoc[] = [];
+    const postings = new Map<string, number[]>();
+    const toolNodeIds = new Map<string, string>();
+
+    let start = 0;
+    while (start < buf.length) {
+      let end = buf.indexOf(0x0a, start);
+      if (end < 0) end = buf.length;
+      const lineOffset = start;
+      const lineLength = end - start;
+      start = end + 1;
+
+      let msg: any;
+      try {
+        msg = JSON.parse(buf.toString('utf8', lineOffset, lineOffset + lineLength));
+      } catch {
+        continue; // blank, malformed or partial line
+      }
+      if (!msg?.uuid) continue;
+
+      for (const block of extractBlocks(msg)) {
+        let nodeId: string;
+        if (block.kind === 'user') {
+          nodeId = msg.uuid;
+        } else if (block.kind === 'tool_result') {
+          const toolNode = block.toolUseId ? toolNodeIds.get(block.toolUseId) : undefined;
+          if (!toolNode) continue;
+          nodeId = toolNode;
+        } else {
+          nodeId = `${msg.uuid}-${block.blockIndex}`;
+          if (block.toolUseId) toolNodeIds.set(block.toolUseId, nodeId);
+        }
+
+        const docIndex = docs.length;
+        docs.push({
+          nodeId,
+          kind: block.kind,
+          blockIndex: block.blockIndex,
+          lineOffset,
+          lineLength,
+          timestamp: msg.timestamp ?? '',
+        });
+        for (const token of new Set(tokenize(block.text.slice(0, MAX_INDEXED_CHARS)))) {
+          const list = postings.get(token);
+          if (list) list.push(docIndex);
+          else postings.set(token, [docIndex]);
+        }
+      }
+    }
+
+    this.entries.set(session.filePath, { session, signature, docs, postings });
+  }
+
+  async search(query: string): Promise<GlobalSearchResponse> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return { query, results: [], totalHits: 0, totalSessions: 0, indexing: this.indexing };
+
+    const matches: { entry: SessionDocs; docIndexes: number[] }[] = [];
+    for (const entry of this.entries.values()) {
+      const lists: number[][] = [];
+      for (const term of terms) {
+        const list = entry.postings.get(term);
+        if (!list) break;
+        lists.push(list);
+      }
+      if (lists.length < terms.length) continue;
+      lists.sort((a, b) => a.length - b.length);
+      let docIndexes = lists[0];
+      for (let i = 1; i < lists.length && docIndexes.length > 0; i++) docIndexes = intersect(docIndexes, lists[i]);
+      if (docIndexes.length > 0) matches.push({ entry, docIndexes: firstPerNode(entry.docs, docIndexes) });
+    }
+
+    // Most recently active sessions first — "where did I fix X" is usually recent
+    matches.sort((a, b) => b.entry.session.lastModified - a.entry.session.lastModified);
+
+    const results: SessionSearchResult[] = [];
+    for (const { entry, docIndexes } of matches.slice(0, MAX_RESULT_SESSIONS)) {
+      const { session } = entry;
+      results.push({
+        filePath: session.filePath,
+        sessionId: session.sessionId,
+        project: session.project,
+        displayText: session.displayText,
+        lastModified: session.lastModified,
+        totalHits: docIndexes.length,
+        hits: await this.readHits(session.filePath, docIndexes.slice(0, HITS_PER_SESSION).map(i => entry.docs[i]), terms),
+      });
+    }
+    return {
+      query,
+      results,
+      totalHits: matches.reduce((n, m) => n + m.docIndexes.length, 0),
+      totalSessions: matches.length,
+      indexing: this.indexing,
+    };
+  }
+
+  /** Re-read the matched blocks' lines to build snippets. */
+  private async readHits(filePath: string, docs: IndexedDoc[], terms: string[]): Promise<SearchHit[]> {
+    const hits: SearchHit[] = [];
+    let handle: fs.promises.FileHandle | null = null;
+    try {
+      handle = await fs.promises.open(filePath, 'r');
+      for (const doc of docs) {
+        const buf = Buffer.alloc(doc.lineLength);
+        await handle.read(buf, 0, doc.lineLength, doc.lineOffset);
+        let text = '';
+        try {
+          const block = extractBlocks(JSON.parse(buf.toString('utf8')))
+            .find(b => b.blockIndex === doc.blockIndex && b.kind === doc.kind);
+          text = block?.text ?? '';
+        } catch {
+          // File was rewritten since indexing — show the hit without a snippet
+        }
+        hits.push({ nodeId: doc.nodeId, kind: doc.kind, snippet: makeSnippet(text, terms), timestamp: doc.timestamp });
+      }
+    } catch {
+      // Unreadable now; return what we have
+    } finally {
+      await handle?.close();
+    }
+    return hits;
+  }
+}
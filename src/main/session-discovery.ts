@@ -3,6 +3,8 @@ import * as path from 'path';
 import * as os from 'os';
 import { execSync } from 'child_process';
 import { SessionInfo, SessionEndReason } from '../shared/types';
+import { SessionIndex, SessionMeta, SessionScanState } from './session-index';
+import { loadSettings } from './settings';
 
 interface HistoryEntry {
   display: string;
@@ -33,7 +35,19 @@ function encodeProjectDir(projectPath: string): string {
 }
 
 /**
- * Discover all .claude directories across Windows and WSL distros.
+ * Best-effort inverse of encodeProjectDir. Lossy: a dash in the original path
+ * decodes as a separator, so prefer a real cwd from the session when there is one.
+ */
+function decodeProjectDir(encoded: string): string {
+  const drive = /^([A-Za-z])--(.*)$/.exec(encoded);
+  if (drive) return `${drive[1]}:\\${drive[2].replace(/-/g, '\\')}`;
+  return encoded.replace(/-/g, '/');
+}
+
+/**
+ * Discover all .claude directories: the local one, $CLAUDE_CONFIG_DIR,
+ * WSL distros, and any extra roots listed in settings.json (dev container
+ * volumes, sshfs/NFS mounts of build hosts, ...).
  *
  * Note: On Windows, we can't list \\wsl.localhost directly, but we can
  * access individual distros by name. We use `wsl -l -q` to discover
@@ -41,48 +55,55 @@ function encodeProjectDir(projectPath: string): string {
  */
 function findClaudeRoots(): ClaudeRoot[] {
   const roots: ClaudeRoot[] = [];
-
-  // 1. Native Windows ~/.claude
-  const windowsClaude = path.join(os.homedir(), '.claude');
-  if (fs.existsSync(windowsClaude)) {
-    roots.push({
-      claudeDir: windowsClaude,
-      historyPath: path.join(windowsClaude, 'history.jsonl'),
-      label: 'Windows',
-    });
+  const seen = new Set<string>();
+  const addRoot = (claudeDir: string, label: string) => {
+    const key = path.resolve(claudeDir);
+    if (seen.has(key) || !fs.existsSync(claudeDir)) return;
+    seen.add(key);
+    roots.push({ claudeDir, historyPath: path.join(claudeDir, 'history.jsonl'), label });
+  };
+
+  // 1. Native ~/.claude, or wherever CLAUDE_CONFIG_DIR moves it
+  if (process.env.CLAUDE_CONFIG_DIR) {
+    addRoot(process.env.CLAUDE_CONFIG_DIR, 'CLAUDE_CONFIG_DIR');
   }
+  addRoot(path.join(os.homedir(), '.claude'), process.platform === 'win32' ? 'Windows' : 'Local');
 
-  // 2. WSL distros — use `wsl -l -q` to get names, then access via UNC path
-  try {
-    const output = execSync('wsl -l -q', { encoding: 'utf16le', timeout: 5000 });
-    // wsl output uses UTF-16LE with \r\n and sometimes null bytes
-    const distros = output
-      .replace(/\0/g, '')
-      .split(/\r?\n/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0 && !s.startsWith('docker-'));
-
-    for (const distro of distros) {
-      try {
-        // Use \\wsl.localhost\<distro> UNC path
-        const distroRoot = `\\\\wsl.localhost\\${distro}\\home`;
-        const users = fs.readdirSync(distroRoot);
-        for (const user of users) {
-          const wslClaude = path.join(distroRoot, user, '.claude');
-          if (fs.existsSync(path.join(wslClaude, 'history.jsonl'))) {
-            roots.push({
-              claudeDir: wslClaude,
-              historyPath: path.join(wslClaude, 'history.jsonl'),
-              label: `WSL/${distro}`,
-            });
+  // 2. WSL distros (Windows only) — use `wsl -l -q` to get names, then access via UNC path
+  if (process.platform === 'win32') {
+    try {
+      // stderr is ignored so a missing wsl.exe doesn't print into the CLI's output
+      const output = execSync('wsl -l -q', { encoding: 'utf16le', timeout: 5000, stdio: ['ignore', 'pipe', 'ignore'] });
+      // wsl output uses UTF-16LE with \r\n and sometimes null bytes
+      const distros = output
+        .replace(/\0/g, '')
+        .split(/\r?\n/)
+        .map(s => s.trim())
+        .filter(s => s.length > 0 && !s.startsWith('docker-'));
+
+      for (const distro of distros) {
+        try {
+          // Use \\wsl.localhost\<distro> UNC path
+          const distroRoot = `\\\\wsl.localhost\\${distro}\\home`;
+          const users = fs.readdirSync(distroRoot);
+          for (const user of users) {
+            const wslClaude = path.join(distroRoot, user, '.claude');
+            if (fs.existsSync(path.join(wslClaude, 'history.jsonl')) || fs.existsSync(path.join(wslClaude, 'projects'))) {
+              addRoot(wslClaude, `WSL/${distro}`);
+            }
           }
+        } catch {
+          // Can't access this distro
         }
-      } catch {
-        // Can't access this distro
       }
+    } catch {
+      // WSL not available
     }
-  } catch {
-    // WSL not available
+  }
+
+  // 3. User-configured roots. Unmounted or unreachable paths are skipped.
+  for (const root of loadSettings().roots) {
+    addRoot(root.path, root.label || root.path);
   }
 
   return roots;
@@ -108,179 +129,216 @@ function prettifyDirName(name: string): string {
     .replace(/\b\w/g, c => c.toUpperCase());
 }
 
-interface SessionMeta {
-  firstMessage: string | null;
-  projectName: string | null;
-  userPrompts: string[];
+/** Bytes at the start of a session file scanned for cwd and the first user message. */
+const HEAD_SIZE = 524288; // 512KB
+const MAX_PROMPTS = 100;
+/** Cap on lineage refs kept per session; a continuation points back within its first few lines. */
+const MAX_LINEAGE_REFS = 20;
+const CHUNK_SIZE = 1048576; // 1MB
+
+const SKIPPED_PROMPT_PREFIXES = [
+  '<task-notification>',
+  '<system-reminder>',
+  '<local-command-caveat>',
+  '[Request interrupted',
+  // Compaction summary injected at the start of a continuation
+  'This session is being continued from a previous conversation',
+];
+
+function isSkippedPrompt(text: string): boolean {
+  return SKIPPED_PROMPT_PREFIXES.some(p => text.startsWith(p));
 }
 
-/**
- * Scan a JSONL session file to extract:
- * 1. The project name — derived from the most specific `cwd` directory
- *    that the session navigated to (e.g. "claude-mindmap" → "Claude Mindmap").
- * 2. The first user message — as a fallback title.
- */
-function extractSessionMeta(filePath: string, sessionId: string, projectPath: string): SessionMeta {
-  const result: SessionMeta = { firstMessage: null, projectName: null, userPrompts: [] };
+/** Text of a real user prompt, or null for tool results and injected notices. */
+function userPromptText(msg: any): string | null {
+  if (msg.type !== 'user') return null;
+  const content = msg.message?.content;
+  if (content == null) return null;
 
-  try {
-    // Read the entire file to get all user prompts (not just first 512KB)
-    const stat = fs.statSync(filePath);
-    const fd = fs.openSync(filePath, 'r');
-    // For cwd detection, read first 512KB; for prompts, read entire file
-    const headSize = Math.min(524288, stat.size);
-    const headBuf = Buffer.alloc(headSize);
-    fs.readSync(fd, headBuf, 0, headSize, 0);
-    const headText = headBuf.toString('utf8', 0, headSize);
-    const headLines = headText.split('\n');
-
-    // Track cwd occurrences to find the most-used project directory
-    const cwdCounts = new Map<string, number>();
-
-    // Process head for cwd + first user message
-    for (const line of headLines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      try {
-        const msg = JSON.parse(trimmed);
-
-        // Collect cwd values (from any message type)
-        if (msg.cwd) {
-          const cwd = msg.cwd as string;
-          // Skip .claude internal paths and the base project path itself
-          if (!cwd.includes('.claude') && cwd !== projectPath) {
-            cwdCounts.set(cwd, (cwdCounts.get(cwd) || 0) + 1);
-          }
-        }
-
-        // Extract first user message (same logic as before)
-        if (!result.firstMessage && msg.type === 'user') {
-          if (msg.sessionId && msg.sessionId !== sessionId) continue;
-          if (msg.parentUuid !== null && msg.parentUuid !== undefined) continue;
+  if (typeof content === 'string') {
+    if (isSkippedPrompt(content.trimStart())) return null;
+    return content.trim() || null;
+  }
+  if (Array.isArray(content)) {
+    if (content.length > 0 && content.every((b: any) => b.type === 'tool_result')) return null;
+    const textParts = content.filter((b: any) => b.type === 'text' && b.text?.trim())
+      .map((b: any) => b.text.trim())
+      .filter((t: string) => !isSkippedPrompt(t));
+    if (textParts.length === 0) return null;
+    return textParts.join(' ');
+  }
+  return null;
+}
 
-          const content = msg.message?.content;
-          if (typeof content === 'string' && content.trim().length > 0) {
-            const t = content.trim();
-            if (!t.startsWith('<local-command-caveat>') && !t.startsWith('[Request interrupted')) {
-              result.firstMessage = t.slice(0, 120);
-            }
-          } else if (Array.isArray(content)) {
-            for (const block of content) {
-              if (block.type === 'text' && block.text?.trim()) {
-                const t = block.text.trim();
-                if (t.startsWith('[Request interrupted')) continue;
-                if (t.startsWith('<local-command-caveat>')) continue;
-                result.firstMessage = t.slice(0, 120);
-                break;
-              }
-            }
-          }
-        }
-      } catch {
-        // Skip malformed lines
+/** First prompt of the session, for use as a fallback title. */
+function firstMessageText(msg: any, sessionId: string): string | null {
+  if (msg.type !== 'user') return null;
+  if (msg.sessionId && msg.sessionId !== sessionId) return null;
+  if (msg.parentUuid !== null && msg.parentUuid !== undefined) return null;
+
+  const content = msg.message?.content;
+  if (typeof content === 'string' && content.trim().length > 0) {
+    const t = content.trim();
+    if (!t.startsWith('<local-command-caveat>') && !t.startsWith('[Request interrupted')) {
+      return t.slice(0, 120);
+    }
+  } else if (Array.isArray(content)) {
+    for (const block of content) {
+      if (block.type === 'text' && block.text?.trim()) {
+        const t = block.text.trim();
+        if (t.startsWith('[Request interrupted')) continue;
+        if (t.startsWith('<local-command-caveat>')) continue;
+        return t.slice(0, 120);
       }
     }
+  }
+  return null;
+}
 
-    // Now scan the full file for all user prompts
-    // Read in 1MB chunks to handle large files without loading everything
-    const MAX_PROMPTS = 100;
-    let offset = 0;
-    let leftover = '';
-    const chunkSize = 1048576; // 1MB
-    const readBuf = Buffer.alloc(chunkSize);
-
-    while (offset < stat.size && result.userPrompts.length < MAX_PROMPTS) {
-      const toRead = Math.min(chunkSize, stat.size - offset);
-      fs.readSync(fd, readBuf, 0, toRead, offset);
-      const chunk = leftover + readBuf.toString('utf8', 0, toRead);
-      const chunkLines = chunk.split('\n');
-      // Last line may be partial — save for next chunk
-      leftover = chunkLines.pop() || '';
-      offset += toRead;
-
-      for (const line of chunkLines) {
-        const trimmed = line.trim();
-        if (!trimmed) continue;
-        if (result.userPrompts.length >= MAX_PROMPTS) break;
-        try {
-          const msg = JSON.parse(trimmed);
-          if (msg.type !== 'user') continue;
-          const content = msg.message?.content;
-          if (content == null) continue;
-
-          let promptText: string | null = null;
-          if (typeof content === 'string') {
-            const t = content.trimStart();
-            if (t.startsWith('<task-notification>') || t.startsWith('<system-reminder>') ||
-                t.startsWith('<local-command-caveat>') || t.startsWith('[Request interrupted')) continue;
-            promptText = content.trim();
-          } else if (Array.isArray(content)) {
-            if (content.length > 0 && content.every((b: any) => b.type === 'tool_result')) continue;
-            const textParts = content.filter((b: any) => b.type === 'text' && b.text?.trim())
-              .map((b: any) => b.text.trim())
-              .filter((t: string) => !t.startsWith('<task-notification>') && !t.startsWith('<system-reminder>') &&
-                !t.startsWith('<local-command-caveat>') && !t.startsWith('[Request interrupted'));
-            if (textParts.length === 0) continue;
-            promptText = textParts.join(' ');
-          }
+/** Fold one JSONL line, starting at byte `lineStart`, into the scan state. */
+function scanLine(line: string, lineStart: number, state: SessionScanState, sessionId: string): void {
+  const trimmed = line.trim();
+  if (!trimmed) return;
+  let msg: any;
+  try {
+    msg = JSON.parse(trimmed);
+  } catch {
+    return; // Skip malformed lines
+  }
 
-          if (promptText && promptText.length > 0) {
-            result.userPrompts.push(promptText.length > 80 ? promptText.slice(0, 77) + '\u2026' : promptText);
-          }
-        } catch {
-          // skip
-        }
+  if (lineStart < HEAD_SIZE) {
+    // Collect cwd values (from any message type)
+    if (msg.cwd) {
+      const cwd = msg.cwd as string;
+      // Skip .claude internal paths
+      if (!cwd.includes('.claude')) {
+        state.cwdCounts[cwd] = (state.cwdCounts[cwd] || 0) + 1;
       }
     }
+    if (!state.firstMessage) state.firstMessage = firstMessageText(msg, sessionId);
+    collectLineageRefs(msg, state, sessionId);
+  }
 
-    // Process leftover
-    if (leftover.trim() && result.userPrompts.length < MAX_PROMPTS) {
-      try {
-        const msg = JSON.parse(leftover.trim());
-        if (msg.type === 'user') {
-          const content = msg.message?.content;
-          if (content != null) {
-            let promptText: string | null = null;
-            if (typeof content === 'string') {
-              const t = content.trimStart();
-              if (!t.startsWith('<task-notification>') && !t.startsWith('<system-reminder>') &&
-                  !t.startsWith('<local-command-caveat>') && !t.startsWith('[Request interrupted')) {
-                promptText = content.trim();
-              }
-            } else if (Array.isArray(content)) {
-              if (!(content.length > 0 && content.every((b: any) => b.type === 'tool_result'))) {
-                const textParts = content.filter((b: any) => b.type === 'text' && b.text?.trim())
-                  .map((b: any) => b.text.trim())
-                  .filter((t: string) => !t.startsWith('<task-notification>') && !t.startsWith('<system-reminder>'));
-                if (textParts.length > 0) promptText = textParts.join(' ');
-              }
-            }
-            if (promptText && promptText.length > 0) {
-              result.userPrompts.push(promptText.length > 80 ? promptText.slice(0, 77) + '\u2026' : promptText);
-            }
-          }
-        }
-      } catch { /* skip */ }
+  if (state.userPrompts.length < MAX_PROMPTS) {
+    const promptText = userPromptText(msg);
+    if (promptText) {
+      state.userPrompts.push(promptText.length > 80 ? promptText.slice(0, 77) + '\u2026' : promptText);
     }
+  }
+}
 
-    fs.closeSync(fd);
+/**
+ * Note what the head of a session points back to: a continuation opens with
+ * a compact_boundary whose logicalParentUuid (or summary lines whose
+ * leafUuid) names a message in the session it continues, and may carry
+ * over messages stamped with that session's id.
+ */
+function collectLineageRefs(msg: any, state: SessionScanState, sessionId: string): void {
+  const refs = state.lineageRefs;
+  if (refs.length < MAX_LINEAGE_REFS) {
+    const ref = msg.type === 'system' && msg.subtype === 'compact_boundary' ? msg.logicalParentUuid
+      : msg.type === 'summary' ? msg.leafUuid
+      : null;
+    if (typeof ref === 'string' && !refs.includes(ref)) refs.push(ref);
+  }
+  const ids = state.lineageSessionIds;
+  if (typeof msg.sessionId === 'string' && msg.sessionId !== sessionId
+    && ids.length < MAX_LINEAGE_REFS && !ids.includes(msg.sessionId)) {
+    ids.push(msg.sessionId);
+  }
+}
+
+function emptyScanState(): SessionScanState {
+  return { offset: 0, firstMessage: null, cwdCounts: {}, userPrompts: [], lineageRefs: [], lineageSessionIds: [] };
+}
 
-    // Find the best project name from cwds
-    // Filter out generic paths, pick the most frequent remaining one
-    let bestCwd = '';
-    let bestCount = 0;
-    for (const [cwd, count] of cwdCounts) {
-      if (isGenericPath(cwd)) continue;
-      if (count > bestCount) {
-        bestCwd = cwd;
-        bestCount = count;
+/** Copy of a scan state that can be advanced without touching the original. */
+function cloneScanState(state: SessionScanState): SessionScanState {
+  return {
+    ...state,
+    cwdCounts: { ...state.cwdCounts },
+    userPrompts: [...state.userPrompts],
+    lineageRefs: [...state.lineageRefs],
+    lineageSessionIds: [...state.lineageSessionIds],
+  };
+}
+
+/**
+ * Advance `state` over the complete lines between its offset and `size`,
+ * reading in 1MB chunks. Returns the trailing partial line (if any), which
+ * is left unconsumed so a later append can complete it.
+ */
+function scanSessionFile(filePath: string, size: number, state: SessionScanState, sessionId: string): string {
+  // Nothing left to learn once the head is done and the prompt list is full
+  if (state.offset >= HEAD_SIZE && state.userPrompts.length >= MAX_PROMPTS) {
+    state.offset = size;
+    return '';
+  }
+
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const readBuf = Buffer.alloc(CHUNK_SIZE);
+    let pending = Buffer.alloc(0);
+    let pos = state.offset;
+
+    while (pos < size) {
+      const bytesRead = fs.readSync(fd, readBuf, 0, Math.min(CHUNK_SIZE, size - pos), pos);
+      if (bytesRead === 0) break; // truncated underneath us
+      pos += bytesRead;
+      const data = pending.length > 0
+        ? Buffer.concat([pending, readBuf.subarray(0, bytesRead)])
+        : readBuf.subarray(0, bytesRead);
+
+      let start = 0;
+      let nl: number;
+      while ((nl = data.indexOf(0x0a, start)) !== -1) {
+        scanLine(data.toString('utf8', start, nl), state.offset, state, sessionId);
+        state.offset += nl - start + 1;
+        start = nl + 1;
+      }
+      // Copy: readBuf is reused for the next chunk
+      pending = Buffer.from(data.subarray(start));
+
+      if (state.offset >= HEAD_SIZE && state.userPrompts.length >= MAX_PROMPTS) {
+        state.offset = size;
+        return '';
       }
     }
-    if (bestCwd) {
-      result.projectName = prettifyDirName(path.basename(bestCwd));
+    return pending.toString('utf8');
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Derive display metadata from a scan:
+ * 1. The project name — from the most specific `cwd` directory that the
+ *    session navigated to (e.g. "claude-mindmap" → "Claude Mindmap").
+ * 2. The first user message — as a fallback title.
+ */
+function metaFromScan(state: SessionScanState, projectPath: string): SessionMeta {
+  const result: SessionMeta = {
+    project: projectPath,
+    firstMessage: state.firstMessage,
+    projectName: null,
+    userPrompts: state.userPrompts,
+    lineageRefs: state.lineageRefs,
+    lineageSessionIds: state.lineageSessionIds,
+  };
+
+  // Filter out the base project path and generic paths, pick the most
+  // frequent remaining one
+  let bestCwd = '';
+  let bestCount = 0;
+  for (const [cwd, count] of Object.entries(state.cwdCounts)) {
+    if (cwd === projectPath || isGenericPath(cwd)) continue;
+    if (count > bestCount) {
+      bestCwd = cwd;
+      bestCount = count;
     }
-  } catch {
-    // Ignore read errors
+  }
+  if (bestCwd) {
+    result.projectName = prettifyDirName(path.basename(bestCwd));
   }
 
   // If the project path itself is specific enough, use it as fallback
@@ -291,19 +349,107 @@ function extractSessionMeta(filePath: string, sessionId: string, projectPath: st
   return result;
 }
 
+/** The cwd whose encoding names the session's project folder, else a decoded guess. */
+function inferProjectPath(state: SessionScanState, encodedDir: string): string {
+  for (const cwd of Object.keys(state.cwdCounts)) {
+    if (encodeProjectDir(cwd) === encodedDir) return cwd;
+  }
+  return decodeProjectDir(encodedDir);
+}
+
+let sessionIndex: SessionIndex | null = null;
+
+/**
+ * Metadata for a session file, served from the on-disk session index when
+ * the file is unchanged and otherwise scanning only the bytes appended since
+ * it was last indexed. A null `projectPath` is inferred from the session's
+ * cwd and its project folder name.
+ */
+function extractSessionMeta(
+  filePath: string,
+  stat: fs.Stats,
+  sessionId: string,
+  projectPath: string | null,
+  index: SessionIndex,
+): SessionMeta {
+  const cached = index.lookup(filePath, stat.size, stat.mtimeMs);
+  if (cached) return cached;
+
+  const resumed = index.resumeState(filePath, stat.size);
+  const state: SessionScanState = resumed ? cloneScanState(resumed) : emptyScanState();
+
+  let tail = '';
+  try {
+    tail = scanSessionFile(filePath, stat.size, state, sessionId);
+  } catch {
+    // Ignore read errors — keep whatever was scanned
+  }
+
+  // A final line without a newline is usually mid-write. Count it for this
+  // result but keep it out of the saved state so the next scan re-reads it.
+  let withTail = state;
+  if (tail.trim()) {
+    withTail = cloneScanState(state);
+    scanLine(tail, state.offset, withTail, sessionId);
+  }
+
+  const project = projectPath ?? inferProjectPath(withTail, path.basename(path.dirname(filePath)));
+  const meta = metaFromScan(withTail, project);
+  index.update(filePath, stat.size, stat.mtimeMs, state, meta);
+  return meta;
+}
+
+interface HistoryCacheEntry {
+  size: number;
+  mtimeMs: number;
+  /** Bytes parsed so far, just after a newline. */
+  offset: number;
+  entries: Map<string, HistoryEntry>;
+}
+
+/** history.jsonl is append-only, so each refresh parses only the new bytes. */
+const historyCache = new Map<string, HistoryCacheEntry>();
+
 /**
  * Parse a history.jsonl file and return its entries keyed by sessionId.
  */
 function parseHistoryFile(historyPath: string): Map<string, HistoryEntry> {
-  const entryMap = new Map<string, HistoryEntry>();
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(historyPath);
+  } catch {
+    historyCache.delete(historyPath);
+    return new Map();
+  }
+
+  let cached = historyCache.get(historyPath);
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+    return cached.entries;
+  }
+  if (!cached || stat.size < cached.offset) {
+    // New or rewritten — parse from the start
+    cached = { size: 0, mtimeMs: 0, offset: 0, entries: new Map() };
+  }
 
   let rawContent: string;
   try {
-    rawContent = fs.readFileSync(historyPath, 'utf8');
+    const length = stat.size - cached.offset;
+    const buf = Buffer.alloc(length);
+    const fd = fs.openSync(historyPath, 'r');
+    try {
+      fs.readSync(fd, buf, 0, length, cached.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+    // Leave a trailing partial line for the next refresh
+    const end = buf.lastIndexOf(0x0a) + 1;
+    rawContent = buf.toString('utf8', 0, end);
+    cached.offset += end;
   } catch {
-    return entryMap;
+    return cached.entries;
   }
 
+  const entryMap = cached.entries;
   const lines = rawContent.split('\n');
   for (const line of lines) {
     const trimmed = line.trim();
@@ -321,6 +467,9 @@ function parseHistoryFile(historyPath: string): Map<string, HistoryEntry> {
     }
   }
 
+  cached.size = stat.size;
+  cached.mtimeMs = stat.mtimeMs;
+  historyCache.set(historyPath, cached);
   return entryMap;
 }
 
@@ -339,7 +488,7 @@ function hasLockFile(sessionId: string, claudeDir: string): boolean {
 /**
  * Detect how/why a session ended by reading the tail of the JSONL file.
  */
-function detectEndReason(filePath: string, mtimeMs: number, sessionId: string, claudeDir: string): SessionEndReason {
+export function detectEndReason(filePath: string, mtimeMs: number, sessionId: string, claudeDir: string): SessionEndReason {
   // Lock file present = likely active, but lock files can be orphaned if
   // Claude Code crashes. Cross-check: if the JSONL hasn't been modified in
   // 30 minutes, the lock file is stale and the session is dead.
@@ -355,50 +504,132 @@ function detectEndReason(filePath: string, mtimeMs: number, sessionId: string, c
     return 'active';
   }
 
-  // Read the last ~8KB and check for compact_boundary
+  // Walk the last ~8KB backwards to find the last meaningful system message
+  const tail = readTailMessages(filePath);
+  for (let i = tail.length - 1; i >= 0; i--) {
+    const msg = tail[i];
+    if (msg.type === 'system' && msg.subtype === 'compact_boundary') {
+      return 'compacted';
+    }
+  }
+
+  return 'ended';
+}
+
+/** Parsed messages in the last `bytes` of a session file; empty on read errors. */
+function readTailMessages(filePath: string, bytes = 8192): any[] {
+  const messages: any[] = [];
   try {
     const stat = fs.statSync(filePath);
-    const tailSize = Math.min(8192, stat.size);
+    const tailSize = Math.min(bytes, stat.size);
     const buf = Buffer.alloc(tailSize);
     const fd = fs.openSync(filePath, 'r');
-    fs.readSync(fd, buf, 0, tailSize, stat.size - tailSize);
-    fs.closeSync(fd);
-
-    const text = buf.toString('utf8');
-    const lines = text.split('\n');
-
-    // Walk backwards to find the last meaningful system message
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const trimmed = lines[i].trim();
+    try {
+      fs.readSync(fd, buf, 0, tailSize, stat.size - tailSize);
+    } finally {
+      fs.closeSync(fd);
+    }
+    for (const line of buf.toString('utf8').split('\n')) {
+      const trimmed = line.trim();
       if (!trimmed) continue;
       try {
-        const msg = JSON.parse(trimmed);
-        if (msg.type === 'system' && msg.subtype === 'compact_boundary') {
-          return 'compacted';
-        }
+        messages.push(JSON.parse(trimmed));
       } catch {
         // partial line from seeking mid-line, skip
       }
     }
   } catch {
-    // read error, fall through
+    // read error — nothing to report
   }
+  return messages;
+}
 
-  return 'ended';
+/**
+ * Chain compacted sessions to the sessions that continue them, setting
+ * `continuedFrom` / `continuedIn` in place. A session continues a compacted
+ * one when its head references a message from that session's tail, or
+ * failing that, carries over messages stamped with its sessionId. When
+ * several sessions continue the same one, the most recently written wins.
+ */
+function linkContinuations(sessions: SessionInfo[], metaByPath: Map<string, SessionMeta>): void {
+  // A uuid carried over into a later file still belongs to the oldest session holding it
+  const byUuid = new Map<string, SessionInfo>();
+  for (const s of sessions) {
+    if (s.endReason !== 'compacted') continue;
+    for (const msg of readTailMessages(s.filePath)) {
+      if (typeof msg.uuid !== 'string') continue;
+      const holder = byUuid.get(msg.uuid);
+      if (!holder || holder.lastModified > s.lastModified) byUuid.set(msg.uuid, s);
+    }
+  }
+  const bySessionId = new Map(sessions.map(s => [s.sessionId, s]));
+
+  for (const next of sessions) {
+    const meta = metaByPath.get(next.filePath);
+    if (!meta) continue;
+    // The continued session was written before its continuation
+    const earlier = (s: SessionInfo | undefined): s is SessionInfo =>
+      !!s && s !== next && s.lastModified < next.lastModified;
+    const prev = meta.lineageRefs.map(uuid => byUuid.get(uuid)).find(earlier)
+      ?? meta.lineageSessionIds.map(id => bySessionId.get(id)).find(earlier);
+    if (!prev) continue;
+
+    const rival = prev.continuedIn ? sessions.find(s => s.filePath === prev.continuedIn) : undefined;
+    if (rival && rival.lastModified >= next.lastModified) continue;
+    if (rival) rival.continuedFrom = undefined;
+    prev.continuedIn = next.filePath;
+    next.continuedFrom = prev.filePath;
+  }
 }
 
 /**
- * Scan all discoverable .claude directories (Windows native + WSL distros)
+ * List the top-level session files under <claudeDir>/projects/<encoded>/.
+ * Legacy agent-*.jsonl subagent transcripts share those folders and are skipped.
+ */
+function listProjectSessionFiles(claudeDir: string): { sessionId: string; filePath: string }[] {
+  const files: { sessionId: string; filePath: string }[] = [];
+  const projectsDir = path.join(claudeDir, 'projects');
+  let projectDirs: string[];
+  try {
+    projectDirs = fs.readdirSync(projectsDir);
+  } catch {
+    return files;
+  }
+
+  for (const dir of projectDirs) {
+    let names: string[];
+    try {
+      names = fs.readdirSync(path.join(projectsDir, dir));
+    } catch {
+      continue; // Not a directory or unreadable
+    }
+    for (const name of names) {
+      if (!name.endsWith('.jsonl') || name.startsWith('agent-')) continue;
+      files.push({ sessionId: path.basename(name, '.jsonl'), filePath: path.join(projectsDir, dir, name) });
+    }
+  }
+  return files;
+}
+
+/**
+ * Scan all discoverable .claude directories (local, WSL distros, configured roots)
  * and return metadata for every session whose JSONL log file exists.
  *
+ * Sessions come from each root's history.jsonl, merged with a walk of
+ * projects/<encoded>/*.jsonl for sessions history doesn't know about
+ * (SDK/headless runs, rotated or deleted history). Walk-only sessions take
+ * their project from the session's cwd and their timestamp from the file.
+ *
  * Returns sessions sorted by timestamp descending (newest first).
  * Deduplicates by sessionId, keeping the entry with the latest timestamp.
  */
 export async function discoverSessions(): Promise<SessionInfo[]> {
   const roots = findClaudeRoots();
+  sessionIndex ??= new SessionIndex();
+  const index = sessionIndex;
 
   // Collect all sessions across all roots, deduplicating by sessionId.
-  const globalMap = new Map<string, { entry: HistoryEntry; claudeDir: string }>();
+  const globalMap = new Map<string, { entry: HistoryEntry; claudeDir: string; source: string }>();
 
   for (const root of roots) {
     if (!fs.existsSync(root.historyPath)) continue;
@@ -407,15 +638,16 @@ export async function discoverSessions(): Promise<SessionInfo[]> {
     for (const [sessionId, entry] of entries) {
       const existing = globalMap.get(sessionId);
       if (!existing || entry.timestamp > existing.entry.timestamp) {
-        globalMap.set(sessionId, { entry, claudeDir: root.claudeDir });
+        globalMap.set(sessionId, { entry, claudeDir: root.claudeDir, source: root.label });
       }
     }
   }
 
   // Build SessionInfo[] for entries whose log files exist on disk.
   const sessions: SessionInfo[] = [];
+  const metaByPath = new Map<string, SessionMeta>();
 
-  for (const { entry, claudeDir } of globalMap.values()) {
+  for (const { entry, claudeDir, source } of globalMap.values()) {
     const encodedProject = encodeProjectDir(entry.project);
     const logFile = path.join(
       claudeDir,
@@ -431,7 +663,8 @@ export async function discoverSessions(): Promise<SessionInfo[]> {
       continue;
     }
 
-    const meta = extractSessionMeta(logFile, entry.sessionId, entry.project);
+    const meta = extractSessionMeta(logFile, stat, entry.sessionId, entry.project, index);
+    metaByPath.set(logFile, meta);
     const title = meta.projectName || meta.firstMessage || entry.display || '(no prompt)';
     // Show latest user prompt as subtitle (entry.display from history.jsonl
     // tracks the most recent prompt, while meta.firstMessage is the first one)
@@ -449,9 +682,50 @@ export async function discoverSessions(): Promise<SessionInfo[]> {
       lastModified: stat.mtimeMs,
       endReason,
       userPrompts: meta.userPrompts,
+      source,
     });
   }
 
+  // Sessions on disk that no history.jsonl mentions (or whose history
+  // entry points at a project folder that doesn't hold the file)
+  const listed = new Set(sessions.map(s => s.sessionId));
+  const walked = new Map<string, { filePath: string; stat: fs.Stats; claudeDir: string; source: string }>();
+  for (const root of roots) {
+    for (const { sessionId, filePath } of listProjectSessionFiles(root.claudeDir)) {
+      if (listed.has(sessionId)) continue;
+      let stat;
+      try {
+        stat = fs.statSync(filePath);
+      } catch {
+        continue;
+      }
+      const existing = walked.get(sessionId);
+      if (!existing || stat.mtimeMs > existing.stat.mtimeMs) {
+        walked.set(sessionId, { filePath, stat, claudeDir: root.claudeDir, source: root.label });
+      }
+    }
+  }
+
+  for (const [sessionId, { filePath, stat, claudeDir, source }] of walked) {
+    const meta = extractSessionMeta(filePath, stat, sessionId, null, index);
+    metaByPath.set(filePath, meta);
+    sessions.push({
+      sessionId,
+      project: meta.project,
+      displayText: meta.projectName || meta.firstMessage || '(no prompt)',
+      subtitle: meta.projectName ? (meta.firstMessage || undefined) : undefined,
+      timestamp: new Date(stat.mtimeMs).toISOString(),
+      filePath,
+      lastModified: stat.mtimeMs,
+      endReason: detectEndReason(filePath, stat.mtimeMs, sessionId, claudeDir),
+      userPrompts: meta.userPrompts,
+      source,
+    });
+  }
+
+  index.save();
+  linkContinuations(sessions, metaByPath);
+
   // Sort newest first
   sessions.sort((a, b) => {
     return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/** Bump when the cached scan state or meta shape changes; older files are discarded. */
+const INDEX_VERSION = 4;
+
+/**
+ * Incremental scan progress for one session file. Everything before `offset`
+ * has been consumed, and `offset` always sits just after a newline, so an
+ * appended file can be resumed from there.
+ */
+export interface SessionScanState {
+  offset: number;
+  firstMessage: string | null;
+  /** cwd → occurrences within the head of the file (.claude paths excluded) */
+  cwdCounts: Record<string, number>;
+  userPrompts: string[];
+  /** uuids in earlier sessions that the head of this file points back to (compact_boundary, summary). */
+  lineageRefs: string[];
+  /** Other sessionIds found in the head of this file, carried over from the session it continues. */
+  lineageSessionIds: string[];
+}
+
+export interface SessionMeta {
+  /** Project directory the session ran in. */
+  project: string;
+  firstMessage: string | null;
+  projectName: string | null;
+  userPrompts: string[];
+  lineageRefs: string[];
+  lineageSessionIds: string[];
+}
+
+interface IndexEntry {
+  size: number;
+  mtimeMs: number;
+  scan: SessionScanState;
+  /** Meta as of `size`/`mtimeMs`, including any trailing partial line. */
+  meta: SessionMeta;
+}
+
+interface IndexFile {
+  version: number;
+  entries: Record<string, IndexEntry>;
+}
+
+export function getSessionIndexPath(): string {
+  return path.join(os.homedir(), '.claude-mindmap', 'session-index.json');
+}
+
+/**
+ * On-disk cache of extracted session metadata, keyed by JSONL file path.
+ *
+ * An entry is reused as-is while the file's size and mtime match. When the
+ * file has grown, its saved scan state lets the caller read only the appended
+ * bytes; when it has shrunk, the caller starts over.
+ */
+export class SessionIndex {
+  private entries = new Map<string, IndexEntry>();
+  private seen = new Set<string>();
+  private dirty = false;
+
+  constructor(private filePath: string = getSessionIndexPath()) {
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as IndexFile;
+      if (raw.version === INDEX_VERSION && raw.entries) {
+        for (const [key, entry] of Object.entries(raw.entries)) this.entries.set(key, entry);
+      }
+    } catch {
+      // Missing or corrupt — start empty and rebuild
+    }
+  }
+
+  /** Cached meta if the file is unchanged since it was indexed. */
+  lookup(filePath: string, size: number, mtimeMs: number): SessionMeta | null {
+    this.seen.add(filePath);
+    const entry = this.entries.get(filePath);
+    if (entry && entry.size === size && entry.mtimeMs === mtimeMs) return entry.meta;
+    return null;
+  }
+
+  /** Scan state to resume from, or null if the file must be scanned from the start. */
+  resumeState(filePath: string, size: number): SessionScanState | null {
+    const entry = this.entries.get(filePath);
+    if (!entry || entry.scan.offset > size) return null;
+    return entry.scan;
+  }
+
+  update(filePath: string, size: number, mtimeMs: number, scan: SessionScanState, meta: SessionMeta): void {
+    this.seen.add(filePath);
+    this.entries.set(filePath, { size, mtimeMs, scan, meta });
+    this.dirty = true;
+  }
+
+  /**
+   * Drop entries not looked up since the last save (deleted sessions),
+   * then write the index if anything changed.
+   */
+  save(): void {
+    for (const key of this.entries.keys()) {
+      if (!this.seen.has(key)) {
+        this.entries.delete(key);
+        this.dirty = true;
+      }
+    }
+    this.seen.clear();
+    if (!this.dirty) return;
+
+    const data: IndexFile = { version: INDEX_VERSION, entries: Object.fromEntries(this.entries) };
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write-then-rename so a crash mid-write never leaves a truncated index
+      const tmp = `${this.filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(data));
+      fs.renameSync(tmp, this.filePath);
+      this.dirty = false;
+    } catch {
+      // Cache is best-effort; the next discovery retries
+    }
+  }
+}
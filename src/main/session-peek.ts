@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+
+/** The tail of a session file, enough to tell what Claude is doing in it. */
+export interface SessionPeek {
+  filePath: string;
+  tailMessages: any[];
+  lastUserPrompt: string | null;
+  fileMtime: number;
+}
+
+/** Find the last real user prompt by scanning backward through JSONL lines. */
+function findLastUserPromptFromLines(lines: string[]): string | null {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    let msg: any;
+    try { msg = JSON.parse(lines[i]); } catch { continue; }
+    if (msg.type !== 'user') continue;
+    const content = msg.message?.content;
+    if (content == null) continue;
+    if (typeof content === 'string') {
+      const trimmed = content.trimStart();
+      if (trimmed.startsWith('<task-notification>') || trimmed.startsWith('<system-reminder>')) continue;
+      return content.length > 80 ? content.slice(0, 77) + '\u2026' : content;
+    }
+    if (Array.isArray(content)) {
+      if (content.length > 0 && content.every((b: any) => b.type === 'tool_result')) continue;
+      const textParts = content.filter((b: any) => b.type === 'text' && b.text?.trim()).map((b: any) => b.text);
+      if (textParts.length === 0) continue;
+      const text = textParts.join(' ');
+      return text.length > 80 ? text.slice(0, 77) + '\u2026' : text;
+    }
+  }
+  return null;
+}
+
+async function peekSession(fp: string): Promise<SessionPeek> {
+  let handle: fs.promises.FileHandle | null = null;
+  try {
+    const stat = await fs.promises.stat(fp);
+    if (stat.size === 0) return { filePath: fp, tailMessages: [], lastUserPrompt: null, fileMtime: stat.mtimeMs };
+    handle = await fs.promises.open(fp, 'r');
+
+    // Small tail (64KB / 50 msgs) for activity detection
+    const tailSize = Math.min(65536, stat.size);
+    const tailBuf = Buffer.alloc(tailSize);
+    await handle.read(tailBuf, 0, tailSize, stat.size - tailSize);
+    const tailText = tailBuf.toString('utf8');
+    const tailLines = tailText.split('\n').filter((l) => l.trim());
+    const messages: any[] = [];
+    for (let i = tailLines.length - 1; i >= 0 && messages.length < 50; i--) {
+      try { messages.unshift(JSON.parse(tailLines[i])); } catch { /* skip */ }
+    }
+
+    // Try finding user prompt in the small tail first
+    let lastUserPrompt = findLastUserPromptFromLines(tailLines);
+
+    // If not found (image messages can be 100KB+ each), read a larger chunk
+    if (!lastUserPrompt && stat.size > tailSize) {
+      const bigSize = Math.min(524288, stat.size); // 512KB
+      const bigBuf = Buffer.alloc(bigSize);
+      await handle.read(bigBuf, 0, bigSize, stat.size - bigSize);
+      const bigLines = bigBuf.toString('utf8').split('\n').filter((l) => l.trim());
+      lastUserPrompt = findLastUserPromptFromLines(bigLines);
+    }
+
+    return { filePath: fp, tailMessages: messages, lastUserPrompt, fileMtime: stat.mtimeMs };
+  } catch {
+    return { filePath: fp, tailMessages: [], lastUserPrompt: null, fileMtime: 0 };
+  } finally {
+    await handle?.close().catch(() => {});
+  }
+}
+
+/**
+ * Read the last few messages and the last real user prompt of each session,
+ * without loading whole files. Used for background activity detection.
+ */
+export function peekSessions(filePaths: string[]): Promise<SessionPeek[]> {
+  return Promise.all(filePaths.map(peekSession));
+}
@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+/** An extra .claude directory to scan, e.g. a dev container volume or an sshfs mount. */
+export interface RootSetting {
+  path: string;
+  /** Badge shown next to its sessions; defaults to the directory path. */
+  label?: string;
+}
+
+/** Desktop notifications for sessions that need attention. */
+export interface NotificationSettings {
+  enabled: boolean;
+  /** Play the system notification sound. */
+  sound: boolean;
+  /** Local "HH:MM" range with no notifications; may wrap past midnight. */
+  quietHours?: { start: string; end: string };
+}
+
+/** Tray / menu bar icon with the status of active sessions. */
+export interface TraySettings {
+  enabled: boolean;
+  /** Closing the window hides it to the tray instead of quitting. */
+  closeToTray: boolean;
+}
+
+export interface AppSettings {
+  roots: RootSetting[];
+  notifications: NotificationSettings;
+  tray: TraySettings;
+}
+
+const DEFAULT_NOTIFICATIONS: NotificationSettings = {
+  enabled: true,
+  sound: true,
+};
+
+const DEFAULT_TRAY: TraySettings = {
+  enabled: true,
+  closeToTray: true,
+};
+
+const DEFAULT_SETTINGS: AppSettings = {
+  roots: [],
+  notifications: DEFAULT_NOTIFICATIONS,
+  tray: DEFAULT_TRAY,
+};
+
+/**
+ * App settings live in ~/.claude-mindmap/settings.json (or
+ * $CLAUDE_MINDMAP_SETTINGS). The file is re-read on use, so edits apply on
+ * the next session refresh without a restart.
+ */
+export function getSettingsFilePath(): string {
+  return process.env.CLAUDE_MINDMAP_SETTINGS || path.join(os.homedir(), '.claude-mindmap', 'settings.json');
+}
+
+function expandHome(p: string): string {
+  if (p === '~') return os.homedir();
+  if (p.startsWith('~/') || p.startsWith('~\\')) return path.join(os.homedir(), p.slice(2));
+  return p;
+}
+
+function parseRoots(raw: unknown): RootSetting[] {
+  if (!Array.isArray(raw)) return [];
+  const roots: RootSetting[] = [];
+  for (const item of raw) {
+    // Accept a bare path string or { path, label }
+    if (typeof item === 'string' && item.trim()) {
+      roots.push({ path: expandHome(item.trim()) });
+    } else if (item && typeof item === 'object' && typeof item.path === 'string' && item.path.trim()) {
+      roots.push({
+        path: expandHome(item.path.trim()),
+        label: typeof item.label === 'string' && item.label.trim() ? item.label.trim() : undefined,
+      });
+    }
+  }
+  return roots;
+}
+
+const TIME_OF_DAY = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+function parseNotifications(raw: unknown): NotificationSettings {
+  if (!raw || typeof raw !== 'object') return DEFAULT_NOTIFICATIONS;
+  const n = raw as any;
+  const quiet = n.quietHours;
+  return {
+    enabled: typeof n.enabled === 'boolean' ? n.enabled : DEFAULT_NOTIFICATIONS.enabled,
+    sound: typeof n.sound === 'boolean' ? n.sound : DEFAULT_NOTIFICATIONS.sound,
+    quietHours: quiet && TIME_OF_DAY.test(quiet.start) && TIME_OF_DAY.test(quiet.end)
+      ? { start: quiet.start, end: quiet.end }
+      : undefined,
+  };
+}
+
+function parseTray(raw: unknown): TraySettings {
+  if (!raw || typeof raw !== 'object') return DEFAULT_TRAY;
+  const t = raw as any;
+  return {
+    enabled: typeof t.enabled === 'boolean' ? t.enabled : DEFAULT_TRAY.enabled,
+    closeToTray: typeof t.closeToTray === 'boolean' ? t.closeToTray : DEFAULT_TRAY.closeToTray,
+  };
+}
+
+/** Load settings, falling back to defaults for a missing or malformed file. */
+export function loadSettings(): AppSettings {
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(getSettingsFilePath(), 'utf8'));
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+  if (!raw || typeof raw !== 'object') return DEFAULT_SETTINGS;
+  return {
+    roots: parseRoots(raw.roots),
+    notifications: parseNotifications(raw.notifications),
+    tray: parseTray(raw.tray),
+  };
+}
+
+/** Create the settings file with an example root entry plus notification and tray defaults, if it doesn't exist. */
+export function ensureSettingsFile(): string {
+  const filePath = getSettingsFilePath();
+  if (!fs.existsSync(filePath)) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const example = {
+      roots: [
+        { path: '/mnt/devbox/home/me/.claude', label: 'devbox' },
+      ],
+      notifications: { enabled: true, sound: true },
+      tray: { enabled: true, closeToTray: true },
+    };
+    fs.writeFileSync(filePath, JSON.stringify(example, null, 2) + '\n');
+  }
+  return filePath;
+}
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SubagentTranscript } from '../shared/types';
+import { parseJSONL } from './watcher';
+
+/** "agent-a1b2c3.jsonl" -> "a1b2c3" */
+function agentIdFromFile(fileName: string): string {
+  return path.basename(fileName, '.jsonl').replace(/^agent-/, '');
+}
+
+function firstLineSessionId(head: string): string | null {
+  try {
+    return JSON.parse(head.split('\n')[0]).sessionId ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a legacy agent-*.jsonl file in the project directory belongs
+ * to the given session. Only the first line is read — every message in an
+ * agent transcript carries the parent's sessionId.
+ */
+function belongsToSession(filePath: string, sessionId: string): boolean {
+  try {
+    const fd = fs.openSync(filePath, 'r');
+    const buf = Buffer.alloc(Math.min(16384, fs.fstatSync(fd).size));
+    fs.readSync(fd, buf, 0, buf.length, 0);
+    fs.closeSync(fd);
+    return firstLineSessionId(buf.toString('utf8')) === sessionId;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the subagent transcript files spawned by a session's Task tool calls.
+ *
+ * Claude Code stores them in one of two places depending on version:
+ *   <project>/<sessionId>/subagents/agent-<agentId>.jsonl   (current)
+ *   <project>/agent-<agentId>.jsonl                          (legacy, shared dir)
+ */
+export function findSubagentFiles(sessionFilePath: string): string[] {
+  const projectDir = path.dirname(sessionFilePath);
+  const sessionId = path.basename(sessionFilePath, '.jsonl');
+  const files: string[] = [];
+
+  const subagentDir = path.join(projectDir, sessionId, 'subagents');
+  try {
+    for (const name of fs.readdirSync(subagentDir)) {
+      if (name.endsWith('.jsonl')) files.push(path.join(subagentDir, name));
+    }
+  } catch {
+    // No subagents directory for this session
+  }
+
+  try {
+    for (const name of fs.readdirSync(projectDir)) {
+      if (!name.startsWith('agent-') || !name.endsWith('.jsonl')) continue;
+      const filePath = path.join(projectDir, name);
+      if (belongsToSession(filePath, sessionId)) files.push(filePath);
+    }
+  } catch {
+    // Project directory unreadable
+  }
+
+  return files;
+}
+
+function toTranscript(filePath: string, content: string): SubagentTranscript | null {
+  const messages = parseJSONL(content);
+  if (messages.length === 0) return null;
+  const agentId = (messages[0] as any).agentId || agentIdFromFile(filePath);
+  return { agentId, messages };
+}
+
+/**
+ * Read every subagent transcript belonging to a session.
+ * Returns an empty list when the session never spawned a subagent.
+ */
+export function readSubagentTranscripts(sessionFilePath: string): SubagentTranscript[] {
+  const transcripts: SubagentTranscript[] = [];
+  for (const filePath of findSubagentFiles(sessionFilePath)) {
+    try {
+      const transcript = toTranscript(filePath, fs.readFileSync(filePath, 'utf8'));
+      if (transcript) transcripts.push(transcript);
+    } catch {
+      // Skip unreadable transcripts
+    }
+  }
+  return transcripts;
+}
+
+/**
+ * Legacy agent-*.jsonl files in a project directory, grouped by the sessionId
+ * on their first line. Lets a caller going through many sessions of one
+ * project open each agent file once instead of once per session.
+ */
+export async function indexLegacySubagents(projectDir: string): Promise<Map<string, string[]>> {
+  const bySession = new Map<string, string[]>();
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(projectDir);
+  } catch {
+    return bySession; // Project directory unreadable
+  }
+  for (const name of names) {
+    if (!name.startsWith('agent-') || !name.endsWith('.jsonl')) continue;
+    const filePath = path.join(projectDir, name);
+    let handle: fs.promises.FileHandle | null = null;
+    try {
+      handle = await fs.promises.open(filePath, 'r');
+      const buf = Buffer.alloc(Math.min(16384, (await handle.stat()).size));
+      await handle.read(buf, 0, buf.length, 0);
+      const sessionId = firstLineSessionId(buf.toString('utf8'));
+      if (!sessionId) continue;
+      const files = bySession.get(sessionId);
+      if (files) files.push(filePath);
+      else bySession.set(sessionId, [filePath]);
+    } catch {
+      // Skip unreadable transcripts
+    } finally {
+      await handle?.close();
+    }
+  }
+  return bySession;
+}
+
+/**
+ * Async readSubagentTranscripts for background work on the main process.
+ * `legacy` is indexLegacySubagents() of the session's project directory.
+ */
+export async function readSubagentTranscriptsAsync(
+  sessionFilePath: string,
+  legacy: ReadonlyMap<string, string[]>,
+): Promise<SubagentTranscript[]> {
+  const sessionId = path.basename(sessionFilePath, '.jsonl');
+  const subagentDir = path.join(path.dirname(sessionFilePath), sessionId, 'subagents');
+  const files: string[] = [];
+  try {
+    for (const name of await fs.promises.readdir(subagentDir)) {
+      if (name.endsWith('.jsonl')) files.push(path.join(subagentDir, name));
+    }
+  } catch {
+    // No subagents directory for this session
+  }
+  files.push(...(legacy.get(sessionId) ?? []));
+
+  const transcripts: SubagentTranscript[] = [];
+  for (const filePath of files) {
+    try {
+      const transcript = toTranscript(filePath, await fs.promises.readFile(filePath, 'utf8'));
+      if (transcript) transcripts.push(transcript);
+    } catch {
+      // Skip unreadable transcripts
+    }
+  }
+  return transcripts;
+}
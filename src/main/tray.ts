@@ -0,0 +1,266 @@
+import { Menu, MenuItemConstructorOptions, nativeImage, NativeImage, Tray } from 'electron';
+import { SessionInfo } from '../shared/types';
+import { detectActivity, LiveActivity } from '../shared/session-analysis';
+import { discoverSessions } from './session-discovery';
+import { peekSessions, SessionPeek } from './session-peek';
+
+export interface SessionTrayHandlers {
+  showWindow: () => void;
+  hideWindow: () => void;
+  isWindowVisible: () => boolean;
+  openSession: (filePath: string) => void;
+  quit: () => void;
+}
+
+/** One active session as shown in the tray menu. */
+interface TrayEntry {
+  filePath: string;
+  activity: LiveActivity;
+  detail?: string;
+  name: string;
+}
+
+/** Overall state shown by the tray icon, most urgent first. */
+type TrayState = 'question' | 'waiting' | 'compacting' | 'working' | 'idle' | 'none';
+
+const POLL_INTERVAL = 3000;
+/** Peek the files itself when the renderer hasn't shared a poll for this long (window closed or throttled). */
+const PEEK_STALE = 2 * POLL_INTERVAL;
+/** Re-discover sessions when the renderer hasn't done so for this long (window hidden). */
+const DISCOVERY_INTERVAL = 30_000;
+const MAX_NAME_LENGTH = 60;
+
+const STATE_COLORS: Record<TrayState, string> = {
+  question: '#f472b6',
+  waiting: '#34d399',
+  compacting: '#fbbf24',
+  working: '#ff6b35',
+  idle: '#64748b',
+  none: '#475569',
+};
+
+const ACTIVITY_LABELS: Record<LiveActivity, string> = {
+  idle: 'Idle',
+  thinking: 'Thinking',
+  tool_running: 'Running',
+  responding: 'Responding',
+  waiting_on_user: 'Waiting on you',
+  compacting: 'Compacting',
+};
+
+function entryState(entry: TrayEntry): TrayState {
+  if (entry.activity === 'tool_running' && entry.detail === 'AskUserQuestion') return 'question';
+  if (entry.activity === 'waiting_on_user') return 'waiting';
+  if (entry.activity === 'compacting') return 'compacting';
+  if (entry.activity === 'idle') return 'idle';
+  return 'working';
+}
+
+const STATE_ORDER: TrayState[] = ['question', 'waiting', 'compacting', 'working', 'idle', 'none'];
+
+function aggregateState(entries: TrayEntry[]): TrayState {
+  let best: TrayState = 'none';
+  for (const e of entries) {
+    const state = entryState(e);
+    if (STATE_ORDER.indexOf(state) < STATE_ORDER.indexOf(best)) best = state;
+  }
+  return best;
+}
+
+function entryLabel(entry: TrayEntry): string {
+  const label = entry.activity === 'tool_running' && entry.detail
+    ? `${ACTIVITY_LABELS.tool_running} ${entry.detail}`
+    : ACTIVITY_LABELS[entry.activity];
+  const name = entry.name.replace(/\s+/g, ' ').trim();
+  const short = name.length > MAX_NAME_LENGTH ? name.slice(0, MAX_NAME_LENGTH - 1) + '\u2026' : name;
+  return `${label} \u2014 ${short}`;
+}
+
+/** "2 waiting, 1 working" style summary for the tooltip and menu header. */
+function summarize(entries: TrayEntry[]): string {
+  if (entries.length === 0) return 'No active sessions';
+  const counts = new Map<TrayState, number>();
+  for (const e of entries) {
+    const state = entryState(e);
+    counts.set(state, (counts.get(state) ?? 0) + 1);
+  }
+  const words: Record<TrayState, string> = {
+    question: 'asking', waiting: 'waiting', compacting: 'compacting', working: 'working', idle: 'idle', none: '',
+  };
+  return STATE_ORDER
+    .filter((s) => counts.has(s))
+    .map((s) => `${counts.get(s)} ${words[s]}`)
+    .join(', ');
+}
+
+/**
+ * A filled, anti-aliased dot in the given color. Drawn as a raw BGRA bitmap
+ * so the app needs no icon assets; `size` is in points, rendered at 2x.
+ */
+function dotImage(color: string, size: number): NativeImage {
+  const px = size * 2;
+  const r = parseInt(color.slice(1, 3), 16);
+  const g = parseInt(color.slice(3, 5), 16);
+  const b = parseInt(color.slice(5, 7), 16);
+  const buf = Buffer.alloc(px * px * 4);
+  const center = px / 2;
+  const radius = px / 2 - px / 8;
+  for (let y = 0; y < px; y++) {
+    for (let x = 0; x < px; x++) {
+      const dist = Math.hypot(x + 0.5 - center, y + 0.5 - center);
+      const alpha = Math.max(0, Math.min(1, radius - dist + 0.5));
+      const i = (y * px + x) * 4;
+      // Premultiplied BGRA
+      buf[i] = Math.round(b * alpha);
+      buf[i + 1] = Math.round(g * alpha);
+      buf[i + 2] = Math.round(r * alpha);
+      buf[i + 3] = Math.round(255 * alpha);
+    }
+  }
+  return nativeImage.createFromBitmap(buf, { width: px, height: px, scaleFactor: 2 });
+}
+
+/**
+ * Tray / menu bar icon showing the aggregate state of every active session.
+ *
+ * Sessions and their tails come from the renderer's periodic discovery and
+ * activity poll (via `setSessions` / `setPeeks`). When either goes quiet,
+ * e.g. with no window, the tray discovers or peeks on its own so the status
+ * stays current.
+ */
+export class SessionTray {
+  private tray: Tray | null = null;
+  private sessions: SessionInfo[] = [];
+  private sessionsAt = 0;
+  private peeks: SessionPeek[] = [];
+  private peeksAt = 0;
+  private peeking = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private discovering = false;
+  private lastMenuKey = '';
+  private readonly icons = new Map<string, NativeImage>();
+
+  constructor(private readonly handlers: SessionTrayHandlers) {}
+
+  start(): void {
+    if (this.tray) return;
+    this.tray = new Tray(this.icon('none', 16));
+    this.tray.setToolTip('Claude Mind Map');
+    // Windows/Linux: a plain click toggles the window; the menu is on right-click
+    this.tray.on('click', () => {
+      if (process.platform === 'darwin') return;
+      if (this.handlers.isWindowVisible()) this.handlers.hideWindow();
+      else this.handlers.showWindow();
+    });
+    this.update();
+    this.timer = setInterval(() => this.update(), POLL_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.tray?.destroy();
+    this.tray = null;
+  }
+
+  /** Latest discovery result; saves a second discovery pass while the renderer is polling. */
+  setSessions(sessions: SessionInfo[]): void {
+    this.sessions = sessions;
+    this.sessionsAt = Date.now();
+  }
+
+  /** Tails of the active sessions from the renderer's activity poll. */
+  setPeeks(peeks: SessionPeek[]): void {
+    this.peeks = peeks;
+    this.peeksAt = Date.now();
+    this.render();
+  }
+
+  /** Rebuild the menu, e.g. after the window was shown or hidden. */
+  refresh(): void {
+    this.lastMenuKey = '';
+    this.render();
+  }
+
+  private icon(state: TrayState, size: number): NativeImage {
+    const key = `${state}-${size}`;
+    let image = this.icons.get(key);
+    if (!image) {
+      image = dotImage(STATE_COLORS[state], size);
+      this.icons.set(key, image);
+    }
+    return image;
+  }
+
+  private update(): void {
+    if (!this.tray) return;
+    if (Date.now() - this.sessionsAt > DISCOVERY_INTERVAL && !this.discovering) {
+      this.discovering = true;
+      discoverSessions()
+        .then((sessions) => this.setSessions(sessions))
+        .catch(() => {})
+        .finally(() => { this.discovering = false; });
+    }
+
+    if (Date.now() - this.peeksAt > PEEK_STALE && !this.peeking) {
+      this.peeking = true;
+      const paths = this.sessions.filter((s) => s.endReason === 'active').map((s) => s.filePath);
+      peekSessions(paths)
+        .then((peeks) => {
+          // A renderer poll may have landed meanwhile; it's at least as fresh
+          if (Date.now() - this.peeksAt > PEEK_STALE) this.peeks = peeks;
+          this.render();
+        })
+        .catch(() => {})
+        .finally(() => { this.peeking = false; });
+    }
+  }
+
+  private render(): void {
+    if (!this.tray) return;
+    const active = this.sessions.filter((s) => s.endReason === 'active');
+    const entries: TrayEntry[] = this.peeks.flatMap((peek) => {
+      const session = active.find((s) => s.filePath === peek.filePath);
+      if (!session) return [];
+      const { activity, detail } = detectActivity(peek.tailMessages, true, peek.fileMtime);
+      return [{
+        filePath: peek.filePath,
+        activity,
+        detail,
+        name: peek.lastUserPrompt || session.displayText || session.sessionId || 'Session',
+      }];
+    });
+
+    const state = aggregateState(entries);
+    const summary = summarize(entries);
+    const visible = this.handlers.isWindowVisible();
+
+    // Only touch the tray when something changed; resetting the menu closes it if open
+    const menuKey = JSON.stringify([state, summary, visible, entries]);
+    if (menuKey === this.lastMenuKey) return;
+    this.lastMenuKey = menuKey;
+
+    this.tray.setImage(this.icon(state, 16));
+    this.tray.setToolTip(`Claude Mind Map \u2014 ${summary}`);
+    if (process.platform === 'darwin') {
+      const needsYou = entries.filter((e) => entryState(e) === 'question' || entryState(e) === 'waiting').length;
+      this.tray.setTitle(needsYou > 0 ? String(needsYou) : '');
+    }
+
+    const items: MenuItemConstructorOptions[] = [
+      { label: summary, enabled: false },
+      { type: 'separator' },
+      ...entries.map((entry): MenuItemConstructorOptions => ({
+        label: entryLabel(entry),
+        icon: this.icon(entryState(entry), 8),
+        click: () => this.handlers.openSession(entry.filePath),
+      })),
+      ...(entries.length > 0 ? [{ type: 'separator' } as MenuItemConstructorOptions] : []),
+      visible
+        ? { label: 'Hide Window', click: () => this.handlers.hideWindow() }
+        : { label: 'Show Window', click: () => this.handlers.showWindow() },
+      { label: 'Quit', click: () => this.handlers.quit() },
+    ];
+    this.tray.setContextMenu(Menu.buildFromTemplate(items));
+  }
+}
@@ -0,0 +1,194 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SessionInfo, SessionUsage, UsageIndexSnapshot, UsageIndexStatus, UsageTotals } from '../shared/types';
+import { collectApiCalls } from '../shared/session-analysis';
+import { indexLegacySubagents, readSubagentTranscriptsAsync } from './subagents';
+import { parseJSONL } from './watcher';
+
+/** Bump when the SessionUsage shape or how it's computed changes; older files are discarded. */
+const INDEX_VERSION = 1;
+
+interface IndexFile {
+  version: number;
+  entries: Record<string, SessionUsage>;
+}
+
+export function getUsageIndexPath(): string {
+  return path.join(os.homedir(), '.claude-mindmap', 'usage-index.json');
+}
+
+/** Local calendar day of an ISO timestamp, as YYYY-MM-DD. */
+function localDay(timestamp: string): string | null {
+  const d = new Date(timestamp);
+  if (isNaN(d.getTime())) return null;
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+async function fileSignature(filePath: string): Promise<string> {
+  const stat = await fs.promises.stat(filePath);
+  return `${stat.size}:${Math.floor(stat.mtimeMs)}`;
+}
+
+/** Yield to the event loop so IPC stays responsive while indexing. */
+function yieldToLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Incremental per-session usage index for the cross-session dashboard.
+ *
+ * Each session is reduced to token totals per day and model. Entries are
+ * keyed by file path, persisted between launches, and only re-parsed when
+ * the session file's size/mtime changes. Subagent files aren't stat'ed: a running subagent appends progress
+ * to the parent session, so the parent's signature changes with it.
+ *
+ * Events emitted:
+ *   'progress' (status: UsageIndexStatus)      -- periodically while indexing
+ *   'updated'  (snapshot: UsageIndexSnapshot)  -- when a refresh completes
+ */
+export class UsageIndexer extends EventEmitter {
+  private entries = new Map<string, SessionUsage>();
+  private status: UsageIndexStatus = { indexing: false, done: 0, total: 0 };
+  private running: Promise<void> | null = null;
+  private pending: SessionInfo[] | null = null;
+  private dirty = false;
+
+  constructor(private filePath: string = getUsageIndexPath()) {
+    super();
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as IndexFile;
+      if (raw.version === INDEX_VERSION && raw.entries) {
+        for (const [key, entry] of Object.entries(raw.entries)) this.entries.set(key, entry);
+      }
+    } catch {
+      // Missing or corrupt — start empty and rebuild
+    }
+  }
+
+  snapshot(): UsageIndexSnapshot {
+    return { sessions: [...this.entries.values()], status: { ...this.status } };
+  }
+
+  /**
+   * Bring the index up to date with `sessions`. Concurrent calls coalesce:
+   * a refresh requested mid-run starts once the current one finishes.
+   */
+  refresh(sessions: SessionInfo[]): Promise<void> {
+    if (this.running) {
+      this.pending = sessions;
+      return this.running;
+    }
+    this.running = this.run(sessions).finally(() => {
+      this.running = null;
+      const next = this.pending;
+      this.pending = null;
+      if (next) void this.refresh(next);
+    });
+    return this.running;
+  }
+
+  private async run(sessions: SessionInfo[]): Promise<void> {
+    const live = new Set(sessions.map((s) => s.filePath));
+    for (const filePath of this.entries.keys()) {
+      if (live.has(filePath)) continue;
+      this.entries.delete(filePath);
+      this.dirty = true;
+    }
+
+    this.status = { indexing: true, done: 0, total: sessions.length };
+    this.emit('progress', { ...this.status });
+    let lastProgress = Date.now();
+    // Legacy agent files per project directory, scanned once per run and only when needed
+    const legacy = new Map<string, Promise<Map<string, string[]>>>();
+
+    for (const session of sessions) {
+      try {
+        await this.indexSession(session, legacy);
+      } catch {
+        // File vanished or unreadable — drop it until the next refresh
+        if (this.entries.delete(session.filePath)) this.dirty = true;
+      }
+      this.status.done++;
+      if (Date.now() - lastProgress > 500) {
+        lastProgress = Date.now();
+        this.emit('progress', { ...this.status });
+      }
+      await yieldToLoop();
+    }
+
+    await this.save();
+    this.status = { indexing: false, done: sessions.length, total: sessions.length };
+    this.emit('updated', this.snapshot());
+  }
+
+  /** Write the index if anything changed since it was loaded or last saved. */
+  private async save(): Promise<void> {
+    if (!this.dirty) return;
+    const data: IndexFile = { version: INDEX_VERSION, entries: Object.fromEntries(this.entries) };
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write-then-rename so a crash mid-write never leaves a truncated index
+      const tmp = `${this.filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(data));
+      await fs.promises.rename(tmp, this.filePath);
+      this.dirty = false;
+    } catch {
+      // Cache is best-effort; the next refresh retries
+    }
+  }
+
+  private async indexSession(
+    session: SessionInfo,
+    legacy: Map<string, Promise<Map<string, string[]>>>,
+  ): Promise<void> {
+    const signature = await fileSignature(session.filePath);
+    const existing = this.entries.get(session.filePath);
+    if (existing && existing.signature === signature) {
+      // Project can change when a session is re-discovered under another root
+      if (existing.project !== session.project) {
+        existing.project = session.project;
+        this.dirty = true;
+      }
+      return;
+    }
+
+    const messages = parseJSONL(await fs.promises.readFile(session.filePath, 'utf8'));
+    const projectDir = path.dirname(session.filePath);
+    let projectAgents = legacy.get(projectDir);
+    if (!projectAgents) {
+      projectAgents = indexLegacySubagents(projectDir);
+      legacy.set(projectDir, projectAgents);
+    }
+    const subagents = await readSubagentTranscriptsAsync(session.filePath, await projectAgents);
+
+    const days: Record<string, Record<string, UsageTotals>> = {};
+    for (const call of collectApiCalls(messages, subagents)) {
+      const day = localDay(call.timestamp);
+      if (!day) continue;
+      const byModel = days[day] ?? (days[day] = {});
+      const model = call.model || 'unknown';
+      const t = byModel[model] ?? (byModel[model] = {
+        calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite5m: 0, cacheWrite1h: 0,
+      });
+      t.calls++;
+      t.input += call.input;
+      t.output += call.output;
+      t.cacheRead += call.cacheRead;
+      t.cacheWrite5m += call.cacheWrite5m;
+      t.cacheWrite1h += call.cacheWrite1h;
+    }
+
+    this.entries.set(session.filePath, {
+      sessionId: session.sessionId,
+      project: session.project,
+      filePath: session.filePath,
+      signature,
+      days,
+    });
+    this.dirty = true;
+  }
+}
@@ -3,6 +3,23 @@ import * as fs from 'fs';
 import * as chokidar from 'chokidar';
 import { JSONLMessage } from '../shared/types';
 
+/**
+ * Parse JSONL text into messages, skipping blank and malformed lines.
+ */
+export function parseJSONL(content: string): JSONLMessage[] {
+  const messages: JSONLMessage[] = [];
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.length === 0) continue;
+    try {
+      messages.push(JSON.parse(trimmed) as JSONLMessage);
+    } catch {
+      // Skip malformed JSON lines
+    }
+  }
+  return messages;
+}
+
 /**
  * Watches a single JSONL session log file for new content.
  *
@@ -82,22 +99,7 @@ export class SessionWatcher extends EventEmitter {
     try {
       const content = fs.readFileSync(this.filePath, 'utf8');
       this.byteOffset = Buffer.byteLength(content, 'utf8');
-
-      const messages: JSONLMessage[] = [];
-      const lines = content.split('\n');
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed.length === 0) continue;
-        try {
-          const parsed = JSON.parse(trimmed) as JSONLMessage;
-          messages.push(parsed);
-        } catch {
-          // Skip malformed JSON lines
-        }
-      }
-
-      return messages;
+      return parseJSONL(content);
     } catch (err) {
       console.error('[SessionWatcher] readAllContent failed:', err);
       return [];
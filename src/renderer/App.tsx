@@ -6,6 +6,12 @@ import ThinkingIndicator from './components/ThinkingIndicator';
 import LiveStatusBar from './components/LiveStatusBar';
 import SecondaryPane from './components/SecondaryPane';
 import SplitResizeHandle from './components/SplitResizeHandle';
+import FilesPanel from './components/FilesPanel';
+import FailuresPanel from './components/FailuresPanel';
+import CostPanel from './components/CostPanel';
+import ContextPanel from './components/ContextPanel';
+import UsageDashboard from './components/UsageDashboard';
+import SearchPanel from './components/SearchPanel';
 import { useSessionWatcher } from './hooks/useSessionWatcher';
 import { useSessionStore } from './store/session-store';
 import './styles/globals.css';
@@ -15,13 +21,19 @@ import './styles/edges.css';
 export default function App() {
   useSessionWatcher();
   const splitMode = useSessionStore((s) => s.splitMode);
+  const showFilesPanel = useSessionStore((s) => s.showFilesPanel);
+  const showFailuresPanel = useSessionStore((s) => s.showFailuresPanel);
+  const showCostPanel = useSessionStore((s) => s.showCostPanel);
+  const showContextPanel = useSessionStore((s) => s.showContextPanel);
+  const showUsageDashboard = useSessionStore((s) => s.showUsageDashboard);
+  const showSearchPanel = useSessionStore((s) => s.showSearchPanel);
 
   return (
     <div style={{ display: 'flex', height: '100vh', width: '100vw' }}>
       <SessionPicker />
       <div style={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
         <Toolbar />
-        <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+        <div style={{ flex: 1, display: 'flex', minHeight: 0, position: 'relative' }}>
           {/* Primary pane */}
           <ReactFlowProvider>
             <div style={{ flex: 1, position: 'relative', minWidth: 0 }}>
@@ -30,6 +42,11 @@ export default function App() {
               <LiveStatusBar />
             </div>
           </ReactFlowProvider>
+          {showFilesPanel && <FilesPanel />}
+          {showFailuresPanel && <FailuresPanel />}
+          {showCostPanel && <CostPanel />}
+          {showContextPanel && <ContextPanel />}
+          {showSearchPanel && <SearchPanel />}
           {/* Secondary pane (split mode only) */}
           {splitMode && (
             <>
@@ -37,6 +54,7 @@ export default function App() {
               <SecondaryPane />
             </>
           )}
+          {showUsageDashboard && <UsageDashboard />}
         </div>
       </div>
     </div>
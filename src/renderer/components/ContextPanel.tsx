@@ -0,0 +1,324 @@
+import { useMemo, useState, type CSSProperties, type ReactNode } from 'react';
+import { useSessionStore } from '../store/session-store';
+import {
+  computeContextUsage,
+  contextGrowthByTurn,
+  forecastLabel,
+  occupancyColor,
+  type ContextUsage,
+} from '../store/context-usage';
+
+const panelStyle: CSSProperties = {
+  width: 380,
+  backgroundColor: '#12121a',
+  borderLeft: '1px solid #2a2a3e',
+  overflowY: 'auto',
+  padding: 16,
+  flexShrink: 0,
+};
+
+const headerStyle: CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  marginBottom: 4,
+  fontSize: 14,
+  fontWeight: 'bold',
+  color: '#e0e0e0',
+};
+
+const closeBtnStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#888',
+  cursor: 'pointer',
+  fontSize: 16,
+  padding: 4,
+};
+
+const summaryStyle: CSSProperties = {
+  fontSize: 11,
+  color: '#64748b',
+  marginBottom: 14,
+};
+
+const sectionTitleStyle: CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  fontSize: 10,
+  fontWeight: 700,
+  color: '#64748b',
+  textTransform: 'uppercase',
+  letterSpacing: 0.5,
+  margin: '16px 0 6px',
+};
+
+const rowStyle: CSSProperties = {
+  position: 'relative',
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '4px 8px',
+  fontSize: 11,
+  color: '#cbd5e1',
+  borderRadius: 4,
+  overflow: 'hidden',
+};
+
+const sortBtnStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#94a3b8',
+  cursor: 'pointer',
+  fontSize: 10,
+  padding: 0,
+  textTransform: 'none',
+  letterSpacing: 0,
+};
+
+const CHART_WIDTH = 348;
+const CHART_HEIGHT = 96;
+
+const LINE_COLOR = '#22d3ee';
+const THRESHOLD_COLOR = '#fbbf24';
+const COMPACTION_COLOR = '#f97316';
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
+  if (n >= 1_000) return (n / 1_000).toFixed(1) + 'k';
+  return String(n);
+}
+
+/** Row with a background bar proportional to its share of the largest value. */
+function BarRow({ share, color, children, onClick, title }: {
+  share: number;
+  color: string;
+  children: ReactNode;
+  onClick?: () => void;
+  title?: string;
+}) {
+  return (
+    <div
+      style={{ ...rowStyle, cursor: onClick ? 'pointer' : 'default' }}
+      onClick={onClick}
+      title={title}
+      onMouseEnter={onClick ? (e) => { e.currentTarget.style.backgroundColor = '#1a1a2e'; } : undefined}
+      onMouseLeave={onClick ? (e) => { e.currentTarget.style.backgroundColor = 'transparent'; } : undefined}
+    >
+      <div style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        bottom: 0,
+        width: `${Math.max(0, Math.min(1, share)) * 100}%`,
+        backgroundColor: color,
+        opacity: 0.12,
+        pointerEvents: 'none',
+      }} />
+      {children}
+    </div>
+  );
+}
+
+function Gauge({ usage }: { usage: ContextUsage }) {
+  const share = usage.current / usage.limit;
+  const color = occupancyColor(usage);
+  return (
+    <div style={{ position: 'relative', height: 8, borderRadius: 4, backgroundColor: '#1e1e2e', overflow: 'hidden' }}>
+      <div style={{ width: `${Math.min(1, share) * 100}%`, height: '100%', backgroundColor: color }} />
+      <div style={{
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        left: `${(usage.threshold / usage.limit) * 100}%`,
+        width: 2,
+        backgroundColor: THRESHOLD_COLOR,
+      }} />
+    </div>
+  );
+}
+
+/**
+ * Occupancy per API call against the window, with the auto-compact threshold,
+ * compactions, and the projected growth up to the threshold.
+ */
+function OccupancyChart({ usage }: { usage: ContextUsage }) {
+  const { points, compactions, limit, threshold, forecast } = usage;
+  if (points.length < 2) return null;
+
+  const last = points.length - 1;
+  // Show the projection, but never let it squeeze the recorded history below half the width
+  const ahead = forecast ? Math.min(forecast.callsLeft, points.length) : 0;
+  const span = last + ahead;
+  const x = (i: number) => (i / span) * CHART_WIDTH;
+  const y = (tokens: number) => CHART_HEIGHT - 2 - (Math.min(tokens, limit) / limit) * (CHART_HEIGHT - 4);
+
+  // Break the line at compactions instead of drawing the drop as a slope
+  const segments: string[][] = [[]];
+  const starts = new Set(compactions.map((c) => c.index));
+  points.forEach((p, i) => {
+    if (starts.has(i) && segments[segments.length - 1].length > 0) segments.push([]);
+    segments[segments.length - 1].push(`${x(i).toFixed(1)},${y(p.tokens).toFixed(1)}`);
+  });
+
+  const projected = forecast && ahead > 0
+    ? Math.min(threshold, usage.current + forecast.perCall * ahead)
+    : null;
+
+  return (
+    <div>
+      <svg width={CHART_WIDTH} height={CHART_HEIGHT} style={{ display: 'block', backgroundColor: '#0e0e16', borderRadius: 4 }}>
+        <line x1={0} x2={CHART_WIDTH} y1={y(threshold)} y2={y(threshold)} stroke={THRESHOLD_COLOR} strokeDasharray="4 3" strokeWidth={1} opacity={0.7} />
+        {compactions.filter((c) => c.index > 0 && c.index <= last).map((c) => (
+          <line
+            key={c.uuid}
+            x1={x(c.index - 0.5)}
+            x2={x(c.index - 0.5)}
+            y1={0}
+            y2={CHART_HEIGHT}
+            stroke={COMPACTION_COLOR}
+            strokeWidth={1}
+            opacity={0.6}
+          />
+        ))}
+        {segments.filter((s) => s.length > 1).map((s, i) => (
+          <polyline key={i} points={s.join(' ')} fill="none" stroke={LINE_COLOR} strokeWidth={1.5} />
+        ))}
+        {projected !== null && (
+          <line
+            x1={x(last)}
+            y1={y(usage.current)}
+            x2={x(span)}
+            y2={y(projected)}
+            stroke={LINE_COLOR}
+            strokeDasharray="3 3"
+            strokeWidth={1}
+            opacity={0.6}
+          />
+        )}
+      </svg>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 9, color: '#475569', marginTop: 2 }}>
+        <span>call 1</span>
+        <span>
+          <span style={{ color: LINE_COLOR }}>occupancy</span>
+          {' \u00B7 '}
+          <span style={{ color: THRESHOLD_COLOR }}>auto-compact</span>
+          {compactions.length > 0 && <>{' \u00B7 '}<span style={{ color: COMPACTION_COLOR }}>compaction</span></>}
+        </span>
+        <span>{ahead > 0 ? `+${ahead} projected` : `call ${points.length}`}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function ContextPanel() {
+  const rawMessages = useSessionStore(s => s.rawMessages);
+  const pricing = useSessionStore(s => s.pricingInfo.table);
+  const toggleContextPanel = useSessionStore(s => s.toggleContextPanel);
+  const focusNode = useSessionStore(s => s.focusNode);
+  const [turnSort, setTurnSort] = useState<'growth' | 'order'>('growth');
+
+  const usage = useMemo(() => computeContextUsage(rawMessages, pricing), [rawMessages, pricing]);
+  const growth = useMemo(() => contextGrowthByTurn(usage, rawMessages), [usage, rawMessages]);
+  const turns = useMemo(
+    () => (turnSort === 'growth' ? [...growth].sort((a, b) => b.added - a.added) : growth),
+    [growth, turnSort],
+  );
+  const maxAdded = Math.max(1, ...growth.map(t => t.added));
+
+  const { current, limit, threshold, forecast } = usage;
+  const eta = forecastLabel(forecast);
+
+  return (
+    <div style={panelStyle}>
+      <div style={headerStyle}>
+        <span>Context</span>
+        <button onClick={toggleContextPanel} style={closeBtnStyle}>
+          {'\u2715'}
+        </button>
+      </div>
+      <div style={summaryStyle}>
+        <span style={{ color: occupancyColor(usage) }}>{formatTokens(current)}</span> / {formatTokens(limit)}
+        {' '}({Math.round((current / limit) * 100)}%) &middot; peak {formatTokens(usage.peak)}
+        &middot; {usage.compactions.length} compaction{usage.compactions.length === 1 ? '' : 's'}
+      </div>
+      {usage.points.length === 0 && (
+        <div style={{ fontSize: 12, color: '#64748b' }}>No API usage in this session yet.</div>
+      )}
+
+      {usage.points.length > 0 && (
+        <>
+          <Gauge usage={usage} />
+          <div style={{ fontSize: 11, color: '#94a3b8', margin: '8px 0 12px' }}>
+            Auto-compact at ~{formatTokens(threshold)}
+            <span style={{ color: '#475569' }}>
+              {usage.thresholdObserved ? ' (seen in this session)' : ` (estimated, ${Math.round((threshold / limit) * 100)}%)`}
+            </span>
+            <br />
+            {eta && forecast
+              ? <>In <span style={{ color: THRESHOLD_COLOR }}>{eta}</span> at +{formatTokens(Math.round(forecast.perCall))}/call
+                  {forecast.perTurn !== null && `, +${formatTokens(Math.round(forecast.perTurn))}/turn`}</>
+              : <span style={{ color: '#475569' }}>Context isn't growing; no compaction in sight.</span>}
+          </div>
+
+          <OccupancyChart usage={usage} />
+        </>
+      )}
+
+      {usage.compactions.length > 0 && (
+        <>
+          <div style={sectionTitleStyle}>Compactions</div>
+          {usage.compactions.map(c => {
+            const after = usage.points[c.index]?.tokens;
+            return (
+              <BarRow
+                key={c.uuid}
+                share={c.preTokens / limit}
+                color={COMPACTION_COLOR}
+                onClick={() => focusNode(c.uuid)}
+                title="Click to jump to the compaction"
+              >
+                <span style={{ color: COMPACTION_COLOR, width: 52, flexShrink: 0 }}>{c.trigger}</span>
+                <span style={{ flex: 1 }}>
+                  {formatTokens(c.preTokens)} {'\u2192'} {after !== undefined ? formatTokens(after) : '\u2014'}
+                </span>
+                <span style={{ color: '#64748b' }}>
+                  {c.timestamp ? new Date(c.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''}
+                </span>
+              </BarRow>
+            );
+          })}
+        </>
+      )}
+
+      {turns.length > 0 && (
+        <>
+          <div style={sectionTitleStyle}>
+            <span>Growth by turn</span>
+            <button style={sortBtnStyle} onClick={() => setTurnSort(turnSort === 'growth' ? 'order' : 'growth')}>
+              {turnSort === 'growth' ? 'largest first' : 'in order'} {'\u21C5'}
+            </button>
+          </div>
+          {turns.map(t => (
+            <BarRow
+              key={t.turnId}
+              share={t.added / maxAdded}
+              color={LINE_COLOR}
+              onClick={() => focusNode(t.turnId)}
+              title={`${t.prompt}\n\n${t.calls} calls \u2014 click to jump to this prompt`}
+            >
+              <span style={{ color: '#475569', width: 30, flexShrink: 0 }}>{t.turn > 0 ? `T${t.turn}` : '\u2014'}</span>
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {t.prompt || '(no prompt)'}
+              </span>
+              <span style={{ color: t.added < 0 ? '#34d399' : '#94a3b8', width: 56, textAlign: 'right', flexShrink: 0 }}>
+                {t.added < 0 ? '\u2212' : '+'}{formatTokens(Math.abs(t.added))}
+              </span>
+            </BarRow>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useMemo, useState, type CSSProperties, type ReactNode } from 'react';
+import { useSessionStore } from '../store/session-store';
+import { computeCostBreakdown, type CostBucket } from '../../shared/session-analysis';
+import { TOOL_COLORS } from '../../shared/types';
+
+const panelStyle: CSSProperties = {
+  width: 380,
+  backgroundColor: '#12121a',
+  borderLeft: '1px solid #2a2a3e',
+  overflowY: 'auto',
+  padding: 16,
+  flexShrink: 0,
+};
+
+const headerStyle: CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  marginBottom: 4,
+  fontSize: 14,
+  fontWeight: 'bold',
+  color: '#e0e0e0',
+};
+
+const closeBtnStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#888',
+  cursor: 'pointer',
+  fontSize: 16,
+  padding: 4,
+};
+
+const summaryStyle: CSSProperties = {
+  fontSize: 11,
+  color: '#64748b',
+  marginBottom: 14,
+};
+
+const sectionTitleStyle: CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  fontSize: 10,
+  fontWeight: 700,
+  color: '#64748b',
+  textTransform: 'uppercase',
+  letterSpacing: 0.5,
+  margin: '16px 0 6px',
+};
+
+const rowStyle: CSSProperties = {
+  position: 'relative',
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '4px 8px',
+  fontSize: 11,
+  color: '#cbd5e1',
+  borderRadius: 4,
+  overflow: 'hidden',
+};
+
+const sortBtnStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#94a3b8',
+  cursor: 'pointer',
+  fontSize: 10,
+  padding: 0,
+  textTransform: 'none',
+  letterSpacing: 0,
+};
+
+const SPARK_WIDTH = 348;
+const SPARK_HEIGHT = 48;
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
+  if (n >= 1_000) return (n / 1_000).toFixed(1) + 'k';
+  return String(n);
+}
+
+function formatCost(n: number): string {
+  if (n > 0 && n < 0.01) return '<$0.01';
+  return '$' + n.toFixed(2);
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/** Row with a background bar proportional to its share of the total. */
+function BarRow({ share, color, children, onClick, title }: {
+  share: number;
+  color: string;
+  children: ReactNode;
+  onClick?: () => void;
+  title?: string;
+}) {
+  return (
+    <div
+      style={{ ...rowStyle, cursor: onClick ? 'pointer' : 'default' }}
+      onClick={onClick}
+      title={title}
+      onMouseEnter={onClick ? (e) => { e.currentTarget.style.backgroundColor = '#1a1a2e'; } : undefined}
+      onMouseLeave={onClick ? (e) => { e.currentTarget.style.backgroundColor = 'transparent'; } : undefined}
+    >
+      <div style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        bottom: 0,
+        width: `${Math.max(0, Math.min(1, share)) * 100}%`,
+        backgroundColor: color,
+        opacity: 0.12,
+        pointerEvents: 'none',
+      }} />
+      {children}
+    </div>
+  );
+}
+
+function costCell(cost: number): ReactNode {
+  return <span style={{ color: '#fbbf24', width: 56, textAlign: 'right', flexShrink: 0 }}>{formatCost(cost)}</span>;
+}
+
+function tokensCell(b: CostBucket): ReactNode {
+  return (
+    <span style={{ color: '#64748b', width: 96, textAlign: 'right', flexShrink: 0 }}>
+      {formatTokens(b.input + b.cacheRead + b.cacheWrite)} / {formatTokens(b.output)}
+    </span>
+  );
+}
+
+function Sparkline({ points }: { points: { time: number; cost: number }[] }) {
+  if (points.length < 2) return null;
+  const t0 = points[0].time;
+  const span = Math.max(1, points[points.length - 1].time - t0);
+  const max = Math.max(points[points.length - 1].cost, 1e-9);
+  const coords = points.map((p) => {
+    const x = ((p.time - t0) / span) * SPARK_WIDTH;
+    const y = SPARK_HEIGHT - 2 - (p.cost / max) * (SPARK_HEIGHT - 4);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  return (
+    <div>
+      <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} style={{ display: 'block' }}>
+        <polygon points={`0,${SPARK_HEIGHT} ${coords.join(' ')} ${SPARK_WIDTH},${SPARK_HEIGHT}`} fill="#fbbf24" opacity={0.12} />
+        <polyline points={coords.join(' ')} fill="none" stroke="#fbbf24" strokeWidth={1.5} />
+      </svg>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 9, color: '#475569', marginTop: 2 }}>
+        <span>{formatTime(t0)}</span>
+        <span>cumulative cost</span>
+        <span>{formatTime(points[points.length - 1].time)}</span>
+      </div>
+    </div>
+  );
+}
+
+const CLASS_ROWS = [
+  { key: 'input', label: 'Input', color: '#22d3ee' },
+  { key: 'output', label: 'Output', color: '#a855f7' },
+  { key: 'cacheRead', label: 'Cache read', color: '#34d399' },
+  { key: 'cacheWrite', label: 'Cache write', color: '#f97316' },
+] as const;
+
+export default function CostPanel() {
+  const rawMessages = useSessionStore(s => s.rawMessages);
+  const subagentTranscripts = useSessionStore(s => s.subagentTranscripts);
+  const pricing = useSessionStore(s => s.pricingInfo.table);
+  const toggleCostPanel = useSessionStore(s => s.toggleCostPanel);
+  const focusNode = useSessionStore(s => s.focusNode);
+  const [turnSort, setTurnSort] = useState<'cost' | 'order'>('cost');
+
+  const breakdown = useMemo(
+    () => computeCostBreakdown(rawMessages, subagentTranscripts, pricing),
+    [rawMessages, subagentTranscripts, pricing],
+  );
+  const { total, byClass, byModel, byTurn, byTrigger, timeline } = breakdown;
+  const totalCost = Math.max(total.cost, 1e-9);
+
+  const turns = useMemo(() => {
+    const list = byTurn.filter(t => t.calls > 0);
+    return turnSort === 'cost' ? [...list].sort((a, b) => b.cost - a.cost) : list;
+  }, [byTurn, turnSort]);
+  const maxTurnCost = Math.max(1e-9, ...turns.map(t => t.cost));
+
+  return (
+    <div style={panelStyle}>
+      <div style={headerStyle}>
+        <span>Cost</span>
+        <button onClick={toggleCostPanel} style={closeBtnStyle}>
+          {'\u2715'}
+        </button>
+      </div>
+      <div style={summaryStyle}>
+        <span style={{ color: '#fbbf24' }}>{formatCost(total.cost)}</span> &middot; {total.calls} API calls
+        &middot; {byTurn.filter(t => t.turn > 0).length} turns
+      </div>
+      {total.calls === 0 && (
+        <div style={{ fontSize: 12, color: '#64748b' }}>No API usage in this session yet.</div>
+      )}
+
+      <Sparkline points={timeline} />
+
+      {total.calls > 0 && (
+        <>
+          <div style={sectionTitleStyle}>By token type</div>
+          {CLASS_ROWS.map(({ key, label, color }) => (
+            <BarRow key={key} share={byClass[key] / totalCost} color={color}>
+              <span style={{ color, flex: 1 }}>{label}</span>
+              <span style={{ color: '#64748b', width: 60, textAlign: 'right' }}>{formatTokens(total[key])}</span>
+              {costCell(byClass[key])}
+            </BarRow>
+          ))}
+
+          <div style={sectionTitleStyle}>By model</div>
+          {byModel.map(m => (
+            <BarRow key={m.key} share={m.cost / totalCost} color="#a855f7" title={`${m.calls} calls`}>
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{m.key}</span>
+              {tokensCell(m)}
+              {costCell(m.cost)}
+            </BarRow>
+          ))}
+
+          <div style={sectionTitleStyle}>
+            <span>By turn</span>
+            <button style={sortBtnStyle} onClick={() => setTurnSort(turnSort === 'cost' ? 'order' : 'cost')}>
+              {turnSort === 'cost' ? 'most expensive first' : 'in order'} {'\u21C5'}
+            </button>
+          </div>
+          {turns.map(t => (
+            <BarRow
+              key={t.key}
+              share={t.cost / maxTurnCost}
+              color="#34d399"
+              onClick={t.turn > 0 ? () => focusNode(t.key) : undefined}
+              title={t.turn > 0 ? `${t.prompt}\n\n${t.calls} calls \u2014 click to jump to this prompt` : 'Before the first prompt'}
+            >
+              <span style={{ color: '#475569', width: 30, flexShrink: 0 }}>{t.turn > 0 ? `T${t.turn}` : '\u2014'}</span>
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {t.prompt || '(no prompt)'}
+              </span>
+              {costCell(t.cost)}
+            </BarRow>
+          ))}
+
+          <div style={sectionTitleStyle}>By triggering tool</div>
+          {byTrigger.map(b => (
+            <BarRow
+              key={b.key}
+              share={b.cost / totalCost}
+              color={TOOL_COLORS[b.key] || TOOL_COLORS.default}
+              title={`${b.calls} API calls made after ${b.key.startsWith('(') ? b.key.slice(1, -1) : `a ${b.key} result`}`}
+            >
+              <span style={{ flex: 1, color: TOOL_COLORS[b.key] || '#cbd5e1' }}>{b.key}</span>
+              <span style={{ color: '#64748b', width: 40, textAlign: 'right' }}>{b.calls}{'\u00D7'}</span>
+              {tokensCell(b)}
+              {costCell(b.cost)}
+            </BarRow>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
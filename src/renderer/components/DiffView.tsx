@@ -0,0 +1,248 @@
+import { memo, useMemo, useState, type ReactNode } from 'react';
+import type { FileChange } from '../../shared/types';
+import { diffLines, diffStats, toSplitRows, type DiffLine } from '../store/diff';
+
+// ---------------------------------------------------------------------------
+// Syntax highlighting — a small per-line tokenizer. Good enough to make
+// keywords, strings, comments and numbers stand out in a diff; not a parser.
+// ---------------------------------------------------------------------------
+
+interface LangSpec {
+  keywords: Set<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+}
+
+const words = (s: string) => new Set(s.split(' '));
+
+const C_LIKE_COMMENTS = { lineComment: '//', blockComment: ['/*', '*/'] as [string, string] };
+
+const LANGS: Record<string, LangSpec> = {
+  ts: {
+    ...C_LIKE_COMMENTS,
+    keywords: words('import export from as default const let var function return if else for while do switch case break continue new class extends implements interface type enum public private protected readonly static async await try catch finally throw typeof instanceof in of void null undefined true false this super yield keyof declare namespace'),
+  },
+  py: {
+    lineComment: '#',
+    keywords: words('import from as def return if elif else for while in not and or is class try except finally raise with lambda yield pass break continue global nonlocal async await None True False self'),
+  },
+  rust: {
+    ...C_LIKE_COMMENTS,
+    keywords: words('fn let mut const static pub use mod crate self Self super struct enum impl trait where for in while loop if else match return break continue as ref move async await dyn unsafe true false Some None Ok Err'),
+  },
+  go: {
+    ...C_LIKE_COMMENTS,
+    keywords: words('package import func return if else for range switch case default break continue go defer select chan map struct interface type var const nil true false'),
+  },
+  c: {
+    ...C_LIKE_COMMENTS,
+    keywords: words('include define if else for while do switch case default break continue return struct class public private protected static const void int long short char float double bool true false null nullptr new delete namespace using template typename virtual override final package import extends implements interface this super throw throws try catch finally'),
+  },
+  shell: {
+    lineComment: '#',
+    keywords: words('if then else elif fi for while do done case esac in function return local export echo exit set unset source'),
+  },
+  css: {
+    blockComment: ['/*', '*/'],
+    keywords: words('important media import keyframes from to root'),
+  },
+  json: {
+    keywords: words('true false null'),
+  },
+};
+
+const EXT_LANG: Record<string, string> = {
+  ts: 'ts', tsx: 'ts', js: 'ts', jsx: 'ts', mjs: 'ts', cjs: 'ts',
+  py: 'py', rs: 'rust', go: 'go',
+  c: 'c', h: 'c', cc: 'c', cpp: 'c', hpp: 'c', java: 'c', kt: 'c', cs: 'c', swift: 'c',
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  css: 'css', scss: 'css', less: 'css',
+  json: 'json', jsonl: 'json',
+};
+
+function langForPath(filePath: string): LangSpec | null {
+  const ext = filePath.split('.').pop()?.toLowerCase() ?? '';
+  const lang = EXT_LANG[ext];
+  return lang ? LANGS[lang] : null;
+}
+
+const TOKEN_RE = /("(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?|`(?:[^`\\]|\\.)*`?)|(\b\d[\d_]*(?:\.\d+)?\b)|([A-Za-z_$][\w$]*)/g;
+
+function highlightLine(text: string, lang: LangSpec | null): ReactNode {
+  if (!lang || text.length === 0) return text;
+
+  // Whole-line comments, including the body lines of a block comment
+  const trimmed = text.trimStart();
+  if (
+    (lang.lineComment && trimmed.startsWith(lang.lineComment)) ||
+    (lang.blockComment && (trimmed.startsWith(lang.blockComment[0]) || trimmed.startsWith('* ') || trimmed === '*' || trimmed.startsWith(lang.blockComment[1])))
+  ) {
+    return <span className="tok-com">{text}</span>;
+  }
+
+  // Trailing line comment (ignores comment markers inside strings only roughly)
+  let code = text;
+  let comment = '';
+  if (lang.lineComment) {
+    const idx = text.indexOf(` ${lang.lineComment}`);
+    if (idx >= 0) {
+      code = text.slice(0, idx);
+      comment = text.slice(idx);
+    }
+  }
+
+  const parts: ReactNode[] = [];
+  let last = 0;
+  let m: RegExpExecArray | null;
+  TOKEN_RE.lastIndex = 0;
+  while ((m = TOKEN_RE.exec(code)) !== null) {
+    if (m.index > last) parts.push(code.slice(last, m.index));
+    const [tok, str, num, word] = m;
+    if (str) parts.push(<span key={m.index} className="tok-str">{tok}</span>);
+    else if (num) parts.push(<span key={m.index} className="tok-num">{tok}</span>);
+    else if (word && lang.keywords.has(word)) parts.push(<span key={m.index} className="tok-kw">{tok}</span>);
+    else parts.push(tok);
+    last = m.index + tok.length;
+  }
+  if (last < code.length) parts.push(code.slice(last));
+  if (comment) parts.push(<span key="com" className="tok-com">{comment}</span>);
+  return parts;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const MAX_WRITE_LINES = 2000;
+
+const MARKERS: Record<DiffLine['type'], string> = { context: ' ', add: '+', del: '-' };
+
+function UnifiedHunk({ lines, lang }: { lines: DiffLine[]; lang: LangSpec | null }) {
+  return (
+    <table className="diff-table">
+      <tbody>
+        {lines.map((line, i) => (
+          <tr key={i} className={`diff-line diff-${line.type}`}>
+            <td className="diff-gutter">{line.oldNo ?? ''}</td>
+            <td className="diff-gutter">{line.newNo ?? ''}</td>
+            <td className="diff-marker">{MARKERS[line.type]}</td>
+            <td className="diff-code">{highlightLine(line.text, lang)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function SplitHunk({ lines, lang }: { lines: DiffLine[]; lang: LangSpec | null }) {
+  const rows = useMemo(() => toSplitRows(lines), [lines]);
+  const cell = (line: DiffLine | null, side: 'old' | 'new') => (
+    <>
+      <td className="diff-gutter">{line ? (side === 'old' ? line.oldNo : line.newNo) : ''}</td>
+      <td className={`diff-code ${line ? `diff-${line.type}` : 'diff-empty'}`}>
+        {line ? highlightLine(line.text, lang) : ''}
+      </td>
+    </>
+  );
+  return (
+    <table className="diff-table diff-split">
+      <tbody>
+        {rows.map((row, i) => (
+          <tr key={i} className="diff-line">
+            {cell(row.left, 'old')}
+            {cell(row.right, 'new')}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function WriteView({ content, lang }: { content: string; lang: LangSpec | null }) {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  const shown = lines.slice(0, MAX_WRITE_LINES);
+  return (
+    <>
+      <table className="diff-table">
+        <tbody>
+          {shown.map((text, i) => (
+            <tr key={i} className="diff-line">
+              <td className="diff-gutter">{i + 1}</td>
+              <td className="diff-code">{highlightLine(text, lang)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {lines.length > shown.length && (
+        <div className="diff-more">{'\u2026'} {(lines.length - shown.length).toLocaleString()} more lines</div>
+      )}
+    </>
+  );
+}
+
+interface DiffViewProps {
+  change: FileChange;
+  /** Compact mode for inline-expanded nodes: unified only, no toolbar toggle. */
+  compact?: boolean;
+}
+
+function DiffView({ change, compact = false }: DiffViewProps) {
+  const [split, setSplit] = useState(false);
+  const lang = langForPath(change.filePath);
+
+  const hunks = useMemo(
+    () => change.edits.map((e) => diffLines(e.oldString, e.newString)),
+    [change],
+  );
+  const stats = useMemo(() => {
+    let added = 0;
+    let removed = 0;
+    for (const h of hunks) {
+      const s = diffStats(h);
+      added += s.added;
+      removed += s.removed;
+    }
+    if (change.kind === 'write') added = diffLines('', change.content ?? '').length;
+    return { added, removed };
+  }, [hunks, change]);
+
+  const showSplit = split && !compact;
+
+  return (
+    <div className={`diff-view ${compact ? 'diff-compact' : ''}`}>
+      <div className="diff-header">
+        <span className="diff-path" title={change.filePath}>{change.filePath}</span>
+        <span className="diff-stat-add">+{stats.added}</span>
+        {change.kind === 'edit' && <span className="diff-stat-del">-{stats.removed}</span>}
+        {!compact && change.kind === 'edit' && (
+          <div className="diff-mode-toggle">
+            <button className={!split ? 'active' : ''} onClick={() => setSplit(false)}>Unified</button>
+            <button className={split ? 'active' : ''} onClick={() => setSplit(true)}>Split</button>
+          </div>
+        )}
+      </div>
+      <div className="diff-body">
+        {change.kind === 'write' ? (
+          <WriteView content={change.content ?? ''} lang={lang} />
+        ) : (
+          hunks.map((lines, i) => (
+            <div key={i} className="diff-hunk">
+              {(hunks.length > 1 || change.edits[i].replaceAll) && (
+                <div className="diff-hunk-header">
+                  {hunks.length > 1 && `Edit ${i + 1} of ${hunks.length}`}
+                  {change.edits[i].replaceAll && <span className="diff-replace-all">replace all</span>}
+                </div>
+              )}
+              {showSplit
+                ? <SplitHunk lines={lines} lang={lang} />
+                : <UnifiedHunk lines={lines} lang={lang} />}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default memo(DiffView);
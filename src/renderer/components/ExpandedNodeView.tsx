@@ -2,6 +2,7 @@ import { useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { useSessionStore } from '../store/session-store';
 import { TOOL_COLORS } from '../../shared/types';
+import DiffView from './DiffView';
 
 export default function ExpandedNodeView() {
   const expandNode = useSessionStore(s => s.expandNode);
@@ -64,7 +65,7 @@ export default function ExpandedNodeView() {
     ? (TOOL_COLORS[node.toolName!] || TOOL_COLORS.default)
     : node.kind === 'user' ? '#34d399'
     : node.kind === 'thinking' ? '#a855f7'
-    : node.kind === 'compaction' ? '#fbbf24'
+    : node.kind === 'compaction' || node.kind === 'continuation' ? '#fbbf24'
     : node.kind === 'session_end' ? '#475569'
     : '#6b7280';
 
@@ -138,14 +139,44 @@ export default function ExpandedNodeView() {
             </div>
           </div>
 
+          {/* Diff (Edit / MultiEdit / Write nodes) */}
+          {node.fileChange && (
+            <div className="expanded-section">
+              <div className="expanded-label">{node.fileChange.kind === 'write' ? 'File' : 'Diff'}</div>
+              <DiffView change={node.fileChange} />
+            </div>
+          )}
+
           {/* Detail */}
-          {node.detail && node.detail !== node.label && (
+          {!node.fileChange && node.detail && node.detail !== node.label && (
             <div className="expanded-section">
               <div className="expanded-label">Detail</div>
               <pre className="expanded-pre">{node.detail}</pre>
             </div>
           )}
 
+          {/* Output (tool nodes) */}
+          {node.result && (
+            <div className="expanded-section">
+              <div className="expanded-label">
+                Output
+                <span style={{ marginLeft: 8, color: '#475569', fontWeight: 400, letterSpacing: 0, textTransform: 'none' }}>
+                  {node.result.exitCode !== undefined && `exit ${node.result.exitCode} \u00B7 `}
+                  {node.result.size.toLocaleString()} chars
+                  {node.result.truncated && ' (truncated)'}
+                </span>
+              </div>
+              {node.result.images.map((mediaType, i) => (
+                <div key={i} className="result-image-placeholder">{'\uD83D\uDDBC'} Image ({mediaType})</div>
+              ))}
+              {node.result.text && (
+                <pre className="expanded-pre" style={{
+                  borderLeft: `3px solid ${node.result.isError ? '#ff3d71' : '#334155'}`,
+                }}>{node.result.text}</pre>
+              )}
+            </div>
+          )}
+
           {/* Replying To (user nodes) */}
           {node.replyToSnippet && (
             <div className="expanded-section">
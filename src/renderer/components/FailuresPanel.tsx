@@ -0,0 +1,195 @@
+import { useMemo, useState, type CSSProperties } from 'react';
+import { differenceInMinutes } from 'date-fns';
+import { useSessionStore } from '../store/session-store';
+import { buildFailureReport, type FailedCall, type FailureGroup } from '../store/failure-analysis';
+import { TOOL_COLORS } from '../../shared/types';
+
+const panelStyle: CSSProperties = {
+  width: 400,
+  backgroundColor: '#12121a',
+  borderLeft: '1px solid #2a2a3e',
+  overflowY: 'auto',
+  padding: 16,
+  flexShrink: 0,
+};
+
+const headerStyle: CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  marginBottom: 4,
+  fontSize: 14,
+  fontWeight: 'bold',
+  color: '#e0e0e0',
+};
+
+const closeBtnStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#888',
+  cursor: 'pointer',
+  fontSize: 16,
+  padding: 4,
+};
+
+const summaryStyle: CSSProperties = {
+  fontSize: 11,
+  color: '#64748b',
+  marginBottom: 14,
+};
+
+const sectionLabelStyle: CSSProperties = {
+  fontSize: 10,
+  color: '#888',
+  textTransform: 'uppercase',
+  letterSpacing: 1,
+  margin: '12px 0 6px',
+};
+
+const groupRowStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '6px 8px',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontSize: 12,
+  color: '#e0e0e0',
+};
+
+const monoStyle: CSSProperties = {
+  fontFamily: 'var(--font-mono, monospace)',
+};
+
+const callStyle: CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontSize: 11,
+  color: '#94a3b8',
+  marginBottom: 4,
+};
+
+const excerptStyle: CSSProperties = {
+  ...monoStyle,
+  fontSize: 10,
+  color: '#e0e0e0',
+  backgroundColor: '#0a0a0f',
+  borderLeft: '3px solid #ff3d71',
+  borderRadius: 4,
+  padding: '4px 8px',
+  marginTop: 4,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  maxHeight: 90,
+  overflow: 'hidden',
+};
+
+/** Identical failing calls repeated this often are flagged as a loop. */
+const LOOP_THRESHOLD = 3;
+
+function spanLabel(group: FailureGroup): string {
+  const minutes = differenceInMinutes(new Date(group.lastTimestamp), new Date(group.firstTimestamp));
+  if (isNaN(minutes) || group.calls.length < 2) return '';
+  return minutes < 1 ? 'within a minute' : `over ${minutes} min`;
+}
+
+function RetryBadge({ call }: { call: FailedCall }) {
+  if (call.attempts < 2) return null;
+  const looping = call.attempts >= LOOP_THRESHOLD;
+  const color = call.fixedByRetry ? '#34d399' : looping ? '#ff3d71' : '#fbbf24';
+  const text = call.fixedByRetry
+    ? `attempt ${call.attempt}/${call.attempts} \u00B7 passed on retry`
+    : `attempt ${call.attempt}/${call.attempts}${call.attempt < call.attempts ? '' : ' \u00B7 never passed'}`;
+  return <span style={{ color, fontSize: 10, flexShrink: 0 }}>{text}</span>;
+}
+
+function CallEntry({ call, showTool = true }: { call: FailedCall; showTool?: boolean }) {
+  const focusNode = useSessionStore(s => s.focusNode);
+  return (
+    <div
+      style={callStyle}
+      onClick={() => focusNode(call.nodeId)}
+      onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#1a1a2e'; }}
+      onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent'; }}
+      title="Jump to node"
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <span style={{ color: '#475569', width: 28, flexShrink: 0 }}>T{call.turn}</span>
+        {showTool && (
+          <span style={{ color: TOOL_COLORS[call.toolName] || TOOL_COLORS.default, flexShrink: 0 }}>{call.toolName}</span>
+        )}
+        <span style={{ ...monoStyle, flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: '#e0e0e0' }}>
+          {call.command}
+        </span>
+        {call.exitCode !== undefined && <span style={{ color: '#ff3d71', flexShrink: 0 }}>exit {call.exitCode}</span>}
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 2 }}>
+        <RetryBadge call={call} />
+      </div>
+      {call.excerpt && <div style={excerptStyle}>{call.excerpt}</div>}
+    </div>
+  );
+}
+
+function GroupEntry({ group }: { group: FailureGroup }) {
+  const [open, setOpen] = useState(false);
+  const span = spanLabel(group);
+  return (
+    <div style={{ marginBottom: 2 }}>
+      <div
+        style={{ ...groupRowStyle, backgroundColor: open ? '#1a1a2e' : 'transparent' }}
+        onClick={() => setOpen(!open)}
+        title={group.signature}
+      >
+        <span style={{ color: '#64748b', fontSize: 10 }}>{open ? '\u25BE' : '\u25B8'}</span>
+        <span style={{ color: TOOL_COLORS[group.toolName] || TOOL_COLORS.default, flexShrink: 0 }}>{group.toolName}</span>
+        <span style={{ ...monoStyle, flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontSize: 11 }}>
+          {group.signature}
+        </span>
+        <span style={{ fontSize: 10, color: group.calls.length >= LOOP_THRESHOLD ? '#ff3d71' : '#64748b', flexShrink: 0 }}>
+          {group.calls.length}{'\u00D7'}
+        </span>
+      </div>
+      {span && <div style={{ fontSize: 10, color: '#475569', padding: '0 8px 2px 26px' }}>{span}</div>}
+      {open && (
+        <div style={{ padding: '4px 0 8px 16px' }}>
+          {group.calls.map((c) => <CallEntry key={c.nodeId} call={c} showTool={false} />)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function FailuresPanel() {
+  const rawMessages = useSessionStore(s => s.rawMessages);
+  const toggleFailuresPanel = useSessionStore(s => s.toggleFailuresPanel);
+
+  const report = useMemo(() => buildFailureReport(rawMessages), [rawMessages]);
+
+  return (
+    <div style={panelStyle}>
+      <div style={headerStyle}>
+        <span>Failures</span>
+        <button onClick={toggleFailuresPanel} style={closeBtnStyle}>
+          {'\u2715'}
+        </button>
+      </div>
+      <div style={summaryStyle}>
+        {report.failures.length} of {report.totalCalls} tool calls failed
+        {report.retriedCount > 0 && <> &middot; {report.retriedCount} re-run with identical input</>}
+      </div>
+      {report.failures.length === 0 && (
+        <div style={{ fontSize: 12, color: '#64748b' }}>No failed tool calls in this session.</div>
+      )}
+      {report.groups.length > 0 && (
+        <>
+          <div style={sectionLabelStyle}>By error</div>
+          {report.groups.map((g) => <GroupEntry key={`${g.toolName}-${g.signature}`} group={g} />)}
+          <div style={sectionLabelStyle}>All failures</div>
+          {report.failures.map((c) => <CallEntry key={c.nodeId} call={c} />)}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useMemo, useState, type CSSProperties } from 'react';
+import { useSessionStore } from '../store/session-store';
+import { buildFileActivity, type FileActivity, type FileTouchKind } from '../store/file-activity';
+import DiffView from './DiffView';
+
+const panelStyle: CSSProperties = {
+  width: 380,
+  backgroundColor: '#12121a',
+  borderLeft: '1px solid #2a2a3e',
+  overflowY: 'auto',
+  padding: 16,
+  flexShrink: 0,
+};
+
+const headerStyle: CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  marginBottom: 4,
+  fontSize: 14,
+  fontWeight: 'bold',
+  color: '#e0e0e0',
+};
+
+const closeBtnStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#888',
+  cursor: 'pointer',
+  fontSize: 16,
+  padding: 4,
+};
+
+const summaryStyle: CSSProperties = {
+  fontSize: 11,
+  color: '#64748b',
+  marginBottom: 14,
+};
+
+const fileRowStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '6px 8px',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontSize: 12,
+  color: '#e0e0e0',
+};
+
+const pathStyle: CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap',
+  direction: 'rtl',
+  textAlign: 'left',
+  fontFamily: 'var(--font-mono, monospace)',
+};
+
+const touchRowStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '3px 8px 3px 24px',
+  fontSize: 11,
+  color: '#94a3b8',
+  cursor: 'pointer',
+  borderRadius: 4,
+};
+
+const KIND_COLORS: Record<FileTouchKind, string> = {
+  read: '#22d3ee',
+  edit: '#ff3d71',
+  write: '#a855f7',
+  search: '#14b8a6',
+};
+
+function relativePath(filePath: string, cwd: string | null): string {
+  if (cwd && filePath.startsWith(cwd + '/')) return filePath.slice(cwd.length + 1);
+  return filePath;
+}
+
+function FileEntry({ file, cwd }: { file: FileActivity; cwd: string | null }) {
+  const [open, setOpen] = useState(false);
+  const focusNode = useSessionStore(s => s.focusNode);
+
+  return (
+    <div style={{ marginBottom: 2 }}>
+      <div
+        style={{ ...fileRowStyle, backgroundColor: open ? '#1a1a2e' : 'transparent' }}
+        onClick={() => setOpen(!open)}
+        title={file.filePath}
+      >
+        <span style={{ color: '#64748b', fontSize: 10 }}>{open ? '\u25BE' : '\u25B8'}</span>
+        <span style={pathStyle}>{relativePath(file.filePath, cwd)}</span>
+        {file.created && <span style={{ fontSize: 9, color: '#a855f7' }}>NEW</span>}
+        {file.netChange && (
+          <span style={{ fontSize: 10, fontFamily: 'var(--font-mono, monospace)' }}>
+            <span style={{ color: '#34d399' }}>+{file.added}</span>{' '}
+            <span style={{ color: '#ff3d71' }}>-{file.removed}</span>
+          </span>
+        )}
+        <span style={{ fontSize: 10, color: '#64748b' }}>{file.touches.length}{'\u00D7'}</span>
+      </div>
+      {open && (
+        <div style={{ padding: '4px 0 8px' }}>
+          {file.touches.map((t) => (
+            <div
+              key={t.nodeId}
+              style={touchRowStyle}
+              onClick={() => focusNode(t.nodeId)}
+              onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#1a1a2e'; }}
+              onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent'; }}
+              title="Jump to node"
+            >
+              <span style={{ color: '#475569', width: 28, flexShrink: 0 }}>T{t.turn}</span>
+              <span style={{ color: KIND_COLORS[t.kind], width: 64, flexShrink: 0 }}>{t.toolName}</span>
+              <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {t.summary}
+              </span>
+              {t.isError && <span style={{ color: '#ff3d71' }}>error</span>}
+            </div>
+          ))}
+          {file.netChange && (
+            <div style={{ marginTop: 8 }}>
+              <DiffView change={file.netChange} compact />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function FilesPanel() {
+  const rawMessages = useSessionStore(s => s.rawMessages);
+  const toggleFilesPanel = useSessionStore(s => s.toggleFilesPanel);
+
+  const files = useMemo(() => buildFileActivity(rawMessages), [rawMessages]);
+  const cwd = useMemo(() => {
+    for (const m of rawMessages) {
+      const c = (m as any).cwd;
+      if (typeof c === 'string') return c;
+    }
+    return null;
+  }, [rawMessages]);
+
+  const changed = files.filter(f => f.netChange).length;
+
+  return (
+    <div style={panelStyle}>
+      <div style={headerStyle}>
+        <span>Files</span>
+        <button onClick={toggleFilesPanel} style={closeBtnStyle}>
+          {'\u2715'}
+        </button>
+      </div>
+      <div style={summaryStyle}>
+        {changed} changed &middot; {files.length - changed} read only
+      </div>
+      {files.length === 0 && (
+        <div style={{ fontSize: 12, color: '#64748b' }}>No file activity in this session yet.</div>
+      )}
+      {files.map(f => (
+        <FileEntry key={f.filePath} file={f} cwd={cwd} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { ReactNode } from 'react';
+import { useSessionStore } from '../store/session-store';
+import { parseNodeQuery } from '../store/node-query';
+
+/** Marks beyond this are left plain so a greedy pattern can't stall a huge output. */
+const MAX_MARKS = 500;
+
+function splitMatches(text: string, pattern: RegExp): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  let marks = 0;
+  pattern.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(text)) !== null && marks < MAX_MARKS) {
+    if (m[0].length === 0) {
+      pattern.lastIndex++; // zero-width match (e.g. `a*`) — nothing to mark
+      continue;
+    }
+    if (m.index > last) parts.push(text.slice(last, m.index));
+    parts.push(<mark key={m.index} className="search-highlight">{m[0]}</mark>);
+    last = m.index + m[0].length;
+    marks++;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
+
+/**
+ * Text with the current search's text terms highlighted. Pass `enabled={false}`
+ * for nodes that don't match to skip the scan entirely.
+ */
+export default function HighlightedText({ text, enabled = true }: { text: string; enabled?: boolean }) {
+  const pattern = useSessionStore(s => parseNodeQuery(s.searchQuery, s.searchOptions).highlight);
+  if (!enabled || !pattern || !text) return <>{text}</>;
+  return <>{splitMatches(text, pattern)}</>;
+}
@@ -1,5 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, type CSSProperties } from 'react';
 import { useSessionStore, type LiveActivity } from '../store/session-store';
+import { turnWarnings } from '../store/thrash-detection';
+import { computeContextUsage, forecastLabel, occupancyColor, type ContextUsage } from '../store/context-usage';
 
 function formatElapsed(ms: number): string {
   const totalSec = Math.floor(ms / 1000);
@@ -17,6 +19,60 @@ function formatTokens(n: number): string {
   return String(n);
 }
 
+/** Tooltip for the context gauge: occupancy, threshold and how far off auto-compaction is. */
+function contextTitle(usage: ContextUsage): string {
+  const lines = [
+    `Context: ${formatTokens(usage.current)} of ${formatTokens(usage.limit)}`,
+    `Auto-compact at ~${formatTokens(usage.threshold)}`,
+  ];
+  const eta = forecastLabel(usage.forecast);
+  if (eta) lines.push(`Compaction in ${eta} at the recent rate`);
+  lines.push('Click for the context panel');
+  return lines.join('\n');
+}
+
+/** Occupancy bar and percentage; clicking it opens the context panel. */
+function ContextGauge({ usage, onClick }: { usage: ContextUsage; onClick: () => void }) {
+  const color = occupancyColor(usage);
+  return (
+    <span
+      style={{ display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer' }}
+      title={contextTitle(usage)}
+      onClick={onClick}
+    >
+      <span style={{ width: 48, height: 6, borderRadius: 3, backgroundColor: '#1e1e2e', overflow: 'hidden' }}>
+        <span style={{
+          display: 'block',
+          width: `${Math.min(1, usage.current / usage.limit) * 100}%`,
+          height: '100%',
+          backgroundColor: color,
+        }} />
+      </span>
+      <span style={{ color }}>
+        {Math.round((usage.current / usage.limit) * 100)}%
+      </span>
+    </span>
+  );
+}
+
+const barStyle: CSSProperties = {
+  position: 'absolute',
+  bottom: 16,
+  left: '50%',
+  transform: 'translateX(-50%)',
+  zIndex: 10,
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '6px 16px',
+  background: 'rgba(10, 10, 15, 0.9)',
+  borderRadius: 8,
+  backdropFilter: 'blur(8px)',
+  fontFamily: 'var(--font-mono, monospace)',
+  fontSize: 12,
+  whiteSpace: 'nowrap',
+};
+
 const ACTIVITY_LABELS: Record<LiveActivity, string> = {
   idle: 'Active',
   thinking: 'Thinking',
@@ -42,10 +98,17 @@ export default function LiveStatusBar() {
   const turnOutputTokens = useSessionStore(s => s.turnOutputTokens);
   const turnThinkingMs = useSessionStore(s => s.turnThinkingMs);
   const thinkingStartedAt = useSessionStore(s => s._thinkingStartedAt);
+  const focusNode = useSessionStore(s => s.focusNode);
+  const rawMessages = useSessionStore(s => s.rawMessages);
+  const pricing = useSessionStore(s => s.pricingInfo.table);
+  const toggleContextPanel = useSessionStore(s => s.toggleContextPanel);
+  const warnings = useSessionStore(s => turnWarnings(s.thrash, s.thrash.currentTurnId));
 
   const [now, setNow] = useState(Date.now());
 
   const isActive = liveActivity !== 'idle' && liveActivity !== 'waiting_on_user';
+  const context = useMemo(() => computeContextUsage(rawMessages, pricing), [rawMessages, pricing]);
+  const gauge = context.current > 0 ? <ContextGauge usage={context} onClick={toggleContextPanel} /> : null;
 
   // Tick every second when active
   useEffect(() => {
@@ -55,7 +118,10 @@ export default function LiveStatusBar() {
     return () => clearInterval(id);
   }, [isActive, turnStartTime]);
 
-  if (!isActive || turnStartTime === 0) return null;
+  // Between turns only the context gauge stays up
+  if (!isActive || turnStartTime === 0) {
+    return gauge && <div style={{ ...barStyle, border: '1px solid #2a2a3e' }}>{gauge}</div>;
+  }
 
   const elapsed = now - turnStartTime;
   const thinkingTotal = turnThinkingMs + (thinkingStartedAt ? now - thinkingStartedAt : 0);
@@ -77,23 +143,9 @@ export default function LiveStatusBar() {
 
   return (
     <div style={{
-      position: 'absolute',
-      bottom: 16,
-      left: '50%',
-      transform: 'translateX(-50%)',
-      zIndex: 10,
-      display: 'flex',
-      alignItems: 'center',
-      gap: 8,
-      padding: '6px 16px',
-      background: 'rgba(10, 10, 15, 0.9)',
+      ...barStyle,
       border: `1px solid ${color}40`,
-      borderRadius: 8,
-      backdropFilter: 'blur(8px)',
       boxShadow: `0 0 12px ${color}20`,
-      fontFamily: 'var(--font-mono, monospace)',
-      fontSize: 12,
-      whiteSpace: 'nowrap',
       animation: 'indicator-pulse 2.5s cubic-bezier(0.25, 0.46, 0.45, 0.94) infinite',
     }}>
       <span style={{ color, fontSize: 14 }}>{'\u2726'}</span>
@@ -103,6 +155,20 @@ export default function LiveStatusBar() {
       <span style={{ color: '#666' }}>
         ({parts.join(' \u00B7 ')})
       </span>
+      {gauge}
+      {warnings.length > 0 && (
+        <span
+          style={{ color: '#ff3d71', cursor: 'pointer', fontWeight: 600 }}
+          title={warnings.map(w => w.message).join('\n')}
+          onClick={() => {
+            const ids = warnings[warnings.length - 1].nodeIds;
+            focusNode(ids[ids.length - 1]);
+          }}
+        >
+          {'\u26A0'} {warnings[warnings.length - 1].message}
+          {warnings.length > 1 && ` (+${warnings.length - 1})`}
+        </span>
+      )}
     </div>
   );
 }
@@ -15,10 +15,12 @@ import TextNode from '../nodes/TextNode';
 import SystemNode from '../nodes/SystemNode';
 import CompactionNode from '../nodes/CompactionNode';
 import SessionEndNode from '../nodes/SessionEndNode';
+import ContinuationNode from '../nodes/ContinuationNode';
 import QueueNode from '../nodes/QueueNode';
 import NeonEdge from '../edges/NeonEdge';
 import { useSessionStore } from '../store/session-store';
 import { useAutoLayout } from '../hooks/useAutoLayout';
+import { renderFlowSvg, svgToPng } from '../store/image-export';
 import { TOOL_COLORS } from '../../shared/types';
 
 const nodeTypes = {
@@ -29,6 +31,7 @@ const nodeTypes = {
   systemNode: SystemNode,
   compactionNode: CompactionNode,
   sessionEndNode: SessionEndNode,
+  continuationNode: ContinuationNode,
   queueNode: QueueNode,
 };
 
@@ -50,7 +53,10 @@ export default function MindMap() {
   const filterRevision = useSessionStore(s => s._filterRevision);
 
   const expandedNodeId = useSessionStore(s => s.expandedNodeId);
-  const layoutResult = useAutoLayout(graphNodes, graphEdges, filterRevision, expandedNodeId);
+  const layoutEngine = useSessionStore(s => s.layoutEngine);
+  const layoutDirection = useSessionStore(s => s.layoutDirection);
+  const layout = useMemo(() => ({ engine: layoutEngine, direction: layoutDirection }), [layoutEngine, layoutDirection]);
+  const layoutResult = useAutoLayout(graphNodes, graphEdges, filterRevision, expandedNodeId, layout);
 
   // Inject isExpanded flag into node data so node components can render inline expansion
   const nodes = useMemo(() => layoutResult.nodes.map(n => {
@@ -59,7 +65,8 @@ export default function MindMap() {
   }), [layoutResult.nodes, expandedNodeId]);
   const edges = layoutResult.edges;
 
-  const { fitView, setCenter, getZoom } = useReactFlow();
+  const { fitView, setCenter, getZoom, getNodesBounds } = useReactFlow();
+  const flowRef = useRef<HTMLDivElement>(null);
   const prevNodeCount = useRef(0);
   const prevSessionPath = useRef<string | null>(null);
 
@@ -134,6 +141,9 @@ export default function MindMap() {
         } else {
           isProgrammaticMove.current = false;
         }
+      } else if (useSessionStore.getState().pendingFocusNodeId || useSessionStore.getState().centerOnNodeId) {
+        // Opened to a specific node (global search) — let the node centering win
+        isProgrammaticMove.current = false;
       } else {
         // Normal session switch — fit all nodes into view
         setTimeout(() => {
@@ -162,6 +172,22 @@ export default function MindMap() {
     prevNodeCount.current = nodes.length;
   }, [nodes.length, activeSessionPath, autoFollow, fitView, setCenter, getZoom, beginProgrammaticMove, endProgrammaticMoveAfter]);
 
+  // Switching layout within a session moves every node — fit the new shape into view
+  const prevLayout = useRef(layout);
+  const prevLayoutSession = useRef(activeSessionPath);
+  useEffect(() => {
+    const sameSession = prevLayoutSession.current === activeSessionPath;
+    const changed = prevLayout.current !== layout;
+    prevLayout.current = layout;
+    prevLayoutSession.current = activeSessionPath;
+    if (!sameSession || !changed || nodes.length === 0) return;
+    beginProgrammaticMove();
+    setTimeout(() => {
+      fitView({ duration: 400, padding: 0.15 });
+      endProgrammaticMoveAfter(500);
+    }, 50);
+  }, [layout, activeSessionPath, nodes.length, fitView, beginProgrammaticMove, endProgrammaticMoveAfter]);
+
   // Center-on-demand: triggered by toggleAutoFollow(ON) or Recenter button
   useEffect(() => {
     if (!centerRequested || nodes.length === 0) return;
@@ -299,6 +325,26 @@ export default function MindMap() {
     return () => window.removeEventListener('keydown', handler);
   }, [expandNode, navigateNode]);
 
+  // Image export: triggered from the toolbar's Export menu
+  const imageExportRequest = useSessionStore(s => s.imageExportRequest);
+  useEffect(() => {
+    if (!imageExportRequest) return;
+    useSessionStore.getState().clearImageExportRequest();
+    const flowEl = flowRef.current;
+    if (!flowEl || nodes.length === 0) return;
+
+    const run = async () => {
+      const { svg, width, height } = renderFlowSvg(flowEl, getNodesBounds(nodes), imageExportRequest);
+      const session = useSessionStore.getState().sessions.find(
+        s => s.filePath === useSessionStore.getState().activeSessionPath,
+      );
+      const name = `claude-session-${session ? session.sessionId.slice(0, 8) : 'graph'}.${imageExportRequest.format}`;
+      const content = imageExportRequest.format === 'png' ? await svgToPng(svg, width, height) : svg;
+      await window.api.saveExport(name, content);
+    };
+    run().catch((err: Error) => window.alert(`Image export failed: ${err.message}`));
+  }, [imageExportRequest, nodes, getNodesBounds]);
+
   // Click-to-teleport on minimap: use MiniMap's built-in onClick which
   // provides the click position already converted to flow coordinates.
   const minimapRef = useRef<HTMLDivElement>(null);
@@ -362,6 +408,7 @@ export default function MindMap() {
 
   return (
     <ReactFlow
+      ref={flowRef}
       nodes={nodes}
       edges={edges}
       nodeTypes={nodeTypes}
@@ -415,6 +462,7 @@ export default function MindMap() {
             if (gn?.kind === 'compaction') return '#fbbf24';
             if (gn?.kind === 'queue') return '#fbbf24';
             if (gn?.kind === 'session_end') return '#475569';
+            if (gn?.kind === 'continuation') return '#fbbf24';
             return '#475569';
           }}
           style={{
@@ -1,6 +1,8 @@
 import type { CSSProperties } from 'react';
 import { useSessionStore } from '../store/session-store';
-import { TOOL_COLORS } from '../../shared/types';
+import { TOOL_COLORS, type CompactSummary } from '../../shared/types';
+import DiffView from './DiffView';
+import HighlightedText from './HighlightedText';
 
 const panelStyle: CSSProperties = {
   width: 360,
@@ -73,6 +75,62 @@ const preStyle: CSSProperties = {
   margin: 0,
 };
 
+const resultMetaStyle: CSSProperties = {
+  fontSize: 10,
+  color: '#64748b',
+  marginBottom: 4,
+  fontFamily: 'var(--font-mono, monospace)',
+};
+
+const imagePlaceholderStyle: CSSProperties = {
+  fontSize: 11,
+  color: '#94a3b8',
+  border: '1px dashed #2a2a3e',
+  borderRadius: 6,
+  padding: '6px 10px',
+  marginBottom: 6,
+};
+
+const auditItemStyle: CSSProperties = {
+  fontSize: 11,
+  fontFamily: 'var(--font-mono, monospace)',
+  wordBreak: 'break-all',
+  padding: '1px 0',
+};
+
+function AuditGroup({ title, items, color }: { title: string; items: string[]; color: string }) {
+  if (items.length === 0) return null;
+  return (
+    <div style={{ marginBottom: 8 }}>
+      <div style={{ ...resultMetaStyle, color }}>{title} ({items.length})</div>
+      {items.map((item) => (
+        <div key={item} style={{ ...auditItemStyle, borderLeft: `2px solid ${color}`, paddingLeft: 6 }}>{item}</div>
+      ))}
+    </div>
+  );
+}
+
+/** Which files and todos from before the compaction the summary kept. */
+function CompactionAudit({ summary }: { summary: CompactSummary }) {
+  const todo = (t: CompactSummary['todos']['kept'][number]) => `[${t.status}] ${t.content}`;
+  return (
+    <div style={sectionStyle}>
+      <div style={labelStyle}>Context Kept by Summary</div>
+      {!summary.audited && (
+        <div style={{ ...resultMetaStyle, marginBottom: 8 }}>
+          The turns before this compaction aren't loaded, so nothing can be checked against them.
+          Stitch the session lineage to audit this summary.
+        </div>
+      )}
+      <AuditGroup title="Files mentioned" items={summary.files.kept} color="#34d399" />
+      <AuditGroup title="Files not mentioned" items={summary.files.dropped} color="#ff3d71" />
+      <AuditGroup title="Only in summary" items={summary.files.summaryOnly} color="#94a3b8" />
+      <AuditGroup title="Todos mentioned" items={summary.todos.kept.map(todo)} color="#34d399" />
+      <AuditGroup title="Todos not mentioned" items={summary.todos.dropped.map(todo)} color="#ff3d71" />
+    </div>
+  );
+}
+
 export default function NodeDetails() {
   const selectNode = useSessionStore(s => s.selectNode);
 
@@ -147,12 +205,37 @@ export default function NodeDetails() {
       )}
       <div style={sectionStyle}>
         <div style={labelStyle}>Label</div>
-        <div style={contentStyle}>{node.label}</div>
+        <div style={contentStyle}><HighlightedText text={node.label} /></div>
       </div>
-      {node.detail && (
+      {node.fileChange ? (
+        <div style={sectionStyle}>
+          <div style={labelStyle}>{node.fileChange.kind === 'write' ? 'File' : 'Diff'}</div>
+          <DiffView change={node.fileChange} />
+        </div>
+      ) : node.detail && (
         <div style={sectionStyle}>
           <div style={labelStyle}>Detail</div>
-          <pre style={preStyle}>{node.detail}</pre>
+          <pre style={preStyle}><HighlightedText text={node.detail} /></pre>
+        </div>
+      )}
+      {node.compactSummary && <CompactionAudit summary={node.compactSummary} />}
+      {node.result && (
+        <div style={sectionStyle}>
+          <div style={labelStyle}>Output</div>
+          <div style={resultMetaStyle}>
+            {node.result.exitCode !== undefined && `exit ${node.result.exitCode} \u00B7 `}
+            {node.result.size.toLocaleString()} chars
+            {node.result.truncated && ' (truncated)'}
+          </div>
+          {node.result.images.map((mediaType, i) => (
+            <div key={i} style={imagePlaceholderStyle}>{'\uD83D\uDDBC'} Image ({mediaType})</div>
+          ))}
+          {node.result.text && (
+            <pre style={{
+              ...preStyle,
+              borderLeft: `3px solid ${node.result.isError ? '#ff3d71' : '#2a2a3e'}`,
+            }}><HighlightedText text={node.result.text} /></pre>
+          )}
         </div>
       )}
       {node.replyToSnippet && (
@@ -177,7 +260,7 @@ export default function NodeDetails() {
             ...preStyle,
             borderLeft: '3px solid #34d399',
             maxHeight: 500,
-          }}>{replyDetail}</pre>
+          }}><HighlightedText text={replyDetail} /></pre>
         </div>
       )}
     </div>
@@ -0,0 +1,191 @@
+import { useEffect, useState, type CSSProperties, type ReactNode } from 'react';
+import { format } from 'date-fns';
+import { useSessionStore } from '../store/session-store';
+import { projectName } from '../store/usage-aggregate';
+import type { GlobalSearchResponse, SearchHitKind, SessionSearchResult } from '../../shared/types';
+
+const panelStyle: CSSProperties = {
+  width: 380,
+  backgroundColor: '#12121a',
+  borderLeft: '1px solid #2a2a3e',
+  overflowY: 'auto',
+  padding: 16,
+  flexShrink: 0,
+};
+
+const headerStyle: CSSProperties = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  alignItems: 'center',
+  marginBottom: 8,
+  fontSize: 14,
+  fontWeight: 'bold',
+  color: '#e0e0e0',
+};
+
+const closeBtnStyle: CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#888',
+  cursor: 'pointer',
+  fontSize: 16,
+  padding: 4,
+};
+
+const inputStyle: CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '6px 8px',
+  backgroundColor: '#0a0a0f',
+  color: '#e0e0e0',
+  border: '1px solid #2a2a3e',
+  borderRadius: 4,
+  fontSize: 12,
+  fontFamily: 'inherit',
+  outline: 'none',
+};
+
+const summaryStyle: CSSProperties = {
+  fontSize: 11,
+  color: '#64748b',
+  margin: '8px 0 12px',
+};
+
+const sessionHeaderStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '6px 8px',
+  borderRadius: 4,
+  fontSize: 12,
+  color: '#e0e0e0',
+};
+
+const hitRowStyle: CSSProperties = {
+  display: 'flex',
+  gap: 8,
+  padding: '4px 8px 4px 20px',
+  fontSize: 11,
+  color: '#94a3b8',
+  cursor: 'pointer',
+  borderRadius: 4,
+};
+
+const KIND_LABELS: Record<SearchHitKind, { label: string; color: string }> = {
+  user: { label: 'prompt', color: '#00d4ff' },
+  text: { label: 'reply', color: '#34d399' },
+  tool_input: { label: 'tool', color: '#ff6b35' },
+  tool_result: { label: 'output', color: '#a855f7' },
+};
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Wrap each occurrence of a query word in a highlight span. */
+function highlight(text: string, query: string): ReactNode {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}_]{2,}/gu);
+  if (!words) return text;
+  const re = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi');
+  return text.split(re).map((part, i) =>
+    i % 2 === 1
+      ? <mark key={i} style={{ backgroundColor: 'rgba(251, 191, 36, 0.3)', color: '#fbbf24' }}>{part}</mark>
+      : part,
+  );
+}
+
+function SessionResult({ result, query }: { result: SessionSearchResult; query: string }) {
+  const openSessionAtNode = useSessionStore(s => s.openSessionAtNode);
+  const activeSessionPath = useSessionStore(s => s.activeSessionPath);
+  const isViewing = result.filePath === activeSessionPath;
+
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <div style={{ ...sessionHeaderStyle, backgroundColor: isViewing ? '#1a1a2e' : 'transparent' }} title={result.project}>
+        <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', fontWeight: 600 }}>
+          {result.displayText}
+        </span>
+        <span style={{ fontSize: 10, color: '#475569', flexShrink: 0 }}>
+          {projectName(result.project)} &middot; {format(new Date(result.lastModified), 'MMM d')}
+        </span>
+      </div>
+      {result.hits.map((hit, i) => (
+        <div
+          key={`${hit.nodeId}-${i}`}
+          style={hitRowStyle}
+          onClick={() => openSessionAtNode(result.filePath, hit.nodeId)}
+          onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#1a1a2e'; }}
+          onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent'; }}
+          title="Open session at this node"
+        >
+          <span style={{ color: KIND_LABELS[hit.kind].color, width: 44, flexShrink: 0 }}>{KIND_LABELS[hit.kind].label}</span>
+          <span style={{ flex: 1, minWidth: 0, wordBreak: 'break-word' }}>{highlight(hit.snippet, query)}</span>
+        </div>
+      ))}
+      {result.totalHits > result.hits.length && (
+        <div style={{ fontSize: 10, color: '#475569', padding: '2px 8px 0 20px' }}>
+          +{result.totalHits - result.hits.length} more in this session
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SearchPanel() {
+  const toggleSearchPanel = useSessionStore(s => s.toggleSearchPanel);
+  const [query, setQuery] = useState('');
+  const [response, setResponse] = useState<GlobalSearchResponse | null>(null);
+
+  // Debounced query; a newer query cancels the older response
+  useEffect(() => {
+    if (!query.trim()) {
+      setResponse(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      window.api.searchSessions(query)
+        .then((res) => { if (!cancelled) setResponse(res); })
+        .catch(() => {});
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <div style={panelStyle}>
+      <div style={headerStyle}>
+        <span>Search all sessions</span>
+        <button onClick={toggleSearchPanel} style={closeBtnStyle}>
+          {'\u2715'}
+        </button>
+      </div>
+      <input
+        type="text"
+        autoFocus
+        placeholder="Prompts, replies, tool input and output..."
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        style={inputStyle}
+        onFocus={(e) => { e.currentTarget.style.borderColor = '#a855f7'; }}
+        onBlur={(e) => { e.currentTarget.style.borderColor = '#2a2a3e'; }}
+      />
+      {response && (
+        <div style={summaryStyle}>
+          {response.results.length === 0
+            ? 'No matches'
+            : <>{response.totalHits} matches in {response.totalSessions} session{response.totalSessions === 1 ? '' : 's'}</>}
+          {response.totalSessions > response.results.length && (
+            <span> &middot; showing the {response.results.length} most recent</span>
+          )}
+          {response.indexing && <span style={{ color: '#a855f7' }}> &middot; still indexing, results may be incomplete</span>}
+        </div>
+      )}
+      {response?.results.map((r) => (
+        <SessionResult key={r.filePath} result={r} query={response.query} />
+      ))}
+    </div>
+  );
+}
@@ -28,6 +28,7 @@ import {
   type LiveActivity,
 } from '../store/session-store';
 import { buildGraph } from '../store/graph-builder';
+import { collectCompactSummaries, type CompactSummaryMatch } from '../store/compaction-summary';
 import { useAutoLayout } from '../hooks/useAutoLayout';
 import { TOOL_COLORS, type GraphNode, type GraphEdge } from '../../shared/types';
 
@@ -338,6 +339,7 @@ function SecondaryCanvas() {
   const [activity, setActivity] = useState<LiveActivity>('idle');
   const [activityDetail, setActivityDetail] = useState<string | undefined>();
   const messagesRef = useRef<any[]>([]);
+  const summariesRef = useRef(new Map<string, CompactSummaryMatch>());
   const genRef = useRef(0);
   const { fitView } = useReactFlow();
 
@@ -353,6 +355,7 @@ function SecondaryCanvas() {
 
     const gen = ++genRef.current;
     messagesRef.current = [];
+    summariesRef.current = new Map();
 
     const processMessages = (msgs: any[], shouldFitView = false) => {
       const isActive = sessions.some((s) => s.filePath === secondarySessionPath && s.endReason === 'active');
@@ -362,8 +365,9 @@ function SecondaryCanvas() {
       const maxTurns = isActive ? MAX_USER_TURNS_ACTIVE : MAX_USER_TURNS_PAST;
       const windowed = windowMessages(msgs, maxTurns);
 
-      // Build graph from windowed messages
-      const { nodes: allNodes, edges: allEdges } = buildGraph(windowed, endReason);
+      // Audit compactions against the full history, then build from the window
+      summariesRef.current = collectCompactSummaries(msgs.filter((m) => !m.isSidechain), summariesRef.current);
+      const { nodes: allNodes, edges: allEdges } = buildGraph(windowed, endReason, [], undefined, {}, summariesRef.current);
 
       // Auto-collapse: active sessions keep last N expanded, past sessions collapse all
       const collapsed = isActive
@@ -386,7 +390,7 @@ function SecondaryCanvas() {
             n.isLastMessage = true;
             break;
           }
-          if (n.kind === 'system' || n.kind === 'thinking') continue;
+          if (n.kind === 'system' || n.kind === 'thinking' || n.parentTaskId) continue;
           break;
         }
       }
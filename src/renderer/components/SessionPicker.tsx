@@ -27,6 +27,41 @@ const BUCKET_LABELS: Record<DateBucket, string> = {
 
 const BUCKET_ORDER: DateBucket[] = ['today', 'yesterday', 'thisWeek', 'thisMonth', 'older'];
 
+const SOURCE_COLORS = ['#22d3ee', '#f472b6', '#fbbf24', '#a3e635', '#818cf8', '#fb923c'];
+
+/** Stable color per source label so each root keeps its badge color across refreshes. */
+function sourceColor(label: string): string {
+  let hash = 0;
+  for (let i = 0; i < label.length; i++) hash = (hash * 31 + label.charCodeAt(i)) | 0;
+  return SOURCE_COLORS[Math.abs(hash) % SOURCE_COLORS.length];
+}
+
+/** Which .claude root a session came from; only shown when sessions span several roots. */
+function SourceBadge({ source }: { source: string }) {
+  const color = sourceColor(source);
+  return (
+    <span
+      title={`From ${source}`}
+      style={{
+        fontSize: 8,
+        color,
+        border: `1px solid ${color}40`,
+        borderRadius: 3,
+        padding: '0 4px',
+        maxWidth: 80,
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap',
+        flexShrink: 0,
+        textTransform: 'none',
+        letterSpacing: 0,
+      }}
+    >
+      {source}
+    </span>
+  );
+}
+
 // ─── Active Session Card ────────────────────────────────────────────────
 
 function ActiveSessionCard({
@@ -35,12 +70,18 @@ function ActiveSessionCard({
   onClick,
   onSplitClick,
   isInSplit,
+  showSource,
+  isMuted,
+  onMuteClick,
 }: {
   session: SessionInfo;
   isViewing: boolean;
   onClick: () => void;
   onSplitClick?: () => void;
   isInSplit?: boolean;
+  showSource?: boolean;
+  isMuted: boolean;
+  onMuteClick: () => void;
 }) {
   const lastPrompt = session.userPrompts?.length
     ? session.userPrompts[session.userPrompts.length - 1]
@@ -71,11 +112,26 @@ function ActiveSessionCard({
         <span style={{ fontSize: 12, fontWeight: 600, color: '#e2e8f0', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
           {session.displayText}
         </span>
+        {showSource && session.source && <SourceBadge source={session.source} />}
         {isViewing && (
           <span style={{ fontSize: 8, color: '#a855f7', fontWeight: 700, letterSpacing: 1, textTransform: 'uppercase', flexShrink: 0 }}>
             Viewing
           </span>
         )}
+        <span
+          onClick={(e) => { e.stopPropagation(); onMuteClick(); }}
+          title={isMuted ? 'Notifications muted \u2014 click to unmute' : 'Mute notifications for this session'}
+          style={{
+            fontSize: 10,
+            color: isMuted ? '#f87171' : '#475569',
+            cursor: 'pointer',
+            flexShrink: 0,
+            padding: '1px 2px',
+            opacity: isMuted ? 1 : 0.6,
+          }}
+        >
+          {isMuted ? '\uD83D\uDD15' : '\uD83D\uDD14'}
+        </span>
         {onSplitClick && (
           <span
             onClick={(e) => { e.stopPropagation(); onSplitClick(); }}
@@ -118,12 +174,14 @@ function PastSessionItem({
   onClick,
   onSplitClick,
   isInSplit,
+  showSource,
 }: {
   session: SessionInfo;
   isViewing: boolean;
   onClick: () => void;
   onSplitClick?: () => void;
   isInSplit?: boolean;
+  showSource?: boolean;
 }) {
   const [expanded, setExpanded] = useState(false);
   const [visibleCount, setVisibleCount] = useState(PROMPTS_PER_PAGE);
@@ -160,9 +218,12 @@ function PastSessionItem({
         if (!isViewing) e.currentTarget.style.background = isViewing ? '#1a1a2e' : 'transparent';
       }}
     >
-      {/* Project name */}
-      <div style={{ fontSize: 9, color: '#475569', textTransform: 'uppercase', letterSpacing: '0.5px', marginBottom: 2 }}>
-        {session.displayText}
+      {/* Project name + source root */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 9, color: '#475569', textTransform: 'uppercase', letterSpacing: '0.5px', marginBottom: 2 }}>
+        <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {session.displayText}
+        </span>
+        {showSource && session.source && <SourceBadge source={session.source} />}
       </div>
       {/* First prompt / subtitle */}
       <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
@@ -260,6 +321,8 @@ export default function SessionPicker() {
   const splitMode = useSessionStore((s) => s.splitMode);
   const secondarySessionPath = useSessionStore((s) => s.secondarySessionPath);
   const setSecondarySession = useSessionStore((s) => s.setSecondarySession);
+  const mutedSessions = useSessionStore((s) => s.mutedSessions);
+  const toggleSessionMute = useSessionStore((s) => s.toggleSessionMute);
 
   const [collapsedBuckets, setCollapsedBuckets] = useState<Set<DateBucket>>(() =>
     new Set<DateBucket>(['thisMonth', 'older']),
@@ -297,6 +360,12 @@ export default function SessionPicker() {
     return { activeSessions: active, dateBuckets: buckets };
   }, [sessions]);
 
+  // Badges only help once sessions come from more than one root
+  const showSource = useMemo(
+    () => new Set(sessions.map(s => s.source).filter(Boolean)).size > 1,
+    [sessions],
+  );
+
   const toggleBucket = useCallback((bucket: DateBucket) => {
     setCollapsedBuckets(prev => {
       const next = new Set(prev);
@@ -310,6 +379,16 @@ export default function SessionPicker() {
     <div style={s.container}>
       <div style={s.header}>
         <h2 style={s.heading}>Sessions</h2>
+        <button
+          style={s.settingsBtn}
+          onClick={() => {
+            window.api.openSettingsFile()
+              .catch((err: Error) => window.alert(`Could not open the settings file: ${err.message}`));
+          }}
+          title="Add .claude roots (dev containers, mounted hosts) and notification settings in settings.json"
+        >
+          {'\u2699'}
+        </button>
       </div>
       <div style={s.list}>
         {/* ── Active Sessions Section ── */}
@@ -328,6 +407,9 @@ export default function SessionPicker() {
                 onClick={() => setActiveSession(session.filePath)}
                 onSplitClick={splitMode ? () => setSecondarySession(session.filePath) : undefined}
                 isInSplit={session.filePath === secondarySessionPath}
+                showSource={showSource}
+                isMuted={mutedSessions.includes(session.filePath)}
+                onMuteClick={() => toggleSessionMute(session.filePath)}
               />
             ))}
             <div style={s.divider} />
@@ -357,6 +439,7 @@ export default function SessionPicker() {
                   onClick={() => setActiveSession(session.filePath)}
                   onSplitClick={splitMode ? () => setSecondarySession(session.filePath) : undefined}
                   isInSplit={session.filePath === secondarySessionPath}
+                  showSource={showSource}
                 />
               ))}
             </div>
@@ -386,6 +469,17 @@ const s: Record<string, CSSProperties> = {
   header: {
     padding: 16,
     borderBottom: '1px solid #2a2a3e',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  settingsBtn: {
+    background: 'transparent',
+    border: 'none',
+    color: '#64748b',
+    cursor: 'pointer',
+    fontSize: 14,
+    padding: 2,
   },
   heading: {
     fontSize: 14,
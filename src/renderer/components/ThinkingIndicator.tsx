@@ -1,4 +1,5 @@
 import { useSessionStore, LiveActivity } from '../store/session-store';
+import { turnWarnings, type ThrashWarning } from '../store/thrash-detection';
 
 const ACTIVITY_CONFIG: Record<LiveActivity, { label: string; icon: string; color: string }> = {
   idle: { label: 'Active', icon: '🟢', color: '#475569' },
@@ -136,6 +137,39 @@ function ActivityBanner({
   );
 }
 
+/** Loop/thrash warnings for the viewed session's current turn. Click to jump to the offending call. */
+function ThrashWarnings({ warnings }: { warnings: ThrashWarning[] }) {
+  const focusNode = useSessionStore((s) => s.focusNode);
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 4, marginTop: 6 }}>
+      {warnings.map((w, i) => (
+        <div
+          key={`${w.kind}-${i}`}
+          onClick={() => focusNode(w.nodeIds[w.nodeIds.length - 1])}
+          style={{
+            padding: '5px 12px',
+            fontSize: 11,
+            fontFamily: 'var(--font-mono, monospace)',
+            color: '#ff3d71',
+            background: 'rgba(10, 10, 15, 0.95)',
+            border: '1px solid rgba(255, 61, 113, 0.5)',
+            borderRadius: 8,
+            boxShadow: '0 0 12px rgba(255, 61, 113, 0.25)',
+            cursor: 'pointer',
+            maxWidth: 520,
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+          title="Possible loop \u2014 click to jump to the latest call"
+        >
+          {'\u26A0'} {w.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function ThinkingIndicator() {
   const backgroundActivities = useSessionStore((s) => s.backgroundActivities);
   const activeSessionPath = useSessionStore((s) => s.activeSessionPath);
@@ -145,6 +179,7 @@ export default function ThinkingIndicator() {
   const requestCenter = useSessionStore((s) => s.requestCenter);
   const splitMode = useSessionStore((s) => s.splitMode);
   const setSecondarySession = useSessionStore((s) => s.setSecondarySession);
+  const currentWarnings = useSessionStore((s) => turnWarnings(s.thrash, s.thrash.currentTurnId));
 
   const entries = Array.from(backgroundActivities.entries())
     .map(([filePath, { activity, detail, sessionName }]) => {
@@ -182,19 +217,21 @@ export default function ThinkingIndicator() {
       maxWidth: '90%',
     }}>
       {entries.map((entry) => (
-        <ActivityBanner
-          key={entry.filePath}
-          config={entry.config}
-          activity={entry.activity}
-          detail={entry.detail}
-          sessionName={entry.sessionName}
-          isCurrent={entry.isCurrent}
-          onClick={entry.isCurrent
-            ? () => { useSessionStore.setState({ autoFollow: true }); requestCenter(); }
-            : splitMode
-              ? () => { setSecondarySession(entry.filePath); }
-              : () => { useSessionStore.setState({ centerOnLoad: true }); setActiveSession(entry.filePath); }}
-        />
+        <div key={entry.filePath} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+          <ActivityBanner
+            config={entry.config}
+            activity={entry.activity}
+            detail={entry.detail}
+            sessionName={entry.sessionName}
+            isCurrent={entry.isCurrent}
+            onClick={entry.isCurrent
+              ? () => { useSessionStore.setState({ autoFollow: true }); requestCenter(); }
+              : splitMode
+                ? () => { setSecondarySession(entry.filePath); }
+                : () => { useSessionStore.setState({ centerOnLoad: true }); setActiveSession(entry.filePath); }}
+          />
+          {entry.isCurrent && currentWarnings.length > 0 && <ThrashWarnings warnings={currentWarnings} />}
+        </div>
       ))}
     </div>
   );
@@ -1,5 +1,10 @@
-import { useCallback, useState, useRef, useEffect, type CSSProperties, type ChangeEvent } from 'react';
-import { useSessionStore } from '../store/session-store';
+import { useCallback, useState, useRef, useEffect, type CSSProperties, type ChangeEvent, type KeyboardEvent } from 'react';
+import { useSessionStore, selectSearchMatchIds } from '../store/session-store';
+import { exportSession, EXPORT_EXTENSIONS, type ExportFormat } from '../store/export';
+import { parseNodeQuery, type SearchOptions } from '../store/node-query';
+import type { ImageFormat, ImageArea } from '../store/image-export';
+import { LAYOUT_ENGINES } from '../store/layout';
+import { lineageLength } from '../store/lineage';
 
 function formatTokens(n: number): string {
   if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
@@ -56,11 +61,30 @@ const searchStyle: CSSProperties = {
   borderRadius: 4,
   fontSize: 11,
   fontFamily: 'inherit',
-  width: 160,
+  width: 220,
   outline: 'none',
   transition: 'border-color 0.15s',
 };
 
+const matchCountStyle: CSSProperties = {
+  fontSize: 10,
+  color: '#64748b',
+  whiteSpace: 'nowrap',
+};
+
+const QUERY_HELP = [
+  'Text, or filters combined with AND:',
+  '  kind:thinking  tool:Bash  status:error  file:src/**',
+  '  after:14:00  before:2026-10-19  tokens>5k  exit:1',
+  'Prefix a term with - to negate it; quote phrases.',
+].join('\n');
+
+const SEARCH_MODES: { key: keyof SearchOptions; label: string; title: string }[] = [
+  { key: 'caseSensitive', label: 'Aa', title: 'Match case' },
+  { key: 'wholeWord', label: 'W', title: 'Match whole word' },
+  { key: 'regex', label: '.*', title: 'Use regular expressions' },
+];
+
 const statsStyle: CSSProperties = {
   marginLeft: 'auto',
   display: 'flex',
@@ -77,6 +101,47 @@ const costStyle: CSSProperties = {
   fontSize: 11,
 };
 
+const menuStyle: CSSProperties = {
+  position: 'absolute',
+  top: 'calc(100% + 4px)',
+  right: 0,
+  zIndex: 20,
+  display: 'flex',
+  flexDirection: 'column',
+  minWidth: 170,
+  padding: 4,
+  backgroundColor: '#12121a',
+  border: '1px solid #2a2a3e',
+  borderRadius: 4,
+  boxShadow: '0 4px 12px rgba(0, 0, 0, 0.5)',
+};
+
+const menuItemStyle: CSSProperties = {
+  ...btn,
+  border: 'none',
+  textAlign: 'left',
+  color: '#e0e0e0',
+};
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML page' },
+  { format: 'json', label: 'JSON' },
+];
+
+const IMAGE_OPTIONS: { format: ImageFormat; area: ImageArea; label: string }[] = [
+  { format: 'png', area: 'full', label: 'PNG \u2014 full graph' },
+  { format: 'png', area: 'viewport', label: 'PNG \u2014 viewport' },
+  { format: 'svg', area: 'full', label: 'SVG \u2014 full graph' },
+  { format: 'svg', area: 'viewport', label: 'SVG \u2014 viewport' },
+];
+
+const menuDividerStyle: CSSProperties = {
+  height: 1,
+  margin: '4px 0',
+  backgroundColor: '#2a2a3e',
+};
+
 export default function Toolbar() {
   const showThinking = useSessionStore(s => s.showThinking);
   const showText = useSessionStore(s => s.showText);
@@ -90,7 +155,16 @@ export default function Toolbar() {
   const nodeCount = useSessionStore(s => s.nodes.length);
   const searchQuery = useSessionStore(s => s.searchQuery);
   const setSearchQuery = useSessionStore(s => s.setSearchQuery);
+  const searchOptions = useSessionStore(s => s.searchOptions);
+  const setSearchOptions = useSessionStore(s => s.setSearchOptions);
+  const navigateSearchMatch = useSessionStore(s => s.navigateSearchMatch);
+  const searchMatchIds = useSessionStore(selectSearchMatchIds);
+  const selectedNodeId = useSessionStore(s => s.selectedNodeId);
+  const savedQueries = useSessionStore(s => s.savedQueries);
+  const saveQuery = useSessionStore(s => s.saveQuery);
+  const removeSavedQuery = useSessionStore(s => s.removeSavedQuery);
   const tokenStats = useSessionStore(s => s.tokenStats);
+  const pricingInfo = useSessionStore(s => s.pricingInfo);
   const isWindowed = useSessionStore(s => s.isWindowed);
   const totalMessageCount = useSessionStore(s => s.totalMessageCount);
   const loadFullSession = useSessionStore(s => s.loadFullSession);
@@ -98,6 +172,44 @@ export default function Toolbar() {
   const navigateToLastUserMessage = useSessionStore(s => s.navigateToLastUserMessage);
   const splitMode = useSessionStore(s => s.splitMode);
   const toggleSplitMode = useSessionStore(s => s.toggleSplitMode);
+  const showFilesPanel = useSessionStore(s => s.showFilesPanel);
+  const toggleFilesPanel = useSessionStore(s => s.toggleFilesPanel);
+  const showFailuresPanel = useSessionStore(s => s.showFailuresPanel);
+  const toggleFailuresPanel = useSessionStore(s => s.toggleFailuresPanel);
+  const showCostPanel = useSessionStore(s => s.showCostPanel);
+  const toggleCostPanel = useSessionStore(s => s.toggleCostPanel);
+  const showContextPanel = useSessionStore(s => s.showContextPanel);
+  const toggleContextPanel = useSessionStore(s => s.toggleContextPanel);
+  const showUsageDashboard = useSessionStore(s => s.showUsageDashboard);
+  const toggleUsageDashboard = useSessionStore(s => s.toggleUsageDashboard);
+  const showSearchPanel = useSessionStore(s => s.showSearchPanel);
+  const toggleSearchPanel = useSessionStore(s => s.toggleSearchPanel);
+  const layoutEngine = useSessionStore(s => s.layoutEngine);
+  const setLayoutEngine = useSessionStore(s => s.setLayoutEngine);
+  const layoutDirection = useSessionStore(s => s.layoutDirection);
+  const setLayoutDirection = useSessionStore(s => s.setLayoutDirection);
+  const stitchLineage = useSessionStore(s => s.stitchLineage);
+  const toggleStitchLineage = useSessionStore(s => s.toggleStitchLineage);
+  const lineageSize = useSessionStore(s => s.activeSessionPath ? lineageLength(s.sessions, s.activeSessionPath) : 1);
+
+  const [exportOpen, setExportOpen] = useState(false);
+  const [queriesOpen, setQueriesOpen] = useState(false);
+  const [imageAnimations, setImageAnimations] = useState(false);
+  const requestImageExport = useSessionStore(s => s.requestImageExport);
+  const onExport = useCallback((format: ExportFormat) => {
+    setExportOpen(false);
+    const state = useSessionStore.getState();
+    const session = state.sessions.find(s => s.filePath === state.activeSessionPath) ?? null;
+    const content = exportSession(format, {
+      nodes: state.nodes,
+      edges: state.edges,
+      session,
+      tokenStats: state.tokenStats,
+    });
+    const base = session ? session.sessionId.slice(0, 8) : 'session';
+    window.api.saveExport(`claude-session-${base}.${EXPORT_EXTENSIONS[format]}`, content)
+      .catch((err: Error) => window.alert(`Export failed: ${err.message}`));
+  }, []);
 
   // Debounced search: local state updates instantly, store updates after 200ms
   const [localSearch, setLocalSearch] = useState(searchQuery);
@@ -116,6 +228,28 @@ export default function Toolbar() {
     [setSearchQuery],
   );
 
+  const applyQuery = useCallback((query: string) => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    setLocalSearch(query);
+    setSearchQuery(query);
+    setQueriesOpen(false);
+  }, [setSearchQuery]);
+
+  const onSearchKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    // Flush a pending debounce so Enter right after typing navigates the new query
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+      debounceRef.current = null;
+      setSearchQuery(e.currentTarget.value);
+    }
+    navigateSearchMatch(e.shiftKey ? 'prev' : 'next');
+  }, [setSearchQuery, navigateSearchMatch]);
+
+  const queryErrors = parseNodeQuery(searchQuery, searchOptions).errors;
+  const currentMatch = selectedNodeId ? searchMatchIds.indexOf(selectedNodeId) + 1 : 0;
+
   return (
     <div style={toolbarStyle}>
       <div style={groupStyle}>
@@ -130,6 +264,42 @@ export default function Toolbar() {
         </button>
       </div>
       <div style={dividerStyle} />
+      <div style={groupStyle}>
+        {LAYOUT_ENGINES.map(engine => (
+          <button
+            key={engine.id}
+            style={layoutEngine === engine.id ? activeBtn : btn}
+            onClick={() => setLayoutEngine(engine.id)}
+            title={engine.title}
+          >
+            {engine.label}
+          </button>
+        ))}
+        {layoutEngine === 'tree' && (
+          <button
+            style={btn}
+            onClick={() => setLayoutDirection(layoutDirection === 'TB' ? 'LR' : 'TB')}
+            title={layoutDirection === 'TB' ? 'Tree grows downward \u2014 click for left to right' : 'Tree grows left to right \u2014 click for downward'}
+          >
+            {layoutDirection === 'TB' ? '\u2193' : '\u2192'}
+          </button>
+        )}
+      </div>
+      <div style={dividerStyle} />
+      {lineageSize > 1 && (
+        <>
+          <button
+            style={stitchLineage ? activeBtn : btn}
+            onClick={toggleStitchLineage}
+            title={stitchLineage
+              ? 'Showing every session of this compacted task as one graph \u2014 click to show this session alone'
+              : `This task continues across ${lineageSize} sessions after compaction \u2014 click to load them all as one graph`}
+          >
+            Stitched ({lineageSize})
+          </button>
+          <div style={dividerStyle} />
+        </>
+      )}
       <button style={autoFollow ? activeBtn : btn} onClick={toggleAutoFollow}>
         Auto-follow
       </button>
@@ -155,13 +325,102 @@ export default function Toolbar() {
       <div style={dividerStyle} />
       <input
         type="text"
-        placeholder="Search nodes..."
+        placeholder="Search nodes, or tool:Bash status:error..."
         value={localSearch}
         onChange={onSearchChange}
-        style={searchStyle}
-        onFocus={(e) => { e.currentTarget.style.borderColor = '#a855f7'; }}
-        onBlur={(e) => { e.currentTarget.style.borderColor = '#2a2a3e'; }}
+        onKeyDown={onSearchKeyDown}
+        style={queryErrors.length > 0 ? { ...searchStyle, borderColor: '#ff3d71' } : searchStyle}
+        title={queryErrors.length > 0 ? queryErrors.join('\n') : QUERY_HELP}
+        onFocus={(e) => { if (queryErrors.length === 0) e.currentTarget.style.borderColor = '#a855f7'; }}
+        onBlur={(e) => { if (queryErrors.length === 0) e.currentTarget.style.borderColor = '#2a2a3e'; }}
       />
+      <div style={groupStyle}>
+        {SEARCH_MODES.map(mode => (
+          <button
+            key={mode.key}
+            style={{ ...(searchOptions[mode.key] ? activeBtn : btn), padding: '4px 6px' }}
+            onClick={() => setSearchOptions({ [mode.key]: !searchOptions[mode.key] })}
+            title={mode.title}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      {searchQuery.trim() && (
+        <>
+          <span style={matchCountStyle}>
+            {searchMatchIds.length === 0
+              ? 'No matches'
+              : currentMatch > 0
+                ? `${currentMatch} of ${searchMatchIds.length}`
+                : `${searchMatchIds.length} match${searchMatchIds.length === 1 ? '' : 'es'}`}
+          </span>
+          <div style={groupStyle}>
+            <button
+              style={{ ...btn, padding: '4px 6px' }}
+              disabled={searchMatchIds.length === 0}
+              onClick={() => navigateSearchMatch('prev')}
+              title="Previous match (Shift+Enter)"
+            >
+              {'\u25B2'}
+            </button>
+            <button
+              style={{ ...btn, padding: '4px 6px' }}
+              disabled={searchMatchIds.length === 0}
+              onClick={() => navigateSearchMatch('next')}
+              title="Next match (Enter)"
+            >
+              {'\u25BC'}
+            </button>
+          </div>
+        </>
+      )}
+      <div style={{ position: 'relative' }}>
+        <button
+          style={queriesOpen ? activeBtn : btn}
+          onClick={() => setQueriesOpen(!queriesOpen)}
+          title="Saved queries"
+        >
+          {'\u2605'} {'\u25BE'}
+        </button>
+        {queriesOpen && (
+          <div style={{ ...menuStyle, left: 0, right: 'auto', minWidth: 240 }} onMouseLeave={() => setQueriesOpen(false)}>
+            <button
+              style={{ ...menuItemStyle, color: searchQuery.trim() ? '#a855f7' : '#475569' }}
+              disabled={!searchQuery.trim()}
+              onClick={() => { saveQuery(searchQuery); setQueriesOpen(false); }}
+            >
+              Save current query
+            </button>
+            {savedQueries.length > 0 && <div style={menuDividerStyle} />}
+            {savedQueries.map(q => (
+              <div key={q} style={{ display: 'flex', alignItems: 'center' }}>
+                <button
+                  style={{ ...menuItemStyle, flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                  onClick={() => applyQuery(q)}
+                  title={q}
+                >
+                  {q}
+                </button>
+                <button
+                  style={{ ...menuItemStyle, color: '#64748b', padding: '4px 6px' }}
+                  onClick={() => removeSavedQuery(q)}
+                  title="Remove saved query"
+                >
+                  {'\u2715'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <button
+        style={showSearchPanel ? activeBtn : btn}
+        onClick={toggleSearchPanel}
+        title="Full-text search across every session"
+      >
+        Search all
+      </button>
       <div style={dividerStyle} />
       {/* Split view toggle */}
       <button
@@ -171,6 +430,82 @@ export default function Toolbar() {
       >
         {'\u29C9'} Split
       </button>
+      <button
+        style={showFilesPanel ? activeBtn : btn}
+        onClick={toggleFilesPanel}
+        title="Files read and changed in this session"
+      >
+        Files
+      </button>
+      <button
+        style={showFailuresPanel ? activeBtn : btn}
+        onClick={toggleFailuresPanel}
+        title="Failing tool calls, retries and recurring errors"
+      >
+        Failures
+      </button>
+      <button
+        style={showCostPanel ? activeBtn : btn}
+        onClick={toggleCostPanel}
+        title="Cost by model, turn, triggering tool and token type"
+      >
+        Cost
+      </button>
+      <button
+        style={showContextPanel ? activeBtn : btn}
+        onClick={toggleContextPanel}
+        title="Context window usage per API call and when auto-compaction will trigger"
+      >
+        Context
+      </button>
+      <button
+        style={showUsageDashboard ? activeBtn : btn}
+        onClick={toggleUsageDashboard}
+        title="Token usage and spend across all sessions by day, project and model"
+      >
+        Usage
+      </button>
+      {nodeCount > 0 && (
+        <div style={{ position: 'relative' }}>
+          <button
+            style={exportOpen ? activeBtn : btn}
+            onClick={() => setExportOpen(!exportOpen)}
+            title="Export the visible graph"
+          >
+            Export {'\u25BE'}
+          </button>
+          {exportOpen && (
+            <div style={menuStyle} onMouseLeave={() => setExportOpen(false)}>
+              {EXPORT_OPTIONS.map(opt => (
+                <button key={opt.format} style={menuItemStyle} onClick={() => onExport(opt.format)}>
+                  {opt.label}
+                </button>
+              ))}
+              <div style={menuDividerStyle} />
+              {IMAGE_OPTIONS.map(opt => (
+                <button
+                  key={`${opt.format}-${opt.area}`}
+                  style={menuItemStyle}
+                  onClick={() => {
+                    setExportOpen(false);
+                    requestImageExport({ format: opt.format, area: opt.area, animations: imageAnimations });
+                  }}
+                >
+                  {opt.label}
+                </button>
+              ))}
+              <label style={{ ...menuItemStyle, display: 'flex', alignItems: 'center', gap: 6, color: '#888' }}>
+                <input
+                  type="checkbox"
+                  checked={imageAnimations}
+                  onChange={(e) => setImageAnimations(e.target.checked)}
+                />
+                Include animations
+              </label>
+            </div>
+          )}
+        </div>
+      )}
       <div style={statsStyle}>
         <span>{nodeCount} nodes</span>
         {isWindowed && (
@@ -193,6 +528,24 @@ export default function Toolbar() {
             <span>In: {formatTokens(tokenStats.inputTokens + tokenStats.cacheRead + tokenStats.cacheCreation)}</span>
             <span>Out: {formatTokens(tokenStats.outputTokens)}</span>
             <span style={costStyle}>${tokenStats.estimatedCost.toFixed(2)}</span>
+            {(tokenStats.unknownModels.length > 0 || pricingInfo.error) && (
+              <span
+                style={{ color: '#ff3d71', cursor: 'pointer' }}
+                onClick={() => {
+                  window.api.openPricingFile()
+                    .catch((err: Error) => window.alert(`Could not open the pricing file: ${err.message}`));
+                }}
+                title={[
+                  tokenStats.unknownModels.length > 0
+                    ? `No price for ${tokenStats.unknownModels.join(', ')} \u2014 costed at the default rate.`
+                    : '',
+                  pricingInfo.error ? `pricing.json: ${pricingInfo.error}` : '',
+                  `Click to edit ${pricingInfo.filePath || 'pricing.json'}`,
+                ].filter(Boolean).join('\n')}
+              >
+                {'\u26A0'} {tokenStats.unknownModels.length > 0 ? 'unknown model' : 'pricing error'}
+              </span>
+            )}
             <span style={{ color: '#38bdf8' }}>
               {((tokenStats.inputTokens + tokenStats.cacheRead + tokenStats.cacheCreation + tokenStats.outputTokens) / 1_000_000 * 0.5).toFixed(1)}ml
             </span>
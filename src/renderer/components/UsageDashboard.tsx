@@ -0,0 +1,332 @@
+import { useMemo, useState, type CSSProperties, type ReactNode } from 'react';
+import { useSessionStore } from '../store/session-store';
+import { aggregateUsage, formatDay, projectName, type DateRange, type UsageRow } from '../store/usage-aggregate';
+
+const overlayStyle: CSSProperties = {
+  position: 'absolute',
+  inset: 0,
+  zIndex: 10,
+  backgroundColor: '#0a0a0f',
+  overflowY: 'auto',
+  padding: '16px 24px',
+};
+
+const headerStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 12,
+  marginBottom: 4,
+  fontSize: 14,
+  fontWeight: 'bold',
+  color: '#e0e0e0',
+};
+
+const closeBtnStyle: CSSProperties = {
+  marginLeft: 'auto',
+  background: 'transparent',
+  border: 'none',
+  color: '#888',
+  cursor: 'pointer',
+  fontSize: 16,
+  padding: 4,
+};
+
+const summaryStyle: CSSProperties = {
+  fontSize: 11,
+  color: '#64748b',
+  marginBottom: 14,
+};
+
+const rangeBtn: CSSProperties = {
+  padding: '3px 8px',
+  backgroundColor: 'transparent',
+  color: '#888',
+  border: '1px solid #2a2a3e',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontSize: 11,
+  fontFamily: 'inherit',
+};
+
+const activeRangeBtn: CSSProperties = {
+  ...rangeBtn,
+  color: '#e0e0e0',
+  borderColor: '#a855f7',
+  backgroundColor: 'rgba(168, 85, 247, 0.1)',
+};
+
+const dateInputStyle: CSSProperties = {
+  padding: '2px 6px',
+  backgroundColor: '#0a0a0f',
+  color: '#e0e0e0',
+  border: '1px solid #2a2a3e',
+  borderRadius: 4,
+  fontSize: 11,
+  fontFamily: 'inherit',
+  colorScheme: 'dark',
+};
+
+const sectionTitleStyle: CSSProperties = {
+  fontSize: 10,
+  fontWeight: 700,
+  color: '#64748b',
+  textTransform: 'uppercase',
+  letterSpacing: 0.5,
+  margin: '18px 0 6px',
+};
+
+const rowStyle: CSSProperties = {
+  position: 'relative',
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '4px 8px',
+  fontSize: 11,
+  color: '#cbd5e1',
+  borderRadius: 4,
+  overflow: 'hidden',
+};
+
+const cellStyle: CSSProperties = {
+  padding: '4px 8px',
+  textAlign: 'right',
+  whiteSpace: 'nowrap',
+};
+
+const CHART_HEIGHT = 90;
+
+type Preset = '7d' | '30d' | '90d' | 'all' | 'custom';
+
+const PRESETS: { key: Preset; label: string; days: number | null }[] = [
+  { key: '7d', label: '7 days', days: 7 },
+  { key: '30d', label: '30 days', days: 30 },
+  { key: '90d', label: '90 days', days: 90 },
+  { key: 'all', label: 'All time', days: null },
+];
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
+  if (n >= 1_000) return (n / 1_000).toFixed(1) + 'k';
+  return String(n);
+}
+
+function formatCost(n: number): string {
+  if (n > 0 && n < 0.01) return '<$0.01';
+  return '$' + n.toFixed(2);
+}
+
+function shortDay(day: string): string {
+  return day.slice(5).replace('-', '/');
+}
+
+function presetRange(days: number | null): DateRange {
+  if (days === null) return { from: null, to: null };
+  const from = new Date();
+  from.setDate(from.getDate() - (days - 1));
+  return { from: formatDay(from), to: null };
+}
+
+/** Row with a background bar proportional to its share of the total. */
+function BarRow({ share, color, children, title }: {
+  share: number;
+  color: string;
+  children: ReactNode;
+  title?: string;
+}) {
+  return (
+    <div style={rowStyle} title={title}>
+      <div style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        bottom: 0,
+        width: `${Math.max(0, Math.min(1, share)) * 100}%`,
+        backgroundColor: color,
+        opacity: 0.12,
+        pointerEvents: 'none',
+      }} />
+      {children}
+    </div>
+  );
+}
+
+function UsageRows({ rows, total, color, label }: {
+  rows: UsageRow[];
+  total: number;
+  color: string;
+  label: (key: string) => string;
+}) {
+  return (
+    <>
+      {rows.map(r => (
+        <BarRow key={r.key} share={r.cost / total} color={color} title={`${r.key}\n${r.calls} API calls`}>
+          <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {label(r.key)}
+          </span>
+          <span style={{ color: '#64748b', width: 70, textAlign: 'right', flexShrink: 0 }}>
+            {r.sessions} session{r.sessions === 1 ? '' : 's'}
+          </span>
+          <span style={{ color: '#64748b', width: 96, textAlign: 'right', flexShrink: 0 }}>
+            {formatTokens(r.inputTokens)} / {formatTokens(r.outputTokens)}
+          </span>
+          <span style={{ color: '#fbbf24', width: 64, textAlign: 'right', flexShrink: 0 }}>{formatCost(r.cost)}</span>
+        </BarRow>
+      ))}
+    </>
+  );
+}
+
+/** Daily cost bars on an even time axis. */
+function DailyChart({ days }: { days: UsageRow[] }) {
+  if (days.length === 0) return null;
+  const max = Math.max(1e-9, ...days.map(d => d.cost));
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: CHART_HEIGHT }}>
+        {days.map(d => (
+          <div
+            key={d.key}
+            title={`${d.key}\n${formatCost(d.cost)} \u00B7 ${d.sessions} sessions \u00B7 ${d.calls} calls`}
+            style={{
+              flex: 1,
+              minWidth: 2,
+              height: `${Math.max(d.cost > 0 ? 2 : 0, (d.cost / max) * 100)}%`,
+              backgroundColor: '#fbbf24',
+              opacity: 0.7,
+              borderRadius: '2px 2px 0 0',
+            }}
+          />
+        ))}
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 9, color: '#475569', marginTop: 2 }}>
+        <span>{shortDay(days[0].key)}</span>
+        <span>daily cost</span>
+        <span>{shortDay(days[days.length - 1].key)}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function UsageDashboard() {
+  const usageIndex = useSessionStore(s => s.usageIndex);
+  const pricing = useSessionStore(s => s.pricingInfo.table);
+  const toggleUsageDashboard = useSessionStore(s => s.toggleUsageDashboard);
+  const [preset, setPreset] = useState<Preset>('30d');
+  const [range, setRange] = useState<DateRange>(() => presetRange(30));
+
+  const agg = useMemo(
+    () => aggregateUsage(usageIndex.sessions, pricing, range),
+    [usageIndex.sessions, pricing, range],
+  );
+  const { status } = usageIndex;
+  const totalCost = Math.max(agg.total.cost, 1e-9);
+  const maxWeekCell = Math.max(1e-9, ...agg.weeklyByProject.flatMap(p => p.weeks));
+
+  return (
+    <div style={overlayStyle}>
+      <div style={headerStyle}>
+        <span>Usage across sessions</span>
+        {status.indexing && (
+          <span style={{ fontSize: 11, fontWeight: 'normal', color: '#a855f7' }}>
+            Indexing {status.done}/{status.total}{'\u2026'}
+          </span>
+        )}
+        <button onClick={toggleUsageDashboard} style={closeBtnStyle} title="Back to the mind map">
+          {'\u2715'}
+        </button>
+      </div>
+      <div style={summaryStyle}>
+        <span style={{ color: '#fbbf24' }}>{formatCost(agg.total.cost)}</span> &middot; {agg.total.sessions} sessions
+        &middot; {agg.total.calls} API calls &middot; {formatTokens(agg.total.inputTokens)} in / {formatTokens(agg.total.outputTokens)} out
+        {agg.unknownModels.length > 0 && (
+          <span style={{ color: '#f97316' }} title={agg.unknownModels.join('\n')}>
+            {' '}&middot; {agg.unknownModels.length} model{agg.unknownModels.length === 1 ? '' : 's'} at default rate
+          </span>
+        )}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 4, flexWrap: 'wrap' }}>
+        {PRESETS.map(p => (
+          <button
+            key={p.key}
+            style={preset === p.key ? activeRangeBtn : rangeBtn}
+            onClick={() => { setPreset(p.key); setRange(presetRange(p.days)); }}
+          >
+            {p.label}
+          </button>
+        ))}
+        <span style={{ width: 8 }} />
+        <input
+          type="date"
+          style={dateInputStyle}
+          value={range.from ?? ''}
+          onChange={(e) => { setPreset('custom'); setRange({ ...range, from: e.target.value || null }); }}
+        />
+        <span style={{ fontSize: 11, color: '#64748b' }}>to</span>
+        <input
+          type="date"
+          style={dateInputStyle}
+          value={range.to ?? ''}
+          onChange={(e) => { setPreset('custom'); setRange({ ...range, to: e.target.value || null }); }}
+        />
+      </div>
+
+      {agg.total.calls === 0 ? (
+        <div style={{ fontSize: 12, color: '#64748b', marginTop: 16 }}>
+          {status.indexing ? 'Still indexing sessions\u2026' : 'No API usage in this date range.'}
+        </div>
+      ) : (
+        <>
+          <div style={sectionTitleStyle}>By day</div>
+          <DailyChart days={agg.byDay} />
+
+          <div style={sectionTitleStyle}>Weekly spend by project</div>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ borderCollapse: 'collapse', fontSize: 11, color: '#cbd5e1' }}>
+              <thead>
+                <tr style={{ color: '#64748b' }}>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}>Project</th>
+                  {agg.weeks.map(w => (
+                    <th key={w} style={cellStyle} title={`Week of ${w}`}>{shortDay(w)}</th>
+                  ))}
+                  <th style={cellStyle}>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {agg.weeklyByProject.map(p => (
+                  <tr key={p.project} style={{ borderTop: '1px solid #1a1a2e' }}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }} title={p.project}>{projectName(p.project)}</td>
+                    {p.weeks.map((cost, i) => (
+                      <td
+                        key={agg.weeks[i]}
+                        style={{
+                          ...cellStyle,
+                          color: cost > 0 ? '#fbbf24' : '#334155',
+                          backgroundColor: `rgba(251, 191, 36, ${(cost / maxWeekCell) * 0.2})`,
+                        }}
+                      >
+                        {cost > 0 ? formatCost(cost) : '\u2014'}
+                      </td>
+                    ))}
+                    <td style={{ ...cellStyle, color: '#fbbf24', fontWeight: 600 }}>{formatCost(p.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ display: 'flex', gap: 24, flexWrap: 'wrap' }}>
+            <div style={{ flex: 1, minWidth: 360 }}>
+              <div style={sectionTitleStyle}>By project</div>
+              <UsageRows rows={agg.byProject} total={totalCost} color="#34d399" label={projectName} />
+            </div>
+            <div style={{ flex: 1, minWidth: 360 }}>
+              <div style={sectionTitleStyle}>By model</div>
+              <UsageRows rows={agg.byModel} total={totalCost} color="#a855f7" label={(m) => m} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
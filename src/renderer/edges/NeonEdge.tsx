@@ -48,7 +48,9 @@ function NeonEdge(props: EdgeProps) {
   const edgeData = data as Record<string, unknown> | undefined;
   const color = TOOL_COLORS[edgeData?.toolName as string || ''] || TOOL_COLORS.default;
   const totalEdges = (edgeData?.totalEdges as number) || 0;
-  const showParticles = totalEdges < 200;
+  // Edges into abandoned branches are drawn faded and dashed, without particles
+  const abandoned = edgeData?.abandoned === true;
+  const showParticles = totalEdges < 200 && !abandoned;
 
   // Calculate duration based on path length for consistent speed
   const dur = useMemo(() => {
@@ -62,7 +64,7 @@ function NeonEdge(props: EdgeProps) {
   const begin2 = `${(dur * 0.45).toFixed(2)}s`;
 
   return (
-    <g>
+    <g className={abandoned ? 'neon-edge-abandoned' : undefined}>
       {/* Glow layer */}
       <path
         d={edgePath}
@@ -1,6 +1,9 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useSessionStore, detectActivity } from '../store/session-store';
-import { SessionInfo, JSONLMessage } from '../../shared/types';
+import { attentionState, notificationFor, type AttentionState } from '../store/session-notifications';
+import { lineageAncestors } from '../store/lineage';
+import { SessionInfo, JSONLMessage, SubagentTranscript, UsageIndexSnapshot, UsageIndexStatus, GlobalSearchResponse } from '../../shared/types';
+import type { PricingInfo } from '../../shared/pricing';
 
 declare global {
   interface Window {
@@ -8,6 +11,18 @@ declare global {
       discoverSessions: () => Promise<SessionInfo[]>;
       watchSession: (filePath: string) => Promise<any[]>;
       stopWatching: () => Promise<void>;
+      loadSubagents: (filePath: string) => Promise<SubagentTranscript[]>;
+      readSessions: (filePaths: string[]) => Promise<JSONLMessage[][]>;
+      saveExport: (defaultName: string, content: string | Uint8Array) => Promise<string | null>;
+      getPricing: () => Promise<PricingInfo>;
+      openPricingFile: () => Promise<void>;
+      openSettingsFile: () => Promise<void>;
+      onPricingUpdated: (cb: (info: PricingInfo) => void) => () => void;
+      getUsageIndex: () => Promise<UsageIndexSnapshot>;
+      searchSessions: (query: string) => Promise<GlobalSearchResponse>;
+      notifySession: (notification: { filePath: string; title: string; body: string }) => Promise<boolean>;
+      onOpenSession: (cb: (filePath: string) => void) => () => void;
+      onUsageIndex: (onProgress: (status: UsageIndexStatus) => void, onUpdated: (snapshot: UsageIndexSnapshot) => void) => () => void;
       onNewMessages: (cb: (messages: any[]) => void) => () => void;
       peekSessionActivity: (filePaths: string[]) => Promise<{ filePath: string; tailMessages: any[]; lastUserPrompt: string | null; fileMtime: number }[]>;
       watchSecondarySession: (filePath: string) => Promise<any[]>;
@@ -59,6 +74,39 @@ function findLastAssistantText(messages: any[]): string | null {
   return null;
 }
 
+/** True when a message shows a subagent running or finishing (its transcript changed). */
+function hasSubagentActivity(msg: any): boolean {
+  if (msg.isSidechain) return true;
+  if (msg.type === 'progress' && msg.parentToolUseID) return true;
+  return !!msg.toolUseResult?.agentId;
+}
+
+/**
+ * Fire a desktop notification for each session that just started waiting on
+ * the user, asking a question or compacting. Skips muted sessions and the
+ * session already on screen in a focused window.
+ */
+function notifyTransitions(
+  activities: Map<string, { activity: any; detail?: string; sessionName: string; lastReply?: string }>,
+  seen: Map<string, AttentionState | null>,
+): void {
+  const { activeSessionPath, mutedSessions } = useSessionStore.getState();
+  for (const [filePath, info] of activities) {
+    const next = attentionState(info);
+    const known = seen.has(filePath);
+    const prev = seen.get(filePath) ?? null;
+    seen.set(filePath, next);
+    if (!known || mutedSessions.includes(filePath)) continue;
+    if (filePath === activeSessionPath && document.hasFocus()) continue;
+    const notification = notificationFor(prev, next, info.sessionName, info.lastReply);
+    if (notification) window.api.notifySession({ filePath, ...notification }).catch(() => {});
+  }
+  // Forget sessions that are no longer active
+  for (const filePath of [...seen.keys()]) {
+    if (!activities.has(filePath)) seen.delete(filePath);
+  }
+}
+
 // Module-level counter so only the latest request wins,
 // even across StrictMode double-invocations.
 let requestGeneration = 0;
@@ -70,10 +118,38 @@ export function useSessionWatcher(): void {
   const activeSessionPath = useSessionStore((s) => s.activeSessionPath);
   const sessions = useSessionStore((s) => s.sessions);
   const setBackgroundActivities = useSessionStore((s) => s.setBackgroundActivities);
+  const setSubagentTranscripts = useSessionStore((s) => s.setSubagentTranscripts);
+  const setLineageMessages = useSessionStore((s) => s.setLineageMessages);
+  const stitchLineage = useSessionStore((s) => s.stitchLineage);
+  const setPricing = useSessionStore((s) => s.setPricing);
+  const setUsageIndex = useSessionStore((s) => s.setUsageIndex);
+  const setUsageIndexStatus = useSessionStore((s) => s.setUsageIndexStatus);
+
+  const setActiveSession = useSessionStore((s) => s.setActiveSession);
 
   const appendRef = useRef(appendMessages);
   appendRef.current = appendMessages;
 
+  // Subagent transcripts live in separate files. Reload them once the session
+  // loads, and (throttled) whenever appended messages show subagent activity.
+  const subagentTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleSubagentReload = useCallback((delay: number) => {
+    if (subagentTimerRef.current) return;
+    subagentTimerRef.current = setTimeout(() => {
+      subagentTimerRef.current = null;
+      const path = useSessionStore.getState().activeSessionPath;
+      if (!path) return;
+      window.api.loadSubagents(path)
+        .then((transcripts) => {
+          if (useSessionStore.getState().activeSessionPath !== path) return; // stale
+          setSubagentTranscripts(transcripts);
+        })
+        .catch(() => {});
+    }, delay);
+  }, [setSubagentTranscripts]);
+  const subagentReloadRef = useRef(scheduleSubagentReload);
+  subagentReloadRef.current = scheduleSubagentReload;
+
   // Batched append: buffer incoming messages, flush after 100ms idle
   const pendingRef = useRef<JSONLMessage[]>([]);
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -84,6 +160,7 @@ export function useSessionWatcher(): void {
       const batch = pendingRef.current;
       pendingRef.current = [];
       appendRef.current(batch);
+      if (batch.some(hasSubagentActivity)) subagentReloadRef.current(2000);
     }
   }, []);
 
@@ -97,6 +174,32 @@ export function useSessionWatcher(): void {
     return () => clearInterval(interval);
   }, [setSessions]);
 
+  // Load the pricing table once and follow edits to pricing.json
+  useEffect(() => {
+    window.api.getPricing().then(setPricing).catch(() => {});
+    return window.api.onPricingUpdated(setPricing);
+  }, [setPricing]);
+
+  // Follow the main process's cross-session usage index as it fills in
+  useEffect(() => {
+    window.api.getUsageIndex().then(setUsageIndex).catch(() => {});
+    return window.api.onUsageIndex(setUsageIndexStatus, setUsageIndex);
+  }, [setUsageIndex, setUsageIndexStatus]);
+
+  // Clicking a desktop notification or a tray menu entry opens that session
+  useEffect(() => {
+    return window.api.onOpenSession((filePath) => {
+      useSessionStore.setState({ showUsageDashboard: false });
+      if (useSessionStore.getState().activeSessionPath === filePath) return;
+      useSessionStore.setState({ centerOnLoad: true });
+      setActiveSession(filePath);
+    });
+  }, [setActiveSession]);
+
+  // Last attention state seen per session, so only transitions notify.
+  // Sessions seen for the first time are recorded without notifying.
+  const attentionRef = useRef(new Map<string, AttentionState | null>());
+
   // Register the new-messages listener once for incremental updates.
   // Uses batched append to avoid multiple fullRebuilds per second.
   useEffect(() => {
@@ -142,6 +245,7 @@ export function useSessionWatcher(): void {
 
         if (messages.length > 0) {
           setMessages(messages);
+          scheduleSubagentReload(0);
         } else {
           // File might have been briefly locked (Windows) or unreadable.
           // Retry once after a short delay.
@@ -151,13 +255,31 @@ export function useSessionWatcher(): void {
               .then((retryMessages) => {
                 if (gen !== requestGeneration) return;
                 setMessages(retryMessages);
+                scheduleSubagentReload(0);
               })
               .catch(() => {});
           }, 500);
         }
       })
       .catch(() => {});
-  }, [activeSessionPath, setMessages]);
+  }, [activeSessionPath, setMessages, scheduleSubagentReload]);
+
+  // Stitched lineage: read the earlier sessions of the active one (they have
+  // ended, so no watcher) and put them ahead of its own messages
+  const ancestorKey = stitchLineage && activeSessionPath
+    ? lineageAncestors(sessions, activeSessionPath).map((s) => s.filePath).join('\n')
+    : '';
+  useEffect(() => {
+    if (!activeSessionPath) return;
+    const paths = ancestorKey ? ancestorKey.split('\n') : [];
+    if (paths.length === 0) {
+      setLineageMessages(activeSessionPath, [], []);
+      return;
+    }
+    window.api.readSessions(paths)
+      .then((files) => setLineageMessages(activeSessionPath, paths, files))
+      .catch(() => {});
+  }, [activeSessionPath, ancestorKey, setLineageMessages]);
 
   // Poll background sessions for activity every 3 seconds
   useEffect(() => {
@@ -192,6 +314,7 @@ export function useSessionWatcher(): void {
           map.set(r.filePath, { activity, detail, sessionName: lastPrompt || fallback, lastReply: lastReply || undefined });
         }
         setBackgroundActivities(map);
+        notifyTransitions(map, attentionRef.current);
       }).catch(() => {});
     };
 
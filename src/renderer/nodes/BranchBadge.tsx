@@ -0,0 +1,46 @@
+import type { MouseEvent } from 'react';
+import { useSessionStore } from '../store/session-store';
+import type { GraphNode } from '../../shared/types';
+
+const FORK_ICON = '\u2442';
+
+/**
+ * Fork nodes: which attempt is the main line, click to cycle to the next.
+ * First node of an abandoned attempt: click to make it the main line.
+ */
+export default function BranchBadge({ node }: { node: GraphNode }) {
+  const selectBranch = useSessionStore((s) => s.selectBranch);
+
+  const point = node.branchPoint;
+  if (point) {
+    const count = point.branchUuids.length;
+    const onClick = (e: MouseEvent) => {
+      e.stopPropagation();
+      selectBranch(point.forkUuid, point.branchUuids[(point.mainIndex + 1) % count]);
+    };
+    return (
+      <div
+        className="branch-badge"
+        onClick={onClick}
+        title={`Branch point: ${count} attempts continue from here (rewind or edited prompt). Attempt ${point.mainIndex + 1} is the main line \u2014 click to switch to the next.`}
+      >
+        {FORK_ICON} {point.mainIndex + 1}/{count}
+      </div>
+    );
+  }
+
+  const branch = node.abandonedBranch;
+  if (branch && branch.branchUuid === node.id) {
+    const onClick = (e: MouseEvent) => {
+      e.stopPropagation();
+      selectBranch(branch.forkUuid, branch.branchUuid);
+    };
+    return (
+      <div className="branch-badge" onClick={onClick} title={'Abandoned attempt \u2014 click to make it the main line'}>
+        {FORK_ICON} attempt {branch.index + 1} {'\u00B7'} use as main
+      </div>
+    );
+  }
+
+  return null;
+}
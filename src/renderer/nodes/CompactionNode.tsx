@@ -2,8 +2,10 @@ import { memo } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { motion } from 'framer-motion';
 import type { GraphNode } from '../../shared/types';
+import HighlightedText from '../components/HighlightedText';
+import { auditHeadline } from '../store/compaction-summary';
 
-function CompactionNode({ data }: NodeProps) {
+function CompactionNode({ data, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps) {
   const gn = data as unknown as GraphNode;
   const dimmed = gn.searchMatch === false && gn.searchMatch !== undefined;
   const needsAnimation = gn.isNew || dimmed;
@@ -13,13 +15,18 @@ function CompactionNode({ data }: NodeProps) {
 
   const content = (
     <>
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
       <div className="node-header">
         <span className="node-icon">{'\uD83D\uDDDC'}</span>
         <span>Conversation Compacted</span>
       </div>
-      <div className="node-label">{gn.label}</div>
-      <Handle type="source" position={Position.Bottom} />
+      <div className="node-label"><HighlightedText text={gn.label} enabled={!!gn.searchMatch} /></div>
+      {gn.compactSummary && (
+        <div className="compaction-audit" title="Select the node to see which files and todos the summary kept">
+          {auditHeadline(gn.compactSummary)}
+        </div>
+      )}
+      <Handle type="source" position={sourcePosition} />
     </>
   );
 
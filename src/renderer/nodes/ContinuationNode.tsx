@@ -0,0 +1,28 @@
+import { memo } from 'react';
+import { Handle, Position, type NodeProps } from '@xyflow/react';
+import type { GraphNode } from '../../shared/types';
+import HighlightedText from '../components/HighlightedText';
+import SessionLinkButton from './SessionLinkButton';
+
+/** Start of a session that continues a compacted one; links back to it. */
+function ContinuationNode({ data, sourcePosition = Position.Bottom }: NodeProps) {
+  const gn = data as unknown as GraphNode;
+  const dimmed = gn.searchMatch === false && gn.searchMatch !== undefined;
+
+  const className = `mind-map-node session-end-node session-end-compacted continuation-node ${gn.searchMatch ? 'search-match' : ''}`;
+  const style = { '--pulse-color': '#fbbf24', opacity: dimmed ? 0.3 : 1 } as React.CSSProperties;
+
+  return (
+    <div className={className} style={style}>
+      <div className="node-header">
+        <span className="node-icon">{'\u21A9'}</span>
+        <span>{gn.label}</span>
+      </div>
+      <div className="node-label"><HighlightedText text={gn.detail} enabled={!!gn.searchMatch} /></div>
+      {gn.linkedSession && <SessionLinkButton link={gn.linkedSession} direction="from" />}
+      <Handle type="source" position={sourcePosition} />
+    </div>
+  );
+}
+
+export default memo(ContinuationNode);
@@ -2,8 +2,9 @@ import { memo } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { motion } from 'framer-motion';
 import type { GraphNode } from '../../shared/types';
+import HighlightedText from '../components/HighlightedText';
 
-function QueueNode({ data }: NodeProps) {
+function QueueNode({ data, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps) {
   const gn = data as unknown as GraphNode;
 
   return (
@@ -14,13 +15,13 @@ function QueueNode({ data }: NodeProps) {
       className="mind-map-node queue-node"
       style={{ '--pulse-color': '#fbbf24' } as React.CSSProperties}
     >
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
       <div className="node-header">
         <span className="node-icon">{'\u231B'}</span>
         <span>Queued</span>
       </div>
-      <div className="node-label">{gn.label}</div>
-      <Handle type="source" position={Position.Bottom} />
+      <div className="node-label"><HighlightedText text={gn.label} enabled={!!gn.searchMatch} /></div>
+      <Handle type="source" position={sourcePosition} />
     </motion.div>
   );
 }
@@ -2,8 +2,10 @@ import { memo } from 'react';
 import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { motion } from 'framer-motion';
 import type { GraphNode } from '../../shared/types';
+import HighlightedText from '../components/HighlightedText';
+import SessionLinkButton from './SessionLinkButton';
 
-function SessionEndNode({ data }: NodeProps) {
+function SessionEndNode({ data, targetPosition = Position.Top }: NodeProps) {
   const gn = data as unknown as GraphNode;
   const dimmed = gn.searchMatch === false && gn.searchMatch !== undefined;
   const isCompacted = gn.endReason === 'compacted';
@@ -14,12 +16,13 @@ function SessionEndNode({ data }: NodeProps) {
 
   const content = (
     <>
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
       <div className="node-header">
         <span className="node-icon">{isCompacted ? '\uD83D\uDCE6' : '\u23F9'}</span>
         <span>{gn.label}</span>
       </div>
-      <div className="node-label">{gn.detail}</div>
+      <div className="node-label"><HighlightedText text={gn.detail} enabled={!!gn.searchMatch} /></div>
+      {gn.linkedSession && <SessionLinkButton link={gn.linkedSession} direction="in" />}
     </>
   );
 
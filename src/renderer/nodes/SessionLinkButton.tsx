@@ -0,0 +1,17 @@
+import type { MouseEvent } from 'react';
+import { useSessionStore } from '../store/session-store';
+import type { SessionLink } from '../../shared/types';
+
+/** Opens the previous or next session of a compaction lineage. */
+export default function SessionLinkButton({ link, direction }: { link: SessionLink; direction: 'from' | 'in' }) {
+  const openLinkedSession = useSessionStore((s) => s.openLinkedSession);
+  const onClick = (e: MouseEvent) => {
+    e.stopPropagation();
+    openLinkedSession(link.filePath);
+  };
+  return (
+    <button className="session-link-button" onClick={onClick} title={`Open the session: ${link.title}`}>
+      {direction === 'from' ? '\u2190 continued from' : 'continued in \u2192'}
+    </button>
+  );
+}
@@ -3,8 +3,10 @@ import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { motion } from 'framer-motion';
 import type { GraphNode } from '../../shared/types';
 import CollapseButton from './CollapseButton';
+import BranchBadge from './BranchBadge';
+import HighlightedText from '../components/HighlightedText';
 
-function SystemNode({ data, id }: NodeProps) {
+function SystemNode({ data, id, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps) {
   const gn = data as unknown as GraphNode;
   const dimmed = gn.searchMatch === false && gn.searchMatch !== undefined;
   const needsAnimation = gn.isNew || dimmed;
@@ -14,14 +16,15 @@ function SystemNode({ data, id }: NodeProps) {
 
   const content = (
     <>
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
       <div className="node-header">
         <span className="node-icon">{'\u23F1'}</span>
         <span>System</span>
       </div>
-      <div className="node-label">{gn.label}</div>
-      <Handle type="source" position={Position.Bottom} />
+      <div className="node-label"><HighlightedText text={gn.label} enabled={!!gn.searchMatch} /></div>
+      <Handle type="source" position={sourcePosition} />
       <CollapseButton nodeId={id} childCount={gn.childCount || 0} collapsed={gn.collapsed || false} />
+      <BranchBadge node={gn} />
     </>
   );
 
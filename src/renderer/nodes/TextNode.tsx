@@ -3,10 +3,12 @@ import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { motion } from 'framer-motion';
 import type { GraphNode } from '../../shared/types';
 import CollapseButton from './CollapseButton';
+import BranchBadge from './BranchBadge';
 import ExpandNavButtons from './ExpandNavButtons';
 import { formatTokensBadge } from './tokenBadge';
+import HighlightedText from '../components/HighlightedText';
 
-function TextNode({ data, id }: NodeProps) {
+function TextNode({ data, id, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps) {
   const gn = data as unknown as GraphNode & { isExpanded?: boolean };
   const dimmed = gn.searchMatch === false && gn.searchMatch !== undefined;
   const needsAnimation = gn.isNew || dimmed;
@@ -16,16 +18,16 @@ function TextNode({ data, id }: NodeProps) {
 
   const content = (
     <>
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
       <div className="node-header">
         <span className="node-icon">{'\uD83D\uDCAC'}</span>
         <span>Response</span>
         {formatTokensBadge(gn)}
       </div>
       {gn.isExpanded ? (
-        <div className="node-expanded-content">{gn.detail || gn.label}</div>
+        <div className="node-expanded-content"><HighlightedText text={gn.detail || gn.label} enabled={!!gn.searchMatch} /></div>
       ) : (
-        <div className="node-label">{gn.label}</div>
+        <div className="node-label"><HighlightedText text={gn.label} enabled={!!gn.searchMatch} /></div>
       )}
       {gn.isLastMessage && !gn.isExpanded && (
         <div className="waiting-badge">
@@ -33,8 +35,9 @@ function TextNode({ data, id }: NodeProps) {
           <span>{'\u23F3'} Waiting for you</span>
         </div>
       )}
-      <Handle type="source" position={Position.Bottom} />
+      <Handle type="source" position={sourcePosition} />
       <CollapseButton nodeId={id} childCount={gn.childCount || 0} collapsed={gn.collapsed || false} />
+      <BranchBadge node={gn} />
       {gn.isExpanded && <ExpandNavButtons />}
     </>
   );
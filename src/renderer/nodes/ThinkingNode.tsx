@@ -4,12 +4,14 @@ import { motion } from 'framer-motion';
 import type { GraphNode } from '../../shared/types';
 import { useSessionStore } from '../store/session-store';
 import CollapseButton from './CollapseButton';
+import BranchBadge from './BranchBadge';
 import ExpandNavButtons from './ExpandNavButtons';
 import { formatTokensBadge } from './tokenBadge';
+import HighlightedText from '../components/HighlightedText';
 
 const MAX_LABEL_LENGTH = 120;
 
-function ThinkingNode({ data, id }: NodeProps) {
+function ThinkingNode({ data, id, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps) {
   const gn = data as unknown as GraphNode & { isExpanded?: boolean };
 
   // Derived boolean selector — only re-renders when the result changes
@@ -32,7 +34,7 @@ function ThinkingNode({ data, id }: NodeProps) {
 
   const content = (
     <>
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
       <div className="node-header">
         <span className="node-icon">{isActive ? '\uD83E\uDDE0' : '\uD83D\uDCAD'}</span>
         <span>{isActive ? 'Thinking...' : 'Thinking'}</span>
@@ -40,12 +42,13 @@ function ThinkingNode({ data, id }: NodeProps) {
         {formatTokensBadge(gn)}
       </div>
       {gn.isExpanded ? (
-        <div className="node-expanded-content">{gn.detail || gn.label}</div>
+        <div className="node-expanded-content"><HighlightedText text={gn.detail || gn.label} enabled={!!gn.searchMatch} /></div>
       ) : (
-        <div className="node-label">{truncated}</div>
+        <div className="node-label"><HighlightedText text={truncated} enabled={!!gn.searchMatch} /></div>
       )}
-      <Handle type="source" position={Position.Bottom} />
+      <Handle type="source" position={sourcePosition} />
       <CollapseButton nodeId={id} childCount={gn.childCount || 0} collapsed={gn.collapsed || false} />
+      <BranchBadge node={gn} />
       {gn.isExpanded && <ExpandNavButtons />}
     </>
   );
@@ -3,13 +3,22 @@ import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { motion } from 'framer-motion';
 import { GraphNode, TOOL_COLORS } from '../../shared/types';
 import CollapseButton from './CollapseButton';
+import BranchBadge from './BranchBadge';
 import ExpandNavButtons from './ExpandNavButtons';
 import { formatTokensBadge } from './tokenBadge';
+import DiffView from '../components/DiffView';
+import HighlightedText from '../components/HighlightedText';
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
+  if (n >= 1_000) return (n / 1_000).toFixed(1) + 'k';
+  return String(n);
+}
 
 const TOOL_ICONS: Record<string, string> = {
-  Bash: '\u26A1', Read: '\uD83D\uDCD6', Edit: '\u270F\uFE0F', Write: '\uD83D\uDCDD',
+  Bash: '\u26A1', Read: '\uD83D\uDCD6', Edit: '\u270F\uFE0F', MultiEdit: '\u270F\uFE0F', Write: '\uD83D\uDCDD',
   Grep: '\uD83D\uDD0D', Glob: '\uD83D\uDCC2', WebFetch: '\uD83C\uDF10', WebSearch: '\uD83D\uDD0E',
-  Task: '\uD83D\uDE80', Skill: '\u2B50', AskUserQuestion: '\u2753',
+  Task: '\uD83D\uDE80', Agent: '\uD83D\uDE80', Skill: '\u2B50', AskUserQuestion: '\u2753',
 };
 
 /** Turn long MCP tool names into readable short names.
@@ -29,7 +38,7 @@ function formatToolDisplayName(name: string): string {
   return name;
 }
 
-function ToolNode({ data, id }: NodeProps) {
+function ToolNode({ data, id, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps) {
   const gn = data as unknown as GraphNode & { isExpanded?: boolean };
   const color = TOOL_COLORS[gn.toolName || ''] || TOOL_COLORS.default;
   const icon = TOOL_ICONS[gn.toolName || ''] || '\uD83D\uDD27';
@@ -43,7 +52,7 @@ function ToolNode({ data, id }: NodeProps) {
 
   const content = (
     <>
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
       <div className="node-header">
         <span className="node-icon">{icon}</span>
         <span className="node-tool-name">{isQuestion ? 'Question' : formatToolDisplayName(gn.toolName || '')}</span>
@@ -56,9 +65,37 @@ function ToolNode({ data, id }: NodeProps) {
         {formatTokensBadge(gn)}
       </div>
       {gn.isExpanded ? (
-        <div className="node-expanded-content">{gn.detail || gn.label}</div>
+        <>
+          {gn.fileChange ? (
+            <div className="node-expanded-content">
+              <DiffView change={gn.fileChange} compact />
+            </div>
+          ) : (
+            <div className="node-expanded-content"><HighlightedText text={gn.detail || gn.label} enabled={!!gn.searchMatch} /></div>
+          )}
+          {gn.result && (
+            <div className={`node-result ${gn.result.isError ? 'node-result-error' : ''}`}>
+              <div className="node-result-header">
+                <span>Output</span>
+                {gn.result.exitCode !== undefined && <span>exit {gn.result.exitCode}</span>}
+                <span>{formatTokens(gn.result.size)} chars{gn.result.truncated ? ' (truncated)' : ''}</span>
+              </div>
+              {gn.result.images.map((mediaType, i) => (
+                <div key={i} className="result-image-placeholder">{'\uD83D\uDDBC'} Image ({mediaType})</div>
+              ))}
+              {gn.result.text && <div className="node-result-text"><HighlightedText text={gn.result.text} enabled={!!gn.searchMatch} /></div>}
+            </div>
+          )}
+        </>
       ) : (
-        <div className="node-label">{gn.label}</div>
+        <div className="node-label"><HighlightedText text={gn.label} enabled={!!gn.searchMatch} /></div>
+      )}
+      {gn.subagent && (
+        <div className="subagent-summary">
+          <span>{'\u21B3'} Subagent</span>
+          <span>{gn.subagent.toolCount} tools</span>
+          <span>{formatTokens(gn.subagent.inputTokens + gn.subagent.outputTokens)} tok</span>
+        </div>
       )}
       {isQuestion && gn.questionOptions && (
         <div className="question-options">
@@ -79,8 +116,9 @@ function ToolNode({ data, id }: NodeProps) {
           ))}
         </div>
       )}
-      <Handle type="source" position={Position.Bottom} />
+      <Handle type="source" position={sourcePosition} />
       <CollapseButton nodeId={id} childCount={gn.childCount || 0} collapsed={gn.collapsed || false} />
+      <BranchBadge node={gn} />
       {gn.isExpanded && <ExpandNavButtons />}
     </>
   );
@@ -3,7 +3,11 @@ import { Handle, Position, type NodeProps } from '@xyflow/react';
 import { motion } from 'framer-motion';
 import type { GraphNode } from '../../shared/types';
 import CollapseButton from './CollapseButton';
+import BranchBadge from './BranchBadge';
 import ExpandNavButtons from './ExpandNavButtons';
+import HighlightedText from '../components/HighlightedText';
+import { useSessionStore } from '../store/session-store';
+import { turnWarnings } from '../store/thrash-detection';
 
 function formatTokens(n: number): string {
   if (n >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M';
@@ -11,9 +15,11 @@ function formatTokens(n: number): string {
   return String(n);
 }
 
-function UserNode({ data, id }: NodeProps) {
+function UserNode({ data, id, sourcePosition = Position.Bottom, targetPosition = Position.Top }: NodeProps) {
   const gn = data as unknown as GraphNode & { isExpanded?: boolean };
   const dimmed = gn.searchMatch === false && gn.searchMatch !== undefined;
+  const focusNode = useSessionStore(s => s.focusNode);
+  const warnings = useSessionStore(s => turnWarnings(s.thrash, id));
   const needsAnimation = gn.isNew || dimmed;
 
   const className = `mind-map-node user-node ${gn.isNew ? 'node-new neon-pulse' : ''} ${gn.searchMatch ? 'search-match' : ''} ${gn.isExpanded ? 'node-inline-expanded' : ''}`;
@@ -21,7 +27,7 @@ function UserNode({ data, id }: NodeProps) {
 
   const content = (
     <>
-      <Handle type="target" position={Position.Top} />
+      <Handle type="target" position={targetPosition} />
       {gn.replyToSnippet && (
         <div className="reply-to-snippet">
           <span className="reply-to-icon">{'\u21A9'}</span>
@@ -38,12 +44,29 @@ function UserNode({ data, id }: NodeProps) {
         ) : null}
       </div>
       {gn.isExpanded ? (
-        <div className="node-expanded-content">{gn.detail || gn.label}</div>
+        <div className="node-expanded-content"><HighlightedText text={gn.detail || gn.label} enabled={!!gn.searchMatch} /></div>
       ) : (
-        <div className="node-label">{gn.label}</div>
+        <div className="node-label"><HighlightedText text={gn.label} enabled={!!gn.searchMatch} /></div>
       )}
-      <Handle type="source" position={Position.Bottom} />
+      {warnings.length > 0 && (
+        <div
+          className="thrash-badge"
+          title={warnings.map(w => w.message).join('\n')}
+          onClick={(e) => {
+            e.stopPropagation();
+            const ids = warnings[0].nodeIds;
+            focusNode(ids[ids.length - 1]);
+          }}
+        >
+          <span>{'\u26A0'}</span>
+          <span className="thrash-badge-text">
+            {warnings.length === 1 ? warnings[0].message : `${warnings.length} loop warnings`}
+          </span>
+        </div>
+      )}
+      <Handle type="source" position={sourcePosition} />
       <CollapseButton nodeId={id} childCount={gn.childCount || 0} collapsed={gn.collapsed || false} />
+      <BranchBadge node={gn} />
       {gn.isExpanded && <ExpandNavButtons />}
     </>
   );
@@ -0,0 +1,101 @@
+import type { JSONLMessage } from '../../shared/types';
+import { isPromptMessage } from '../../shared/session-analysis';
+
+// ---------------------------------------------------------------------------
+// Conversation branches — rewinding or editing a prompt makes Claude Code
+// write a new prompt with the same parentUuid as the old one. Each sibling
+// prompt starts a branch; one branch is the main line, the rest are
+// abandoned attempts.
+// ---------------------------------------------------------------------------
+
+export interface BranchFork {
+  /** uuid of the message the sibling prompts share as parent. */
+  parentUuid: string;
+  /** uuids of the sibling prompts, in file order. */
+  branchUuids: string[];
+  /** Index into branchUuids of the main line. */
+  mainIndex: number;
+}
+
+export interface BranchInfo {
+  /** Keyed by parentUuid, in file order. */
+  forks: Map<string, BranchFork>;
+  /** Message uuid → the fork and branch index it sits on, for messages off the main line. */
+  abandoned: Map<string, { forkUuid: string; index: number }>;
+}
+
+export const EMPTY_BRANCHES: BranchInfo = { forks: new Map(), abandoned: new Map() };
+
+/**
+ * Find forks among the main-chain messages. By default the main line at each
+ * fork is the branch holding the latest message (the attempt that was kept);
+ * `selections` (parentUuid → chosen prompt uuid) overrides that per fork.
+ */
+export function detectBranches(
+  messages: JSONLMessage[],
+  selections?: ReadonlyMap<string, string>,
+): BranchInfo {
+  const childrenOf = new Map<string, string[]>();
+  const promptChildren = new Map<string, string[]>();
+  const order = new Map<string, number>();
+
+  messages.forEach((msg, i) => {
+    if (msg.isSidechain || !msg.uuid) return;
+    order.set(msg.uuid, i);
+    if (!msg.parentUuid) return;
+    const kids = childrenOf.get(msg.parentUuid);
+    if (kids) kids.push(msg.uuid);
+    else childrenOf.set(msg.parentUuid, [msg.uuid]);
+    if (isPromptMessage(msg)) {
+      const prompts = promptChildren.get(msg.parentUuid);
+      if (prompts) prompts.push(msg.uuid);
+      else promptChildren.set(msg.parentUuid, [msg.uuid]);
+    }
+  });
+
+  const forkParents = [...promptChildren.entries()]
+    .filter(([parent, prompts]) => prompts.length > 1 && order.has(parent))
+    .sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+  if (forkParents.length === 0) return EMPTY_BRANCHES;
+
+  /** Every uuid in the subtree rooted at `root`, root included, and the latest file position among them. */
+  const subtree = (root: string): { ids: string[]; latest: number } => {
+    const ids: string[] = [];
+    let latest = -1;
+    const stack = [root];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      ids.push(id);
+      latest = Math.max(latest, order.get(id) ?? -1);
+      for (const kid of childrenOf.get(id) ?? []) stack.push(kid);
+    }
+    return { ids, latest };
+  };
+
+  const forks = new Map<string, BranchFork>();
+  const abandoned = new Map<string, { forkUuid: string; index: number }>();
+
+  for (const [parentUuid, branchUuids] of forkParents) {
+    const members = branchUuids.map(subtree);
+    // The branch with the latest message is the main line unless one was chosen
+    let latestIndex = 0;
+    members.forEach((m, i) => { if (m.latest > members[latestIndex].latest) latestIndex = i; });
+    const selected = selections?.get(parentUuid);
+    const mainIndex = selected && branchUuids.includes(selected) ? branchUuids.indexOf(selected) : latestIndex;
+    forks.set(parentUuid, { parentUuid, branchUuids, mainIndex });
+
+    // Outer forks come first in file order, so a message inside an already
+    // abandoned branch keeps the outermost fork it left the main line at.
+    members.forEach(({ ids }, index) => {
+      if (index === mainIndex) return;
+      for (const id of ids) {
+        if (!abandoned.has(id)) abandoned.set(id, { forkUuid: parentUuid, index });
+      }
+    });
+  }
+
+  return { forks, abandoned };
+}
@@ -0,0 +1,164 @@
+import type { CompactSummary, CompactTodo, JSONLMessage } from '../../shared/types';
+import { buildFileActivity } from './file-activity';
+import { isCompactSummary } from '../../shared/session-analysis';
+
+// ---------------------------------------------------------------------------
+// Compaction summaries — pair each compact_boundary with the summary message
+// Claude Code injects after it, and check which files and todos from the
+// turns it replaced the summary still mentions.
+// ---------------------------------------------------------------------------
+
+/** Messages after a boundary searched for its summary. */
+const SUMMARY_LOOKAHEAD = 5;
+
+/** Paths with at least one separator and an extension, e.g. src/main/index.ts. */
+const PATH_PATTERN = /[\w.@~-]*(?:[\\/][\w.@-]+)+\.[A-Za-z0-9]+/g;
+/** Bare file names in backticks, e.g. `settings.json`. */
+const BACKTICK_FILE_PATTERN = /`([\w.@-]+\.[A-Za-z0-9]+)`/g;
+
+/** Share of a todo's significant words the summary must contain to count as mentioned. */
+const TODO_WORD_OVERLAP = 0.6;
+
+export interface CompactSummaryMatch {
+  /** uuid of the summary user message, which gets no node of its own. */
+  summaryUuid: string;
+  summary: CompactSummary;
+}
+
+function messageText(msg: JSONLMessage): string {
+  const content = (msg as any).message?.content;
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content.filter((b: any) => b.type === 'text').map((b: any) => b.text ?? '').join('\n');
+}
+
+function normalizePath(p: string): string {
+  return p.replace(/\\/g, '/');
+}
+
+function baseName(p: string): string {
+  const parts = normalizePath(p).split('/');
+  return parts[parts.length - 1];
+}
+
+/** True when `name` occurs in `text` as a whole path segment (not inside a longer name). */
+function mentionsName(text: string, name: string): boolean {
+  let at = text.indexOf(name);
+  while (at !== -1) {
+    const before = at > 0 ? text[at - 1] : '';
+    const after = text[at + name.length] ?? '';
+    if (!/[\w.-]/.test(before) && !/\w/.test(after)) return true;
+    at = text.indexOf(name, at + 1);
+  }
+  return false;
+}
+
+function significantWords(s: string): string[] {
+  return s.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length >= 4);
+}
+
+function mentionsTodo(text: string, words: Set<string>, todo: CompactTodo): boolean {
+  if (text.toLowerCase().includes(todo.content.toLowerCase())) return true;
+  const todoWords = significantWords(todo.content);
+  if (todoWords.length === 0) return false;
+  const hits = todoWords.filter((w) => words.has(w)).length;
+  return hits / todoWords.length >= TODO_WORD_OVERLAP;
+}
+
+/** Items of the last TodoWrite call in `messages`. */
+function lastTodos(messages: JSONLMessage[]): CompactTodo[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.type !== 'assistant') continue;
+    const content = (msg as any).message?.content;
+    if (!Array.isArray(content)) continue;
+    for (let j = content.length - 1; j >= 0; j--) {
+      const block = content[j];
+      if (block?.type !== 'tool_use' || block.name !== 'TodoWrite') continue;
+      const todos = Array.isArray(block.input?.todos) ? block.input.todos : [];
+      return todos
+        .filter((t: any) => typeof t?.content === 'string')
+        .map((t: any) => ({ content: t.content, status: String(t.status ?? 'pending') }));
+    }
+  }
+  return [];
+}
+
+/** Which files and todos of the pre-compaction turns `text` still mentions. */
+export function auditCompactSummary(text: string, before: JSONLMessage[]): CompactSummary {
+  const touched = buildFileActivity(before)
+    .filter((a) => a.touches.some((t) => t.kind !== 'search'))
+    .map((a) => a.filePath);
+
+  const kept: string[] = [];
+  const dropped: string[] = [];
+  for (const filePath of touched) {
+    (mentionsName(text, baseName(filePath)) ? kept : dropped).push(filePath);
+  }
+
+  // Paths the summary brings up that no pre-compaction tool touched
+  const tokens = new Set<string>();
+  for (const m of text.matchAll(PATH_PATTERN)) {
+    if (!m[0].startsWith('//')) tokens.add(normalizePath(m[0]));
+  }
+  for (const m of text.matchAll(BACKTICK_FILE_PATTERN)) tokens.add(m[1]);
+  const touchedNorm = touched.map(normalizePath);
+  const summaryOnly = [...tokens].filter((token) =>
+    !touchedNorm.some((f) => f.endsWith(token) || token.endsWith('/' + baseName(f)) || token === baseName(f)),
+  );
+
+  const words = new Set(significantWords(text));
+  const todos = lastTodos(before);
+  return {
+    text,
+    audited: before.some((m) => m.type === 'user' || m.type === 'assistant'),
+    files: { kept, dropped, summaryOnly },
+    todos: {
+      kept: todos.filter((t) => mentionsTodo(text, words, t)),
+      dropped: todos.filter((t) => !mentionsTodo(text, words, t)),
+    },
+  };
+}
+
+/** "Summary keeps 8/12 files · 2/5 todos" — one-line audit for the compaction node. */
+export function auditHeadline(summary: CompactSummary): string {
+  if (!summary.audited) return 'Summary attached \u00B7 earlier turns not loaded';
+  const parts: string[] = [];
+  const files = summary.files.kept.length + summary.files.dropped.length;
+  if (files > 0) parts.push(`${summary.files.kept.length}/${files} files`);
+  const todos = summary.todos.kept.length + summary.todos.dropped.length;
+  if (todos > 0) parts.push(`${summary.todos.kept.length}/${todos} todos`);
+  return parts.length > 0 ? `Summary keeps ${parts.join(' \u00B7 ')}` : 'Summary attached';
+}
+
+/**
+ * Summaries keyed by the uuid of their compact_boundary. Each is audited
+ * against the messages since the previous compaction (or the start), so pass
+ * the whole history, not a windowed slice. Entries of `previous` (an earlier
+ * result for a prefix of `messages`) are reused instead of audited again.
+ */
+export function collectCompactSummaries(
+  messages: JSONLMessage[],
+  previous?: ReadonlyMap<string, CompactSummaryMatch>,
+): Map<string, CompactSummaryMatch> {
+  const out = new Map<string, CompactSummaryMatch>();
+  let segmentStart = 0;
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+    if (msg.type !== 'system' || (msg as any).subtype !== 'compact_boundary') continue;
+    const segment = segmentStart;
+    segmentStart = i + 1;
+    const known = previous?.get(msg.uuid);
+    const end = Math.min(messages.length, i + 1 + SUMMARY_LOOKAHEAD);
+    for (let j = i + 1; j < end; j++) {
+      if (known ? messages[j].uuid !== known.summaryUuid : !isCompactSummary(messages[j])) continue;
+      out.set(msg.uuid, known ?? {
+        summaryUuid: messages[j].uuid,
+        summary: auditCompactSummary(messageText(messages[j]), messages.slice(segment, i)),
+      });
+      segmentStart = j + 1;
+      break;
+    }
+  }
+  return out;
+}
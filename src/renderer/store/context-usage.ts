@@ -0,0 +1,203 @@
+import type { JSONLMessage } from '../../shared/types';
+import { BUILTIN_PRICING, contextWindowFor, type PricingTable } from '../../shared/pricing';
+import { collectApiCalls, isPromptMessage, promptText, SUBAGENT_TRIGGER } from '../../shared/session-analysis';
+
+// ---------------------------------------------------------------------------
+// Context usage — how full the context window was on each main-chain API
+// call, and when auto-compaction is likely to trigger at the current rate.
+// ---------------------------------------------------------------------------
+
+/** Extended window; assumed once a call has gone past the model's configured one. */
+export const EXTENDED_CONTEXT_LIMIT = 1_000_000;
+
+/**
+ * Share of the window at which Claude Code auto-compacts when the session
+ * hasn't auto-compacted yet. Afterwards the observed pre-compaction size is
+ * used instead.
+ */
+const AUTO_COMPACT_FRACTION = 0.92;
+
+/** Recent main-chain calls the growth rate is measured over. */
+const FORECAST_WINDOW = 12;
+/** Recent completed turns the per-turn growth is averaged over. */
+const FORECAST_TURNS = 5;
+
+export interface ContextPoint {
+  /** message.id of the API call. */
+  id: string;
+  timestamp: string;
+  turnId: string | null;
+  /** Everything the call sent: input + cache read + cache write. */
+  tokens: number;
+}
+
+export interface ContextCompaction {
+  /** uuid of the compact_boundary (= compaction node id). */
+  uuid: string;
+  timestamp: string;
+  /** Index into `points` of the first call after the compaction. */
+  index: number;
+  trigger: string;
+  preTokens: number;
+}
+
+export interface ContextForecast {
+  /** Average growth per API call over the recent window. */
+  perCall: number;
+  /** Average growth per turn over recent completed turns, when there are any. */
+  perTurn: number | null;
+  /** API calls until the threshold is crossed. */
+  callsLeft: number;
+  /** Turns until the threshold is crossed, when perTurn is known. */
+  turnsLeft: number | null;
+}
+
+export interface ContextUsage {
+  points: ContextPoint[];
+  compactions: ContextCompaction[];
+  limit: number;
+  /** Size at which auto-compaction is expected. */
+  threshold: number;
+  /** Whether `threshold` comes from an auto-compaction seen in this session. */
+  thresholdObserved: boolean;
+  /** Occupancy of the latest call, 0 before the first one. */
+  current: number;
+  peak: number;
+  /** Null when the context isn't growing or there is too little history. */
+  forecast: ContextForecast | null;
+}
+
+function growthForecast(usage: Omit<ContextUsage, 'forecast'>): ContextForecast | null {
+  const { points, compactions, threshold, current } = usage;
+  // Only calls since the last compaction describe the current growth
+  const start = compactions.length > 0 ? compactions[compactions.length - 1].index : 0;
+  const segment = points.slice(Math.max(start, points.length - FORECAST_WINDOW));
+  if (segment.length < 2) return null;
+
+  const perCall = (segment[segment.length - 1].tokens - segment[0].tokens) / (segment.length - 1);
+  if (perCall <= 0) return null;
+
+  // Occupancy at the end of each turn, excluding the turn still in progress
+  const turnEnds: number[] = [];
+  const since = points.slice(start);
+  for (let i = 0; i < since.length - 1; i++) {
+    if (since[i].turnId !== since[i + 1].turnId) turnEnds.push(since[i].tokens);
+  }
+  const recent = turnEnds.slice(-(FORECAST_TURNS + 1));
+  const perTurn = recent.length >= 2 ? (recent[recent.length - 1] - recent[0]) / (recent.length - 1) : null;
+
+  const headroom = Math.max(0, threshold - current);
+  return {
+    perCall,
+    perTurn: perTurn !== null && perTurn > 0 ? perTurn : null,
+    callsLeft: Math.ceil(headroom / perCall),
+    turnsLeft: perTurn !== null && perTurn > 0 ? Math.ceil(headroom / perTurn) : null,
+  };
+}
+
+/**
+ * Context occupancy per main-chain API call, with compactions and a forecast.
+ * The window is the latest call's model's `contextWindow` in `pricing`.
+ */
+export function computeContextUsage(
+  messages: JSONLMessage[],
+  pricing: PricingTable = BUILTIN_PRICING,
+): ContextUsage {
+  const calls = collectApiCalls(messages)
+    .filter((c) => c.trigger !== SUBAGENT_TRIGGER && c.model !== '<synthetic>');
+  const points: ContextPoint[] = calls
+    .map((c) => ({
+      id: c.id,
+      timestamp: c.timestamp,
+      turnId: c.turnId,
+      tokens: c.input + c.cacheRead + c.cacheWrite5m + c.cacheWrite1h,
+    }))
+    .filter((p) => p.tokens > 0);
+
+  const compactions: ContextCompaction[] = [];
+  for (const msg of messages) {
+    if (msg.isSidechain || msg.type !== 'system' || (msg as any).subtype !== 'compact_boundary') continue;
+    const meta = (msg as any).compactMetadata as { trigger?: string; preTokens?: number } | undefined;
+    const timestamp = msg.timestamp || '';
+    const index = points.findIndex((p) => p.timestamp > timestamp);
+    compactions.push({
+      uuid: msg.uuid,
+      timestamp,
+      index: index === -1 ? points.length : index,
+      trigger: meta?.trigger ?? 'unknown',
+      preTokens: meta?.preTokens ?? 0,
+    });
+  }
+
+  const peak = points.reduce((max, p) => Math.max(max, p.tokens), 0);
+  const configured = contextWindowFor(pricing, calls[calls.length - 1]?.model ?? '');
+  // Going past the configured window means the session runs with the extended one
+  const limit = peak > configured ? Math.max(peak, EXTENDED_CONTEXT_LIMIT) : configured;
+  const lastAuto = [...compactions].reverse().find((c) => c.trigger === 'auto' && c.preTokens > 0);
+  const threshold = lastAuto && lastAuto.preTokens <= limit
+    ? lastAuto.preTokens
+    : Math.round(limit * AUTO_COMPACT_FRACTION);
+
+  const usage = {
+    points,
+    compactions,
+    limit,
+    threshold,
+    thresholdObserved: threshold === lastAuto?.preTokens,
+    current: points.length > 0 ? points[points.length - 1].tokens : 0,
+    peak,
+  };
+  return { ...usage, forecast: growthForecast(usage) };
+}
+
+export interface TurnGrowth {
+  /** uuid of the prompt that started the turn (= user node id). */
+  turnId: string;
+  /** 1-based turn number. */
+  turn: number;
+  prompt: string;
+  /** Occupancy the turn's calls added, prompt included. */
+  added: number;
+  calls: number;
+}
+
+/** Context each turn added, in order. The drop at a compaction counts as no change. */
+export function contextGrowthByTurn(usage: ContextUsage, messages: JSONLMessage[]): TurnGrowth[] {
+  const prompts = new Map<string, { turn: number; prompt: string }>();
+  for (const msg of messages) {
+    if (isPromptMessage(msg)) prompts.set(msg.uuid, { turn: prompts.size + 1, prompt: promptText(msg) });
+  }
+  const { points } = usage;
+  const starts = new Set(usage.compactions.map((c) => c.index));
+  const out: TurnGrowth[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    if (!p.turnId) continue;
+    const delta = i === 0 ? p.tokens : starts.has(i) ? 0 : p.tokens - points[i - 1].tokens;
+    const last = out[out.length - 1];
+    if (last && last.turnId === p.turnId && points[i - 1].turnId === p.turnId) {
+      last.added += delta;
+      last.calls++;
+    } else {
+      const info = prompts.get(p.turnId);
+      out.push({ turnId: p.turnId, turn: info?.turn ?? 0, prompt: info?.prompt ?? '', added: delta, calls: 1 });
+    }
+  }
+  return out;
+}
+
+/** Green below 60% of the window, amber up to the auto-compact threshold, red past it. */
+export function occupancyColor(usage: ContextUsage): string {
+  if (usage.current >= usage.threshold) return '#ff3d71';
+  if (usage.current >= usage.limit * 0.6) return '#fbbf24';
+  return '#34d399';
+}
+
+/** "~4 turns (~17 calls)" — how far off auto-compaction is; null when there's no forecast. */
+export function forecastLabel(forecast: ContextForecast | null): string | null {
+  if (!forecast) return null;
+  if (forecast.callsLeft === 0) return 'the next call';
+  const calls = `~${forecast.callsLeft} call${forecast.callsLeft === 1 ? '' : 's'}`;
+  if (forecast.turnsLeft === null) return calls;
+  return `~${forecast.turnsLeft} turn${forecast.turnsLeft === 1 ? '' : 's'} (${calls})`;
+}
@@ -0,0 +1,135 @@
+// ---------------------------------------------------------------------------
+// Line diff — LCS over lines with common prefix/suffix trimming.
+// Edit strings are small in practice; huge inputs fall back to a
+// remove-all/add-all diff instead of allocating a giant table.
+// ---------------------------------------------------------------------------
+
+export type DiffLineType = 'context' | 'add' | 'del';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line number in the old text (context and del lines). */
+  oldNo?: number;
+  /** 1-based line number in the new text (context and add lines). */
+  newNo?: number;
+}
+
+/** A row of a side-by-side diff; either side may be empty. */
+export interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(s: string): string[] {
+  if (s.length === 0) return [];
+  const lines = s.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const out: DiffLine[] = [];
+  for (let i = 0; i < start; i++) out.push({ type: 'context', text: a[i], oldNo: i + 1, newNo: i + 1 });
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < endA; i++) out.push({ type: 'del', text: a[i], oldNo: i + 1 });
+    for (let j = start; j < endB; j++) out.push({ type: 'add', text: b[j], newNo: j + 1 });
+  } else {
+    // lcs[i][j] = LCS length of a[start+i..endA) and b[start+j..endB)
+    const w = m + 1;
+    const lcs = new Uint32Array((n + 1) * w);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * w + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * w + j + 1] + 1
+          : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        out.push({ type: 'context', text: a[start + i], oldNo: start + i + 1, newNo: start + j + 1 });
+        i++; j++;
+      } else if (j < m && (i === n || lcs[i * w + j + 1] >= lcs[(i + 1) * w + j])) {
+        out.push({ type: 'add', text: b[start + j], newNo: start + j + 1 });
+        j++;
+      } else {
+        out.push({ type: 'del', text: a[start + i], oldNo: start + i + 1 });
+        i++;
+      }
+    }
+  }
+
+  const offset = endB - endA;
+  for (let i = endA; i < a.length; i++) {
+    out.push({ type: 'context', text: a[i], oldNo: i + 1, newNo: i + offset + 1 });
+  }
+  return sortHunkLines(out);
+}
+
+/** Within each changed run, show deletions before additions (git style). */
+function sortHunkLines(lines: DiffLine[]): DiffLine[] {
+  const out: DiffLine[] = [];
+  let dels: DiffLine[] = [];
+  let adds: DiffLine[] = [];
+  const flush = () => {
+    out.push(...dels, ...adds);
+    dels = [];
+    adds = [];
+  };
+  for (const line of lines) {
+    if (line.type === 'del') dels.push(line);
+    else if (line.type === 'add') adds.push(line);
+    else { flush(); out.push(line); }
+  }
+  flush();
+  return out;
+}
+
+/** Pair deletions with additions so a unified diff can be shown side by side. */
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.type === 'context') {
+      rows.push({ left: line, right: line });
+      i++;
+      continue;
+    }
+    const dels: DiffLine[] = [];
+    const adds: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'del') dels.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'add') adds.push(lines[i++]);
+    for (let k = 0; k < Math.max(dels.length, adds.length); k++) {
+      rows.push({ left: dels[k] ?? null, right: adds[k] ?? null });
+    }
+  }
+  return rows;
+}
+
+/** Count added and removed lines. */
+export function diffStats(lines: DiffLine[]): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const l of lines) {
+    if (l.type === 'add') added++;
+    else if (l.type === 'del') removed++;
+  }
+  return { added, removed };
+}
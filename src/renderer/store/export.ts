@@ -0,0 +1,290 @@
+import type { GraphNode, GraphEdge, SessionInfo, FileChange } from '../../shared/types';
+import { TOOL_COLORS } from '../../shared/types';
+import { conversationLayout, estimateNodeHeight, NODE_WIDTH } from './layout';
+import { diffLines } from './diff';
+import type { TokenStats } from '../../shared/session-analysis';
+
+// ---------------------------------------------------------------------------
+// Session export — Markdown transcript, static HTML mind map, versioned JSON.
+// All exporters take the current filtered graph so what you see is what you get.
+// ---------------------------------------------------------------------------
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+/** Bump when the JSON shape changes in a way consumers need to know about. */
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportInput {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  session: SessionInfo | null;
+  tokenStats: TokenStats;
+}
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
+
+function sessionTitle(session: SessionInfo | null): string {
+  return session?.displayText || session?.sessionId || 'Claude session';
+}
+
+/** Fence that is longer than any backtick run inside the content. */
+function fence(content: string): string {
+  const longest = (content.match(/`+/g) ?? []).reduce((max, run) => Math.max(max, run.length), 2);
+  return '`'.repeat(longest + 1);
+}
+
+function codeBlock(content: string, lang = ''): string {
+  const f = fence(content);
+  return `${f}${lang}\n${content}\n${f}`;
+}
+
+function unifiedDiffText(change: FileChange): string {
+  if (change.kind === 'write') return change.content ?? '';
+  const markers = { context: ' ', add: '+', del: '-' } as const;
+  return change.edits
+    .map((e) => diffLines(e.oldString, e.newString).map((l) => markers[l.type] + l.text).join('\n'))
+    .join('\n@@\n');
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+export function exportMarkdown({ nodes, session, tokenStats }: ExportInput): string {
+  const out: string[] = [];
+  out.push(`# ${sessionTitle(session)}`);
+  out.push('');
+  if (session) {
+    out.push(`- **Session:** \`${session.sessionId}\``);
+    out.push(`- **Project:** \`${session.project}\``);
+    out.push(`- **Started:** ${session.timestamp}`);
+  }
+  out.push(`- **Tokens:** ${(tokenStats.inputTokens + tokenStats.cacheRead + tokenStats.cacheCreation).toLocaleString()} in / ${tokenStats.outputTokens.toLocaleString()} out (~$${tokenStats.estimatedCost.toFixed(2)})`);
+  out.push('');
+
+  let turn = 0;
+  for (const n of nodes) {
+    switch (n.kind) {
+      case 'user':
+        turn++;
+        out.push(`## Turn ${turn}`);
+        out.push('');
+        out.push(n.detail.split('\n').map((l) => `> ${l}`).join('\n'));
+        out.push('');
+        break;
+      case 'thinking':
+        out.push('<details><summary>Thinking</summary>');
+        out.push('');
+        out.push(n.detail);
+        out.push('');
+        out.push('</details>');
+        out.push('');
+        break;
+      case 'text':
+        out.push(n.detail);
+        out.push('');
+        break;
+      case 'tool_use': {
+        const status = n.status === 'error' ? ' — **error**' : '';
+        const sub = n.parentTaskId ? '\u21B3 ' : '';
+        out.push(`${sub}**${n.toolName}** — ${n.label}${status}`);
+        out.push('');
+        if (n.fileChange) {
+          out.push(codeBlock(unifiedDiffText(n.fileChange), n.fileChange.kind === 'write' ? '' : 'diff'));
+        } else if (n.detail) {
+          out.push(codeBlock(n.detail, 'json'));
+        }
+        if (n.result?.text) {
+          out.push('');
+          out.push('<details><summary>Output</summary>');
+          out.push('');
+          out.push(codeBlock(n.result.text + (n.result.truncated ? '\n\u2026 (truncated)' : '')));
+          out.push('');
+          out.push('</details>');
+        }
+        out.push('');
+        break;
+      }
+      case 'compaction':
+        out.push(`---\n\n*Context compacted${n.compactTokens ? ` (${n.compactTokens.toLocaleString()} tokens)` : ''}*\n`);
+        break;
+      case 'system':
+        out.push(`*System: ${n.label}*`);
+        out.push('');
+        break;
+      case 'session_end':
+        out.push(`---\n\n*${n.label}*`);
+        out.push('');
+        break;
+      case 'continuation':
+        out.push(`*${n.detail}*\n\n---\n`);
+        break;
+      default:
+        break;
+    }
+  }
+  return out.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// HTML — static page reproducing the conversation layout
+// ---------------------------------------------------------------------------
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const KIND_COLORS: Record<string, string> = {
+  user: '#34d399',
+  thinking: '#a855f7',
+  text: '#6b7280',
+  system: '#475569',
+  compaction: '#fbbf24',
+  session_end: '#475569',
+  continuation: '#fbbf24',
+  queue: '#38bdf8',
+};
+
+function nodeColor(n: GraphNode): string {
+  if (n.kind === 'tool_use') return TOOL_COLORS[n.toolName || ''] || TOOL_COLORS.default;
+  return KIND_COLORS[n.kind] || '#6b7280';
+}
+
+export function exportHtml({ nodes, edges, session, tokenStats }: ExportInput): string {
+  const positions = conversationLayout(nodes, edges);
+  const heights = new Map(nodes.map((n) => [n.id, estimateNodeHeight(n)]));
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+
+  let width = 0;
+  let height = 0;
+  for (const n of nodes) {
+    const p = positions.get(n.id);
+    if (!p) continue;
+    width = Math.max(width, p.x + NODE_WIDTH);
+    height = Math.max(height, p.y + (heights.get(n.id) ?? 0));
+  }
+  width += 40;
+  height += 40;
+
+  const paths: string[] = [];
+  for (const e of edges) {
+    const s = positions.get(e.source);
+    const t = positions.get(e.target);
+    if (!s || !t) continue;
+    const sx = s.x + NODE_WIDTH / 2;
+    const sy = s.y + (heights.get(e.source) ?? 0);
+    const tx = t.x + NODE_WIDTH / 2;
+    const ty = t.y;
+    const my = (sy + ty) / 2;
+    const color = nodeColor(nodeById.get(e.target)!);
+    paths.push(`<path d="M${sx},${sy} C${sx},${my} ${tx},${my} ${tx},${ty}" stroke="${color}" />`);
+  }
+
+  const cards: string[] = [];
+  for (const n of nodes) {
+    const p = positions.get(n.id);
+    if (!p) continue;
+    const color = nodeColor(n);
+    const title = n.kind === 'tool_use' ? n.toolName || 'tool' : n.kind;
+    const status = n.status ? `<span class="status ${n.status}">${n.status}</span>` : '';
+    const body = n.detail && n.detail !== n.label
+      ? `<details><summary>${escapeHtml(n.label)}</summary><pre>${escapeHtml(n.detail)}</pre></details>`
+      : `<div class="label">${escapeHtml(n.label)}</div>`;
+    const output = n.result?.text
+      ? `<details class="output"><summary>Output</summary><pre>${escapeHtml(n.result.text)}</pre></details>`
+      : '';
+    cards.push(
+      `<div class="node${n.parentTaskId ? ' sub' : ''}" style="left:${p.x}px;top:${p.y}px;border-color:${color}">` +
+      `<div class="head" style="color:${color}">${escapeHtml(title)}${status}</div>${body}${output}</div>`,
+    );
+  }
+
+  const title = escapeHtml(sessionTitle(session));
+  const totalIn = tokenStats.inputTokens + tokenStats.cacheRead + tokenStats.cacheCreation;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { margin: 0; background: #0a0a0f; color: #e2e8f0; font: 12px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; }
+  header { padding: 16px 24px; border-bottom: 1px solid #2a2a3e; background: #12121a; }
+  header h1 { margin: 0 0 4px; font-size: 16px; }
+  header .meta { color: #64748b; font-size: 11px; }
+  .canvas { position: relative; margin: 20px; }
+  svg { position: absolute; left: 0; top: 0; pointer-events: none; }
+  svg path { fill: none; stroke-width: 2; opacity: 0.6; }
+  .node { position: absolute; width: ${NODE_WIDTH - 26}px; padding: 10px 12px; background: #12121a; border: 1px solid; border-radius: 8px; }
+  .node.sub { border-style: dashed; border-left: 3px solid #fbbf24; }
+  .head { font-weight: 700; font-size: 11px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 4px; }
+  .status { margin-left: 8px; font-weight: 400; text-transform: none; color: #34d399; }
+  .status.error { color: #ff3d71; }
+  .status.running { color: #fbbf24; }
+  .label { white-space: pre-wrap; word-break: break-word; max-height: 136px; overflow: hidden; }
+  summary { cursor: pointer; white-space: pre-wrap; word-break: break-word; }
+  details[open] { position: relative; z-index: 1; }
+  pre { white-space: pre-wrap; word-break: break-word; background: #0a0a0f; padding: 8px; border-radius: 4px; max-height: 400px; overflow: auto; font-size: 11px; }
+  .output summary { color: #64748b; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${title}</h1>
+  <div class="meta">${session ? `${escapeHtml(session.project)} &middot; ${escapeHtml(session.sessionId)} &middot; ` : ''}${nodes.length} nodes &middot; ${totalIn.toLocaleString()} in / ${tokenStats.outputTokens.toLocaleString()} out &middot; ~$${tokenStats.estimatedCost.toFixed(2)}</div>
+</header>
+<div class="canvas" style="width:${width}px;height:${height}px">
+<svg width="${width}" height="${height}">${paths.join('')}</svg>
+${cards.join('\n')}
+</div>
+</body>
+</html>
+`;
+}
+
+// ---------------------------------------------------------------------------
+// JSON — stable, versioned shape for other tools
+// ---------------------------------------------------------------------------
+
+/** UI-only fields that don't belong in an export. */
+const TRANSIENT_FIELDS = new Set(['isNew', 'searchMatch', 'collapsed', 'childCount', 'isLastMessage', '_searchText']);
+
+export function exportJson({ nodes, edges, session, tokenStats }: ExportInput): string {
+  const cleanNodes = nodes.map((n) => {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(n)) {
+      if (!TRANSIENT_FIELDS.has(k) && v !== undefined) out[k] = v;
+    }
+    return out;
+  });
+  return JSON.stringify({
+    format: 'claude-mindmap-session',
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: session && {
+      sessionId: session.sessionId,
+      project: session.project,
+      title: session.displayText,
+      startedAt: session.timestamp,
+      endReason: session.endReason,
+    },
+    tokenStats,
+    nodes: cleanNodes,
+    edges: edges.map(({ id, source, target }) => ({ id, source, target })),
+  }, null, 2);
+}
+
+export function exportSession(format: ExportFormat, input: ExportInput): string {
+  switch (format) {
+    case 'markdown': return exportMarkdown(input);
+    case 'html': return exportHtml(input);
+    case 'json': return exportJson(input);
+  }
+}
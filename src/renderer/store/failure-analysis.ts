@@ -0,0 +1,229 @@
+import type { JSONLMessage } from '../../shared/types';
+import { resolveToolStatus } from './graph-builder';
+import { isPromptMessage } from '../../shared/session-analysis';
+
+// ---------------------------------------------------------------------------
+// Failure triage — every failing tool call in a session, whether Claude
+// re-ran the identical call, and failures grouped by tool + error signature.
+// ---------------------------------------------------------------------------
+
+export interface FailedCall {
+  /** Graph node id of the tool_use (`${msg.uuid}-${blockIndex}`). */
+  nodeId: string;
+  toolName: string;
+  /** 1-based user turn the call belongs to (0 = before the first prompt). */
+  turn: number;
+  timestamp: string;
+  /** Bash command, file path, pattern... whatever identifies the call. */
+  command: string;
+  /** The most relevant few lines of the result. */
+  excerpt: string;
+  /** First error line with numbers, paths and quoted strings normalized. */
+  signature: string;
+  exitCode?: number;
+  /** 1-based position among calls with identical tool + input. */
+  attempt: number;
+  /** Total calls with identical tool + input in the session. */
+  attempts: number;
+  /** A later identical call succeeded. */
+  fixedByRetry: boolean;
+}
+
+export interface FailureGroup {
+  toolName: string;
+  signature: string;
+  calls: FailedCall[];
+  firstTimestamp: string;
+  lastTimestamp: string;
+}
+
+export interface FailureReport {
+  totalCalls: number;
+  failures: FailedCall[];
+  /** Most frequent first. */
+  groups: FailureGroup[];
+  /** Failed calls that were re-run with identical input at least once. */
+  retriedCount: number;
+}
+
+const MAX_COMMAND_LENGTH = 200;
+const MAX_EXCERPT_LINES = 4;
+const MAX_EXCERPT_LENGTH = 400;
+const MAX_SIGNATURE_LENGTH = 120;
+
+/** Lines that look like the actual failure, in order of preference. */
+const ERROR_LINE = /\b(error|exception|fail(ed|ure)?|fatal|cannot|can't|not found|no such|denied|refused|timed? ?out|traceback|panic)\b/i;
+
+function resultText(raw: unknown): string {
+  if (typeof raw === 'string') return raw;
+  if (!Array.isArray(raw)) return '';
+  return raw
+    .filter((b: any) => b?.type === 'text')
+    .map((b: any) => b.text ?? '')
+    .join('\n');
+}
+
+function stripTags(text: string): string {
+  return text.replace(/<\/?tool_use_error>/g, '');
+}
+
+function commandOf(toolName: string, input: any): string {
+  const value = input?.command ?? input?.file_path ?? input?.notebook_path ?? input?.pattern
+    ?? input?.url ?? input?.query ?? input?.description;
+  const text = typeof value === 'string' ? value : JSON.stringify(input ?? {});
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  if (toolName === 'Grep' && typeof input?.path === 'string') return `${oneLine}  in ${input.path}`;
+  return oneLine.length > MAX_COMMAND_LENGTH ? oneLine.slice(0, MAX_COMMAND_LENGTH) + '\u2026' : oneLine;
+}
+
+/** Index of the first line that looks like an error, else the first non-empty line. */
+function errorLineIndex(lines: string[]): number {
+  const hit = lines.findIndex((l) => ERROR_LINE.test(l));
+  if (hit >= 0) return hit;
+  const first = lines.findIndex((l) => l.trim() && !/^Exit code \d+$/.test(l.trim()));
+  return Math.max(0, first);
+}
+
+function excerptOf(lines: string[]): string {
+  const at = errorLineIndex(lines);
+  const excerpt = lines.slice(at, at + MAX_EXCERPT_LINES).join('\n').trim();
+  return excerpt.length > MAX_EXCERPT_LENGTH ? excerpt.slice(0, MAX_EXCERPT_LENGTH) + '\u2026' : excerpt;
+}
+
+/**
+ * Normalize the error line so the same failure with different line numbers,
+ * temp paths or values groups together.
+ */
+function signatureOf(lines: string[]): string {
+  const line = (lines[errorLineIndex(lines)] ?? '').trim();
+  const normalized = line
+    .replace(/(["'`])(?:(?!\1).)*\1/g, '$1\u2026$1')
+    .replace(/(?:[A-Za-z]:)?(?:[\\/][\w.@-]+){2,}/g, '<path>')
+    .replace(/\b0x[0-9a-f]+\b/gi, 'N')
+    .replace(/\d+/g, 'N')
+    .replace(/\s+/g, ' ');
+  if (!normalized) return '(no output)';
+  return normalized.length > MAX_SIGNATURE_LENGTH ? normalized.slice(0, MAX_SIGNATURE_LENGTH) + '\u2026' : normalized;
+}
+
+/** Stable key for "the same call": tool name + input with sorted keys. */
+function callKey(toolName: string, input: unknown): string {
+  const sortKeys = (v: any): any => {
+    if (Array.isArray(v)) return v.map(sortKeys);
+    if (v && typeof v === 'object') {
+      return Object.fromEntries(Object.keys(v).sort().map((k) => [k, sortKeys(v[k])]));
+    }
+    return v;
+  };
+  return `${toolName}\0${JSON.stringify(sortKeys(input ?? {}))}`;
+}
+
+/** tool_use id → result text + error flag, for every tool_result in `messages`. */
+export function collectToolResults(messages: JSONLMessage[]): Map<string, { text: string; isError: boolean }> {
+  const results = new Map<string, { text: string; isError: boolean }>();
+  for (const msg of messages) {
+    if (msg.type !== 'user') continue;
+    const content = (msg as any).message?.content;
+    if (!Array.isArray(content)) continue;
+    for (const b of content) {
+      if (b?.type === 'tool_result') {
+        results.set(b.tool_use_id, { text: resultText(b.content), isError: b.is_error === true });
+      }
+    }
+  }
+  return results;
+}
+
+export function buildFailureReport(messages: JSONLMessage[]): FailureReport {
+  const results = collectToolResults(messages);
+
+  // Every completed call, in order, so retries can be matched up afterwards
+  const calls: { key: string; failed: FailedCall | null }[] = [];
+  let turn = 0;
+
+  for (const msg of messages) {
+    if (isPromptMessage(msg)) {
+      turn++;
+      continue;
+    }
+    if (msg.type !== 'assistant') continue;
+    const content = (msg as any).message?.content;
+    if (!Array.isArray(content)) continue;
+
+    for (let i = 0; i < content.length; i++) {
+      const block = content[i];
+      if (block?.type !== 'tool_use') continue;
+      const result = results.get(block.id);
+      if (!result) continue; // still running
+
+      const key = callKey(block.name, block.input);
+      if (resolveToolStatus(result.text, result.isError) !== 'error') {
+        calls.push({ key, failed: null });
+        continue;
+      }
+
+      const lines = stripTags(result.text).split('\n');
+      const exitMatch = result.text.match(/^Exit code (\d+)/m);
+      calls.push({
+        key,
+        failed: {
+          nodeId: `${msg.uuid}-${i}`,
+          toolName: block.name,
+          turn,
+          timestamp: msg.timestamp,
+          command: commandOf(block.name, block.input),
+          excerpt: excerptOf(lines),
+          signature: signatureOf(lines),
+          exitCode: exitMatch ? Number(exitMatch[1]) : undefined,
+          attempt: 0,
+          attempts: 0,
+          fixedByRetry: false,
+        },
+      });
+    }
+  }
+
+  // Retry bookkeeping per identical call
+  const byKey = new Map<string, { key: string; failed: FailedCall | null }[]>();
+  for (const call of calls) {
+    const list = byKey.get(call.key);
+    if (list) list.push(call);
+    else byKey.set(call.key, [call]);
+  }
+  for (const list of byKey.values()) {
+    list.forEach((call, i) => {
+      if (!call.failed) return;
+      call.failed.attempt = i + 1;
+      call.failed.attempts = list.length;
+      call.failed.fixedByRetry = list.slice(i + 1).some((later) => !later.failed);
+    });
+  }
+
+  const failures = calls.flatMap((c) => (c.failed ? [c.failed] : []));
+
+  const groupMap = new Map<string, FailureGroup>();
+  for (const f of failures) {
+    const groupKey = `${f.toolName}\0${f.signature}`;
+    const group = groupMap.get(groupKey);
+    if (group) {
+      group.calls.push(f);
+      group.lastTimestamp = f.timestamp;
+    } else {
+      groupMap.set(groupKey, {
+        toolName: f.toolName,
+        signature: f.signature,
+        calls: [f],
+        firstTimestamp: f.timestamp,
+        lastTimestamp: f.timestamp,
+      });
+    }
+  }
+  const groups = [...groupMap.values()].sort((a, b) => b.calls.length - a.calls.length);
+
+  return {
+    totalCalls: calls.length,
+    failures,
+    groups,
+    retriedCount: failures.filter((f) => f.attempts > 1 && f.attempt < f.attempts).length,
+  };
+}
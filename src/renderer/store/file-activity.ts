@@ -0,0 +1,209 @@
+import type { JSONLMessage, FileEdit, FileChange } from '../../shared/types';
+import { diffLines, diffStats } from './diff';
+import { isPromptMessage } from '../../shared/session-analysis';
+
+// ---------------------------------------------------------------------------
+// Per-file activity — every Read/Edit/Write/Grep/Glob in a session grouped
+// by path, with the net change the session made to each file.
+// ---------------------------------------------------------------------------
+
+export type FileTouchKind = 'read' | 'edit' | 'write' | 'search';
+
+export interface FileTouch {
+  /** Graph node id of the tool_use (`${msg.uuid}-${blockIndex}`). */
+  nodeId: string;
+  toolName: string;
+  kind: FileTouchKind;
+  /** 1-based user turn the touch belongs to (0 = before the first prompt). */
+  turn: number;
+  timestamp: string;
+  /** Short description: grep pattern, edit count, etc. */
+  summary: string;
+  isError: boolean;
+}
+
+export interface FileActivity {
+  filePath: string;
+  touches: FileTouch[];
+  /** Net change across all successful edits/writes, or null if only read. */
+  netChange: FileChange | null;
+  added: number;
+  removed: number;
+  /** True when the file did not exist before the session (first change was a Write). */
+  created: boolean;
+}
+
+const TOUCH_KINDS: Record<string, FileTouchKind> = {
+  Read: 'read',
+  Edit: 'edit',
+  MultiEdit: 'edit',
+  Write: 'write',
+  NotebookEdit: 'edit',
+  Grep: 'search',
+  Glob: 'search',
+};
+
+function touchPath(toolName: string, input: any, cwd: string | undefined): string | null {
+  if (typeof input?.file_path === 'string') return input.file_path;
+  if (typeof input?.notebook_path === 'string') return input.notebook_path;
+  if (toolName === 'Grep' || toolName === 'Glob') {
+    if (typeof input?.path === 'string') return input.path;
+    return cwd ?? null;
+  }
+  return null;
+}
+
+function touchSummary(toolName: string, input: any): string {
+  switch (toolName) {
+    case 'Grep':
+    case 'Glob':
+      return String(input?.pattern ?? '');
+    case 'MultiEdit':
+      return `${Array.isArray(input?.edits) ? input.edits.length : 0} edits`;
+    case 'Read':
+      return input?.offset ? `from line ${input.offset}` : '';
+    case 'Write': {
+      const content = String(input?.content ?? '');
+      return `${content.split('\n').length - (content.endsWith('\n') ? 1 : 0)} lines`;
+    }
+    default:
+      return '';
+  }
+}
+
+function editsOf(toolName: string, input: any): FileEdit[] {
+  if (toolName === 'Edit') {
+    return [{ oldString: String(input?.old_string ?? ''), newString: String(input?.new_string ?? '') }];
+  }
+  if (toolName === 'MultiEdit' && Array.isArray(input?.edits)) {
+    return input.edits.map((e: any) => ({
+      oldString: String(e?.old_string ?? ''),
+      newString: String(e?.new_string ?? ''),
+    }));
+  }
+  return [];
+}
+
+/**
+ * Net change tracker for one file. We never see the file on disk, so the
+ * net diff is a set of hunks: an edit whose old_string lands inside an
+ * earlier hunk's new text is folded into that hunk; otherwise it becomes a
+ * new hunk. A Write replaces everything with a single hunk.
+ */
+class NetChange {
+  hunks: FileEdit[] = [];
+  created = false;
+  private touched = false;
+
+  /** A Read before any change means the file already existed. */
+  read(): void {
+    this.touched = true;
+  }
+
+  write(content: string): void {
+    if (!this.touched) this.created = true;
+    this.touched = true;
+    // The previous content of an overwritten file is unknown, so a Write
+    // always shows as a full-file addition.
+    this.hunks = [{ oldString: '', newString: content }];
+  }
+
+  edit(e: FileEdit): void {
+    this.touched = true;
+    const host = this.hunks.find((h) => e.oldString.length > 0 && h.newString.includes(e.oldString));
+    if (host) {
+      host.newString = host.newString.replace(e.oldString, e.newString);
+    } else {
+      this.hunks.push({ ...e });
+    }
+  }
+
+  toChange(filePath: string): FileChange | null {
+    const hunks = this.hunks.filter((h) => h.oldString !== h.newString);
+    if (hunks.length === 0) return null;
+    return { filePath, kind: 'edit', edits: hunks };
+  }
+}
+
+export function buildFileActivity(messages: JSONLMessage[]): FileActivity[] {
+  // tool_use id → error flag from its tool_result
+  const errored = new Map<string, boolean>();
+  for (const msg of messages) {
+    if (msg.type !== 'user') continue;
+    const content = (msg as any).message?.content;
+    if (!Array.isArray(content)) continue;
+    for (const b of content) {
+      if (b?.type === 'tool_result') errored.set(b.tool_use_id, b.is_error === true);
+    }
+  }
+
+  const byPath = new Map<string, { touches: FileTouch[]; net: NetChange }>();
+  let turn = 0;
+
+  for (const msg of messages) {
+    if (isPromptMessage(msg)) {
+      turn++;
+      continue;
+    }
+    if (msg.type !== 'assistant') continue;
+    const content = (msg as any).message?.content;
+    if (!Array.isArray(content)) continue;
+    const cwd = (msg as any).cwd as string | undefined;
+
+    for (let i = 0; i < content.length; i++) {
+      const block = content[i];
+      if (block?.type !== 'tool_use') continue;
+      const kind = TOUCH_KINDS[block.name];
+      if (!kind) continue;
+      const filePath = touchPath(block.name, block.input, cwd);
+      if (!filePath) continue;
+
+      let entry = byPath.get(filePath);
+      if (!entry) {
+        entry = { touches: [], net: new NetChange() };
+        byPath.set(filePath, entry);
+      }
+      const isError = errored.get(block.id) === true;
+      entry.touches.push({
+        nodeId: `${msg.uuid}-${i}`,
+        toolName: block.name,
+        kind,
+        turn,
+        timestamp: msg.timestamp,
+        summary: touchSummary(block.name, block.input),
+        isError,
+      });
+
+      // Failed edits never reached the file
+      if (isError) continue;
+      if (kind === 'read') entry.net.read();
+      else if (block.name === 'Write') entry.net.write(String(block.input?.content ?? ''));
+      else for (const e of editsOf(block.name, block.input)) entry.net.edit(e);
+    }
+  }
+
+  const result: FileActivity[] = [];
+  for (const [filePath, { touches, net }] of byPath) {
+    const netChange = net.toChange(filePath);
+    let added = 0;
+    let removed = 0;
+    if (netChange) {
+      for (const e of netChange.edits) {
+        const s = diffStats(diffLines(e.oldString, e.newString));
+        added += s.added;
+        removed += s.removed;
+      }
+    }
+    result.push({ filePath, touches, netChange, added, removed, created: net.created });
+  }
+
+  // Changed files first (most churn on top), then read-only files by touch count
+  result.sort((a, b) => {
+    const aChanged = a.netChange ? 1 : 0;
+    const bChanged = b.netChange ? 1 : 0;
+    if (aChanged !== bChanged) return bChanged - aChanged;
+    if (aChanged) return (b.added + b.removed) - (a.added + a.removed);
+    return b.touches.length - a.touches.length;
+  });
+  return result;
+}
@@ -9,8 +9,15 @@ import type {
   ToolStatus,
   ContentBlock,
   SessionEndReason,
+  SubagentTranscript,
+  ToolResultPayload,
+  FileChange,
+  SessionLink,
 } from '../../shared/types';
 import { TOOL_COLORS } from '../../shared/types';
+import { collectApiCalls } from '../../shared/session-analysis';
+import { detectBranches } from './branches';
+import { collectCompactSummaries, type CompactSummaryMatch } from './compaction-summary';
 
 // ---------------------------------------------------------------------------
 // Label helpers
@@ -39,6 +46,12 @@ function formatToolLabel(toolName: string, input: any): string {
       return input?.file_path ? `Read: ${input.file_path}` : 'Read';
     case 'Edit':
       return input?.file_path ? `Edit: ${input.file_path}` : 'Edit';
+    case 'MultiEdit':
+      if (input?.file_path) {
+        const count = Array.isArray(input.edits) ? input.edits.length : 0;
+        return `MultiEdit: ${input.file_path}${count > 1 ? ` (${count} edits)` : ''}`;
+      }
+      return 'MultiEdit';
     case 'Write':
       return input?.file_path ? `Write: ${input.file_path}` : 'Write';
     case 'Grep':
@@ -46,6 +59,7 @@ function formatToolLabel(toolName: string, input: any): string {
     case 'Glob':
       return input?.pattern ? `Glob: ${truncate(String(input.pattern), 80)}` : 'Glob';
     case 'Task':
+    case 'Agent':
       if (input?.prompt) return `Task: ${truncate(String(input.prompt), 80)}`;
       if (input?.description) return `Task: ${truncate(String(input.description), 80)}`;
       return 'Task';
@@ -93,25 +107,174 @@ function extractQuestionData(
 // Tool-status resolution
 // ---------------------------------------------------------------------------
 
-function resolveToolStatus(
-  toolUseId: string,
-  toolResults: Map<string, string>,
-): ToolStatus {
-  const result = toolResults.get(toolUseId);
-  if (result === undefined) return 'running';
+/** Error markers at the very start of a result, for results without is_error. */
+const ERROR_PREFIX = /^\s*(?:<tool_use_error>|error:)/i;
 
-  // Ensure result is a string (tool_result content can be an array of blocks)
-  const text = typeof result === 'string' ? result : String(result);
-  const lower = text.toLowerCase();
-  if (lower.includes('error')) return 'error';
+/**
+ * Status of a tool call from its result text (undefined while running) and
+ * the result's is_error flag. A non-zero "Exit code N" line also counts as a
+ * failure. Output that merely mentions "error" (a Read of a file containing
+ * the word, a passing test run that prints "0 errors") does not.
+ */
+export function resolveToolStatus(text: string | undefined, isError: boolean): ToolStatus {
+  if (text === undefined) return 'running';
+  if (isError) return 'error';
 
-  // Match "exit code" followed by a non-zero number
-  const exitCodeMatch = lower.match(/exit code\s+(\d+)/);
+  const exitCodeMatch = text.match(/^Exit code (\d+)/m);
   if (exitCodeMatch && exitCodeMatch[1] !== '0') return 'error';
 
+  if (ERROR_PREFIX.test(text)) return 'error';
   return 'success';
 }
 
+// ---------------------------------------------------------------------------
+// File changes (Edit / MultiEdit / Write)
+// ---------------------------------------------------------------------------
+
+/** Extract the file change from an Edit, MultiEdit or Write input, if any. */
+function extractFileChange(toolName: string, input: any): FileChange | undefined {
+  const filePath = input?.file_path;
+  if (typeof filePath !== 'string') return undefined;
+  switch (toolName) {
+    case 'Edit':
+      return {
+        filePath,
+        kind: 'edit',
+        edits: [{
+          oldString: String(input.old_string ?? ''),
+          newString: String(input.new_string ?? ''),
+          replaceAll: input.replace_all === true || undefined,
+        }],
+      };
+    case 'MultiEdit':
+      if (!Array.isArray(input.edits)) return undefined;
+      return {
+        filePath,
+        kind: 'edit',
+        edits: input.edits.map((e: any) => ({
+          oldString: String(e?.old_string ?? ''),
+          newString: String(e?.new_string ?? ''),
+          replaceAll: e?.replace_all === true || undefined,
+        })),
+      };
+    case 'Write':
+      return { filePath, kind: 'write', edits: [], content: String(input.content ?? '') };
+    default:
+      return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tool-result payloads
+// ---------------------------------------------------------------------------
+
+const MAX_RESULT_LENGTH = 5000;
+
+/**
+ * Build the displayable output for a tool_result block. Text is truncated to
+ * keep large Read/Bash outputs from bloating the graph; images become
+ * placeholders. Bash results carry stdout/stderr in toolUseResult, so a
+ * non-error Bash result implies exit code 0.
+ */
+function buildResultPayload(text: string, raw: unknown, isError: boolean, toolUseResult: any): ToolResultPayload {
+  const images: string[] = [];
+  if (Array.isArray(raw)) {
+    for (const b of raw as any[]) {
+      if (b?.type === 'image') images.push(b.source?.media_type || 'image');
+    }
+  }
+
+  let exitCode: number | undefined;
+  const exitMatch = text.match(/^Exit code (\d+)/m);
+  if (exitMatch) exitCode = Number(exitMatch[1]);
+  else if (!isError && toolUseResult && typeof toolUseResult === 'object' && 'stdout' in toolUseResult) exitCode = 0;
+
+  const truncated = text.length > MAX_RESULT_LENGTH;
+  return {
+    text: truncated ? text.slice(0, MAX_RESULT_LENGTH) : text,
+    size: text.length,
+    truncated,
+    images,
+    exitCode,
+    isError: isError || undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Subagent transcripts
+// ---------------------------------------------------------------------------
+
+/** Tool names that spawn a subagent (Claude Code renamed Task → Agent). */
+const SUBAGENT_TOOLS = new Set(['Task', 'Agent']);
+
+/**
+ * Group inline sidechain messages (older Claude Code versions wrote subagent
+ * messages into the parent JSONL with isSidechain: true) into transcripts.
+ * Messages carry an agentId when available; otherwise group by chain root.
+ */
+function groupInlineSidechains(sidechain: JSONLMessage[]): SubagentTranscript[] {
+  if (sidechain.length === 0) return [];
+  const parentOf = new Map<string, string>();
+  for (const msg of sidechain) {
+    if (msg.uuid && msg.parentUuid) parentOf.set(msg.uuid, msg.parentUuid);
+  }
+
+  const groups = new Map<string, JSONLMessage[]>();
+  for (const msg of sidechain) {
+    let key = (msg as any).agentId as string | undefined;
+    if (!key) {
+      let cur = msg.uuid;
+      for (let i = 0; i < 10_000 && parentOf.has(cur); i++) cur = parentOf.get(cur)!;
+      key = cur;
+    }
+    const list = groups.get(key);
+    if (list) list.push(msg);
+    else groups.set(key, [msg]);
+  }
+
+  return Array.from(groups, ([agentId, msgs]) => ({ agentId, messages: msgs }));
+}
+
+/** The prompt text of a transcript's root user message (used for fallback matching). */
+function transcriptPrompt(transcript: SubagentTranscript): string | null {
+  const root = transcript.messages.find((m) => m.type === 'user' && !m.parentUuid);
+  const content = (root as UserMessage | undefined)?.message?.content;
+  if (typeof content === 'string') return content.trim();
+  if (Array.isArray(content)) {
+    const text = content.filter((b) => b.type === 'text').map((b) => (b as any).text ?? '').join('\n');
+    return text.trim() || null;
+  }
+  return null;
+}
+
+/** Sum usage across a transcript's API calls (deduped by message.id). */
+function transcriptUsage(messages: JSONLMessage[]): { in: number; out: number } {
+  const byId = new Map<string, { in: number; out: number }>();
+  for (const msg of messages) {
+    if (msg.type !== 'assistant') continue;
+    const m = (msg as any).message;
+    const usage = m?.usage;
+    if (!usage) continue;
+    byId.set(m?.id || msg.uuid, { in: usage.input_tokens || 0, out: usage.output_tokens || 0 });
+  }
+  let total = { in: 0, out: 0 };
+  for (const u of byId.values()) total = { in: total.in + u.in, out: total.out + u.out };
+  return total;
+}
+
+/** Last node in the main conversation chain (skips nested subagent nodes). */
+function findLastMainNode(nodes: GraphNode[]): GraphNode | null {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    if (!nodes[i].parentTaskId) return nodes[i];
+  }
+  return null;
+}
+
+/** Text that search matches against: label, detail, tool name and tool output. */
+export function nodeSearchText(node: GraphNode): string {
+  return node.label + '\n' + node.detail + '\n' + (node.toolName || '') + (node.result?.text ? '\n' + node.result.text : '');
+}
+
 // ---------------------------------------------------------------------------
 // Main graph builder
 // ---------------------------------------------------------------------------
@@ -119,33 +282,72 @@ function resolveToolStatus(
 export function buildGraph(
   messages: JSONLMessage[],
   endReason?: SessionEndReason,
+  subagents: SubagentTranscript[] = [],
+  branchSelections?: ReadonlyMap<string, string>,
+  lineage: { from?: SessionLink; into?: SessionLink } = {},
+  compactSummaries?: ReadonlyMap<string, CompactSummaryMatch>,
 ): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  // ---- Split out subagent sidechains ----
+  // Sidechain messages are rendered as nested clusters under their Task node,
+  // not as part of the main conversation chain.
+  const mainMessages: JSONLMessage[] = [];
+  const inlineSidechain: JSONLMessage[] = [];
+  for (const msg of messages) {
+    if (msg.isSidechain) inlineSidechain.push(msg);
+    else mainMessages.push(msg);
+  }
+  const transcripts: SubagentTranscript[] = [...subagents];
+  {
+    const knownAgents = new Set(subagents.map((t) => t.agentId));
+    for (const t of groupInlineSidechains(inlineSidechain)) {
+      if (!knownAgents.has(t.agentId)) transcripts.push(t);
+    }
+  }
+
   // ---- First pass: collect tool results ----
   const toolResults = new Map<string, string>();
+  const resultPayloads = new Map<string, ToolResultPayload>();
+  // Task tool_use id → subagent agentId (from toolUseResult or agent progress)
+  const agentIdByToolUseId = new Map<string, string>();
+
+  const collectToolResults = (msgs: JSONLMessage[]) => {
+    for (const msg of msgs) {
+      if (msg.type === 'progress') {
+        const agentId = (msg as any).data?.agentId;
+        if (agentId && msg.parentToolUseID) agentIdByToolUseId.set(msg.parentToolUseID, agentId);
+        continue;
+      }
+      if (msg.type !== 'user') continue;
+      const userMsg = msg as UserMessage;
+      const content = userMsg.message?.content;
+      if (!Array.isArray(content)) continue;
+      const resultAgentId = (msg as any).toolUseResult?.agentId as string | undefined;
 
-  for (const msg of messages) {
-    if (msg.type !== 'user') continue;
-    const userMsg = msg as UserMessage;
-    const content = userMsg.message?.content;
-    if (!Array.isArray(content)) continue;
-
-    for (const block of content) {
-      if (block.type === 'tool_result') {
-        // content can be a string or an array of content blocks
-        const raw = block.content;
-        let text = '';
-        if (typeof raw === 'string') {
-          text = raw;
-        } else if (Array.isArray(raw)) {
-          text = raw
-            .filter((b: any) => b.type === 'text')
-            .map((b: any) => b.text ?? '')
-            .join('\n');
+      for (const block of content) {
+        if (block.type === 'tool_result') {
+          // content can be a string or an array of content blocks
+          const raw = block.content;
+          let text = '';
+          if (typeof raw === 'string') {
+            text = raw;
+          } else if (Array.isArray(raw)) {
+            text = raw
+              .filter((b: any) => b.type === 'text')
+              .map((b: any) => b.text ?? '')
+              .join('\n');
+          }
+          toolResults.set(block.tool_use_id, text);
+          resultPayloads.set(
+            block.tool_use_id,
+            buildResultPayload(text, raw, block.is_error === true, (msg as any).toolUseResult),
+          );
+          if (resultAgentId) agentIdByToolUseId.set(block.tool_use_id, resultAgentId);
         }
-        toolResults.set(block.tool_use_id, text);
       }
     }
-  }
+  };
+  collectToolResults(mainMessages);
+  for (const t of transcripts) collectToolResults(t.messages);
 
   // ---- Collect assistant text for reply-to snippets ----
   // Build parentUuid lookup and map ALL assistant chunk uuids (same API call) to text.
@@ -157,7 +359,7 @@ export function buildGraph(
     // Collect text per API call (message.id), and map each chunk uuid → message.id
     const textByMid = new Map<string, string>();
     const uuidToMid = new Map<string, string>();
-    for (const msg of messages) {
+    for (const msg of mainMessages) {
       if (msg.uuid && msg.parentUuid) parentOf.set(msg.uuid, msg.parentUuid);
       if (msg.type !== 'assistant') continue;
       const m = (msg as any).message;
@@ -207,10 +409,25 @@ export function buildGraph(
   // downstream messages still connect to the right ancestor node.
   const skipRedirect = new Map<string, string>();
 
+  // The summary injected after each compact_boundary is shown on the
+  // compaction node, not as a user prompt. Callers holding more history than
+  // `messages` (a windowed view) pass summaries audited against all of it.
+  const summaries = compactSummaries ?? collectCompactSummaries(mainMessages);
+  const summaryBoundaries = new Map<string, string>();
+  for (const [boundaryUuid, { summaryUuid }] of summaries) summaryBoundaries.set(summaryUuid, boundaryUuid);
+
+  // Subagent state: nodes are collected into a per-Task cluster (sink) while
+  // a transcript is processed, then spliced in after their Task node.
+  let sink: GraphNode[] = nodes;
+  let currentTaskId: string | null = null;
+  let currentTurnUserId: string | null = null;
+  const pendingTasks: { nodeId: string; toolUseId: string; prompt: string; turnUserId: string | null }[] = [];
+
   function addNode(node: GraphNode, uuid: string): void {
     // Pre-compute lowercase search text once
-    node._searchText = (node.label + '\n' + node.detail + '\n' + (node.toolName || '')).toLowerCase();
-    nodes.push(node);
+    node._searchText = nodeSearchText(node).toLowerCase();
+    if (currentTaskId) node.parentTaskId = currentTaskId;
+    sink.push(node);
     const list = uuidToNodeIds.get(uuid);
     if (list) {
       list.push(node.id);
@@ -219,17 +436,30 @@ export function buildGraph(
     }
   }
 
-  for (const msg of messages) {
+  function addMessageNodes(msg: JSONLMessage): void {
     // Skip progress and any unrecognised message types
-    if (msg.type === 'progress') continue;
-    if (msg.type !== 'user' && msg.type !== 'assistant' && msg.type !== 'system') continue;
+    if (msg.type === 'progress') return;
+    if (msg.type !== 'user' && msg.type !== 'assistant' && msg.type !== 'system') return;
 
     // ---- User messages ----
     if (msg.type === 'user') {
       const userMsg = msg as UserMessage;
       const content = userMsg.message?.content;
 
-      if (content == null) continue;
+      if (content == null) return;
+
+      const boundaryUuid = summaryBoundaries.get(msg.uuid);
+      if (boundaryUuid) {
+        skipRedirect.set(msg.uuid, boundaryUuid);
+        return;
+      }
+
+      // Inside a subagent, only the root prompt is a real user message and it
+      // is represented by the Task node itself — skip the rest.
+      if (currentTaskId) {
+        if (msg.parentUuid) skipRedirect.set(msg.uuid, msg.parentUuid);
+        return;
+      }
 
       // Resolve reply-to snippet: walk parent chain through system messages
       // and across streaming chunks to find the nearest assistant text
@@ -242,7 +472,7 @@ export function buildGraph(
           if (msg.parentUuid) {
             skipRedirect.set(msg.uuid, msg.parentUuid);
           }
-          continue;
+          return;
         }
 
         addNode(
@@ -261,10 +491,11 @@ export function buildGraph(
           msg.uuid,
         );
         awaitingFirstResponse = true;
-        continue;
+        currentTurnUserId = msg.uuid;
+        return;
       }
 
-      if (!Array.isArray(content)) continue;
+      if (!Array.isArray(content)) return;
 
       // Check if content is exclusively tool_result blocks — skip these but
       // record a redirect so downstream messages still link to the parent.
@@ -273,7 +504,7 @@ export function buildGraph(
         if (msg.parentUuid) {
           skipRedirect.set(msg.uuid, msg.parentUuid);
         }
-        continue;
+        return;
       }
 
       // Extract text from text blocks
@@ -288,7 +519,7 @@ export function buildGraph(
         if (msg.parentUuid) {
           skipRedirect.set(msg.uuid, msg.parentUuid);
         }
-        continue;
+        return;
       }
 
       const text = textParts.join('\n');
@@ -299,7 +530,7 @@ export function buildGraph(
         if (msg.parentUuid) {
           skipRedirect.set(msg.uuid, msg.parentUuid);
         }
-        continue;
+        return;
       }
 
       addNode(
@@ -318,14 +549,15 @@ export function buildGraph(
         msg.uuid,
       );
       awaitingFirstResponse = true;
-      continue;
+      currentTurnUserId = msg.uuid;
+      return;
     }
 
     // ---- Assistant messages ----
     if (msg.type === 'assistant') {
       const assistantMsg = msg as AssistantMessage;
       const content = assistantMsg.message?.content;
-      if (!Array.isArray(content)) continue;
+      if (!Array.isArray(content)) return;
 
       // Extract token usage from this API call
       const usage = (assistantMsg as any).message?.usage;
@@ -357,7 +589,7 @@ export function buildGraph(
           }
 
           case 'text': {
-            const isFirst = awaitingFirstResponse;
+            const isFirst = awaitingFirstResponse && !currentTaskId;
             if (isFirst) awaitingFirstResponse = false;
             addNode(
               {
@@ -380,12 +612,13 @@ export function buildGraph(
           }
 
           case 'tool_use': {
-            const status = resolveToolStatus(block.id, toolResults);
+            const status = resolveToolStatus(toolResults.get(block.id), resultPayloads.get(block.id)?.isError === true);
             const isQuestion = block.name === 'AskUserQuestion';
             const qData = isQuestion ? extractQuestionData(block.input, block.id, toolResults) : {};
+            const nodeId = `${msg.uuid}-${i}`;
             addNode(
               {
-                id: `${msg.uuid}-${i}`,
+                id: nodeId,
                 parentId: msg.parentUuid,
                 kind: 'tool_use',
                 toolName: block.name,
@@ -396,10 +629,21 @@ export function buildGraph(
                 isNew: false,
                 inputTokens,
                 outputTokens,
+                result: resultPayloads.get(block.id),
+                fileChange: extractFileChange(block.name, block.input),
                 ...qData,
               },
               msg.uuid,
             );
+            if (SUBAGENT_TOOLS.has(block.name)) {
+              const prompt = (block.input as any)?.prompt;
+              pendingTasks.push({
+                nodeId,
+                toolUseId: block.id,
+                prompt: typeof prompt === 'string' ? prompt.trim() : '',
+                turnUserId: currentTurnUserId,
+              });
+            }
             break;
           }
 
@@ -408,7 +652,7 @@ export function buildGraph(
             break;
         }
       }
-      continue;
+      return;
     }
 
     // ---- System messages ----
@@ -420,6 +664,7 @@ export function buildGraph(
         const meta = sysMsg.compactMetadata as { trigger?: string; preTokens?: number } | undefined;
         const preTokens = meta?.preTokens ?? 0;
         const logicalParent = (sysMsg as any).logicalParentUuid ?? msg.parentUuid;
+        const summary = summaries.get(msg.uuid)?.summary;
 
         addNode(
           {
@@ -428,15 +673,17 @@ export function buildGraph(
             kind: 'compaction',
             toolName: null,
             label: `Compacted (${formatTokens(preTokens)} tokens)`,
-            detail: `Trigger: ${meta?.trigger ?? 'unknown'}\nPre-compaction tokens: ${preTokens.toLocaleString()}`,
+            detail: `Trigger: ${meta?.trigger ?? 'unknown'}\nPre-compaction tokens: ${preTokens.toLocaleString()}`
+              + (summary ? `\n\n${summary.text}` : ''),
             status: null,
             timestamp: msg.timestamp,
             isNew: false,
             compactTokens: preTokens,
+            compactSummary: summary,
           },
           msg.uuid,
         );
-        continue;
+        return;
       }
 
       // Generic system message (turn_duration, etc.)
@@ -454,7 +701,79 @@ export function buildGraph(
         },
         msg.uuid,
       );
-      continue;
+    }
+  }
+
+  for (const msg of mainMessages) addMessageNodes(msg);
+
+  // ---- Subagent clusters ----
+  // Each Task node with a matching transcript gets a cluster of nodes built
+  // from the subagent's messages. Nested Tasks inside a subagent are queued
+  // too, so clusters can nest arbitrarily deep.
+  const edgeMessages: JSONLMessage[] = [...mainMessages];
+  const clusters = new Map<string, GraphNode[]>();
+  const clusterUsage: { turnUserId: string | null; usage: { in: number; out: number } }[] = [];
+  if (transcripts.length > 0) {
+    const byAgentId = new Map(transcripts.map((t) => [t.agentId, t]));
+    const byPrompt = new Map<string, SubagentTranscript>();
+    for (const t of transcripts) {
+      const prompt = transcriptPrompt(t);
+      if (prompt && !byPrompt.has(prompt)) byPrompt.set(prompt, t);
+    }
+    const used = new Set<SubagentTranscript>();
+    const taskNodes = new Map<string, GraphNode>();
+
+    while (pendingTasks.length > 0) {
+      const task = pendingTasks.shift()!;
+      const agentId = agentIdByToolUseId.get(task.toolUseId);
+      const transcript = (agentId && byAgentId.get(agentId)) || (task.prompt && byPrompt.get(task.prompt)) || undefined;
+      if (!transcript || used.has(transcript)) continue;
+      used.add(transcript);
+
+      // The subagent's root prompt is the Task input — anchor its children to the Task node
+      const root = transcript.messages.find((m) => m.type === 'user' && !m.parentUuid);
+      if (root) uuidToNodeIds.set(root.uuid, [task.nodeId]);
+
+      const cluster: GraphNode[] = [];
+      sink = cluster;
+      currentTaskId = task.nodeId;
+      currentTurnUserId = task.turnUserId;
+      for (const msg of transcript.messages) {
+        if (msg !== root) addMessageNodes(msg);
+      }
+      edgeMessages.push(...transcript.messages);
+      clusters.set(task.nodeId, cluster);
+
+      const usage = transcriptUsage(transcript.messages);
+      clusterUsage.push({ turnUserId: task.turnUserId, usage });
+      for (const n of cluster) {
+        if (n.kind === 'tool_use' && SUBAGENT_TOOLS.has(n.toolName || '')) taskNodes.set(n.id, n);
+      }
+      const taskNode = taskNodes.get(task.nodeId) ?? nodes.find((n) => n.id === task.nodeId);
+      if (taskNode) {
+        taskNode.subagent = {
+          agentId: transcript.agentId,
+          nodeCount: cluster.length,
+          toolCount: cluster.filter((n) => n.kind === 'tool_use').length,
+          inputTokens: usage.in,
+          outputTokens: usage.out,
+        };
+      }
+    }
+    sink = nodes;
+    currentTaskId = null;
+
+    // Splice each cluster in right after its Task node so array order
+    // (used by collapse, navigation and last-message marking) stays per-turn.
+    if (clusters.size > 0) {
+      const flat: GraphNode[] = [];
+      const emit = (n: GraphNode) => {
+        flat.push(n);
+        const cluster = clusters.get(n.id);
+        if (cluster) for (const c of cluster) emit(c);
+      };
+      for (const n of nodes) emit(n);
+      nodes.splice(0, nodes.length, ...flat);
     }
   }
 
@@ -470,7 +789,7 @@ export function buildGraph(
     return current;
   }
 
-  for (const msg of messages) {
+  for (const msg of edgeMessages) {
     if (!msg.parentUuid) continue;
 
     const resolvedParent = resolveUuid(msg.parentUuid);
@@ -502,52 +821,64 @@ export function buildGraph(
     }
   }
 
+  // ---- Branches from rewinds / edited prompts ----
+  // The fork node gets a branch-point marker; nodes off the main line are
+  // marked abandoned so the layout can move them to a faded side path.
+  {
+    const branches = detectBranches(mainMessages, branchSelections);
+    if (branches.forks.size > 0) {
+      const nodeById = new Map(nodes.map((n) => [n.id, n]));
+      const forkNodeIds = new Map<string, string>();
+      for (const fork of branches.forks.values()) {
+        const ids = uuidToNodeIds.get(resolveUuid(fork.parentUuid));
+        if (!ids || ids.length === 0) continue;
+        const forkNodeId = ids[ids.length - 1];
+        forkNodeIds.set(fork.parentUuid, forkNodeId);
+        const forkNode = nodeById.get(forkNodeId);
+        if (forkNode) {
+          forkNode.branchPoint = { forkUuid: fork.parentUuid, branchUuids: fork.branchUuids, mainIndex: fork.mainIndex };
+        }
+      }
+      for (const [uuid, { forkUuid, index }] of branches.abandoned) {
+        const forkNodeId = forkNodeIds.get(forkUuid);
+        if (!forkNodeId) continue;
+        const branchUuid = branches.forks.get(forkUuid)!.branchUuids[index];
+        for (const id of uuidToNodeIds.get(uuid) ?? []) {
+          const n = nodeById.get(id);
+          if (n && n.id !== forkNodeId) n.abandonedBranch = { forkNodeId, forkUuid, index, branchUuid };
+        }
+      }
+      // Subagent clusters follow their Task node (clusters come right after it in array order)
+      for (const n of nodes) {
+        const task = n.parentTaskId ? nodeById.get(n.parentTaskId) : undefined;
+        if (task?.abandonedBranch) n.abandonedBranch = task.abandonedBranch;
+      }
+    }
+  }
+
   // ---- Compute turn tokens for user nodes ----
-  // Walk messages: each user message starts a turn, accumulate assistant tokens until next user msg.
-  // Dedup by message.id since streaming chunks repeat usage for the same API call.
+  // Same per-call attribution as the cost panel: every API call between one
+  // prompt and the next belongs to that prompt's turn.
   {
     const userNodeMap = new Map<string, GraphNode>();
     for (const n of nodes) {
       if (n.kind === 'user') userNodeMap.set(n.id, n);
     }
 
-    let currentUserNode: GraphNode | null = null;
-    // Map of message.id → { in, out } for the current turn (last chunk wins)
-    let turnUsage = new Map<string, { in: number; out: number }>();
-
-    function flushTurn() {
-      if (!currentUserNode || turnUsage.size === 0) return;
-      let turnIn = 0;
-      let turnOut = 0;
-      for (const u of turnUsage.values()) {
-        turnIn += u.in;
-        turnOut += u.out;
-      }
-      if (turnIn > 0 || turnOut > 0) {
-        currentUserNode.turnInputTokens = turnIn;
-        currentUserNode.turnOutputTokens = turnOut;
-      }
+    for (const call of collectApiCalls(mainMessages)) {
+      const userNode = call.turnId ? userNodeMap.get(call.turnId) : undefined;
+      if (!userNode || (call.input === 0 && call.output === 0)) continue;
+      userNode.turnInputTokens = (userNode.turnInputTokens || 0) + call.input;
+      userNode.turnOutputTokens = (userNode.turnOutputTokens || 0) + call.output;
     }
 
-    for (const msg of messages) {
-      if (msg.type === 'user') {
-        flushTurn();
-        currentUserNode = userNodeMap.get(msg.uuid) || null;
-        turnUsage = new Map();
-      } else if (msg.type === 'assistant' && currentUserNode) {
-        const m = (msg as any).message;
-        const usage = m?.usage;
-        if (usage) {
-          const mid = m?.id || msg.uuid;
-          // Overwrite: later chunk for same API call has final usage
-          turnUsage.set(mid, {
-            in: usage.input_tokens || 0,
-            out: usage.output_tokens || 0,
-          });
-        }
-      }
+    // Roll subagent usage up into the turn that spawned it
+    for (const { turnUserId, usage } of clusterUsage) {
+      const userNode = turnUserId ? userNodeMap.get(turnUserId) : undefined;
+      if (!userNode || (usage.in === 0 && usage.out === 0)) continue;
+      userNode.turnInputTokens = (userNode.turnInputTokens || 0) + usage.in;
+      userNode.turnOutputTokens = (userNode.turnOutputTokens || 0) + usage.out;
     }
-    flushTurn();
   }
 
   // NOTE: isLastMessage marking moved to fullRebuild (after filtering)
@@ -556,7 +887,7 @@ export function buildGraph(
   // ---- Queued messages: show pending queue-operation entries ----
   {
     const pending: { content: string; timestamp: string }[] = [];
-    for (const msg of messages) {
+    for (const msg of mainMessages) {
       if ((msg as any).type !== 'queue-operation') continue;
       const op = (msg as any).operation as string;
       if (op === 'enqueue' && (msg as any).content) {
@@ -568,7 +899,8 @@ export function buildGraph(
       }
     }
 
-    let prevId = nodes.length > 0 ? nodes[nodes.length - 1].id : null;
+    const lastMain = findLastMainNode(nodes);
+    let prevId = lastMain ? lastMain.id : null;
     for (let i = 0; i < pending.length; i++) {
       const qId = `__queue_${i}__`;
       const content = pending[i].content;
@@ -592,13 +924,16 @@ export function buildGraph(
   }
 
   // ---- Synthetic session-end node ----
-  if (endReason && endReason !== 'active' && nodes.length > 0) {
-    const lastNode = nodes[nodes.length - 1];
+  const lastMainNode = findLastMainNode(nodes);
+  if (endReason && endReason !== 'active' && lastMainNode) {
+    const lastNode = lastMainNode;
     const endId = '__session_end__';
     const endLabel = endReason === 'compacted' ? 'Session Compacted' : 'Session Ended';
-    const endDetail = endReason === 'compacted'
-      ? 'Context was compressed. A new session may continue this work.'
-      : 'No further messages were recorded.';
+    const endDetail = lineage.into
+      ? `Continued in the next session: ${lineage.into.title}`
+      : endReason === 'compacted'
+        ? 'Context was compressed. A new session may continue this work.'
+        : 'No further messages were recorded.';
     nodes.push({
       id: endId,
       parentId: lastNode.id,
@@ -610,6 +945,7 @@ export function buildGraph(
       timestamp: lastNode.timestamp,
       isNew: false,
       endReason,
+      linkedSession: lineage.into,
       _searchText: (endLabel + '\n' + endDetail).toLowerCase(),
     });
     edges.push({
@@ -619,5 +955,30 @@ export function buildGraph(
     });
   }
 
+  // ---- Synthetic continued-from node, ahead of the first root ----
+  if (lineage.from) {
+    const targets = new Set(edges.map((e) => e.target));
+    const firstRoot = nodes.find((n) => !targets.has(n.id) && !n.parentTaskId && !n.abandonedBranch);
+    if (firstRoot) {
+      const linkId = '__continued_from__';
+      const detail = `Picks up after compaction of the previous session: ${lineage.from.title}`;
+      firstRoot.parentId = linkId;
+      nodes.unshift({
+        id: linkId,
+        parentId: null,
+        kind: 'continuation',
+        toolName: null,
+        label: 'Continued From',
+        detail,
+        status: null,
+        timestamp: firstRoot.timestamp,
+        isNew: false,
+        linkedSession: lineage.from,
+        _searchText: ('continued from\n' + detail).toLowerCase(),
+      });
+      edges.unshift({ id: `${linkId}->${firstRoot.id}`, source: linkId, target: firstRoot.id });
+    }
+  }
+
   return { nodes, edges };
 }
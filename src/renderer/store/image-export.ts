@@ -0,0 +1,111 @@
+// ---------------------------------------------------------------------------
+// Image export — serialises the rendered ReactFlow viewport (nodes + neon
+// edges) into a standalone SVG with the app's stylesheets inlined, and
+// rasterises that SVG for PNG. No extra dependencies: the SVG wraps the
+// live DOM in a <foreignObject>, which Chromium can draw onto a canvas.
+// ---------------------------------------------------------------------------
+
+export type ImageFormat = 'svg' | 'png';
+export type ImageArea = 'viewport' | 'full';
+
+export interface ImageExportRequest {
+  format: ImageFormat;
+  area: ImageArea;
+  /** Keep edge particles and CSS animations; off gives a clean still. */
+  animations: boolean;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FULL_PADDING = 40;
+const BACKGROUND = '#0a0a0f';
+/** Stay well inside Chromium's canvas limits (32767px per side, ~268M px area). */
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 150_000_000;
+
+const STILL_CSS = `
+  *, *::before, *::after { animation: none !important; transition: none !important; }
+`;
+
+/** Concatenate every same-origin stylesheet rule (nodes.css, edges.css, ReactFlow's). */
+function collectCss(): string {
+  const parts: string[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    try {
+      for (const rule of Array.from(sheet.cssRules)) parts.push(rule.cssText);
+    } catch {
+      // Cross-origin stylesheet — can't read its rules
+    }
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Build a standalone SVG of the flow. `bounds` is the full graph extent in
+ * flow coordinates; it's only used when area is 'full'.
+ */
+export function renderFlowSvg(
+  flowEl: HTMLElement,
+  bounds: Bounds,
+  opts: ImageExportRequest,
+): { svg: string; width: number; height: number } {
+  const viewportEl = flowEl.querySelector('.react-flow__viewport') as HTMLElement | null;
+  if (!viewportEl) throw new Error('ReactFlow viewport not found');
+
+  const clone = viewportEl.cloneNode(true) as HTMLElement;
+  if (!opts.animations) {
+    for (const el of Array.from(clone.querySelectorAll('.edge-particle'))) el.remove();
+  }
+
+  let width: number;
+  let height: number;
+  if (opts.area === 'full') {
+    width = Math.ceil(bounds.width + FULL_PADDING * 2);
+    height = Math.ceil(bounds.height + FULL_PADDING * 2);
+    clone.style.transform = `translate(${FULL_PADDING - bounds.x}px, ${FULL_PADDING - bounds.y}px) scale(1)`;
+  } else {
+    width = flowEl.clientWidth;
+    height = flowEl.clientHeight;
+  }
+
+  const css = collectCss() + (opts.animations ? '' : STILL_CSS);
+  const body = new XMLSerializer().serializeToString(clone);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="100%" height="100%" fill="${BACKGROUND}"/>` +
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">` +
+    `<div xmlns="http://www.w3.org/1999/xhtml" class="react-flow" style="position:relative;width:${width}px;height:${height}px;overflow:hidden;background:${BACKGROUND}">` +
+    `<style><![CDATA[${css.replace(/]]>/g, ']]]]><![CDATA[>')}]]></style>${body}</div></foreignObject></svg>`;
+  return { svg, width, height };
+}
+
+/** Rasterise an SVG string to PNG bytes, scaled down if it would exceed canvas limits. */
+export async function svgToPng(svg: string, width: number, height: number): Promise<Uint8Array> {
+  const scale = Math.min(
+    window.devicePixelRatio || 1,
+    MAX_CANVAS_SIDE / width,
+    MAX_CANVAS_SIDE / height,
+    Math.sqrt(MAX_CANVAS_AREA / (width * height)),
+  );
+
+  const img = new Image();
+  img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(width * scale);
+  canvas.height = Math.floor(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.scale(scale, scale);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('PNG encoding failed');
+  return new Uint8Array(await blob.arrayBuffer());
+}
@@ -0,0 +1,47 @@
+import type { LayoutDirection, LayoutEngineId } from '../../shared/types';
+
+// ---------------------------------------------------------------------------
+// Layout choice per session — kept in renderer localStorage
+// ---------------------------------------------------------------------------
+
+export interface LayoutChoice {
+  engine: LayoutEngineId;
+  direction: LayoutDirection;
+}
+
+export const DEFAULT_LAYOUT: LayoutChoice = { engine: 'conversation', direction: 'TB' };
+
+const SESSION_LAYOUTS_KEY = 'claude-mindmap.sessionLayouts';
+/** Oldest choices are dropped past this many sessions. */
+const MAX_REMEMBERED = 200;
+
+const ENGINES: LayoutEngineId[] = ['conversation', 'tree', 'timeline'];
+
+function loadAll(): Record<string, LayoutChoice> {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SESSION_LAYOUTS_KEY) ?? '{}');
+    return raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadSessionLayout(sessionPath: string): LayoutChoice {
+  const choice = loadAll()[sessionPath];
+  if (!choice || !ENGINES.includes(choice.engine)) return DEFAULT_LAYOUT;
+  return { engine: choice.engine, direction: choice.direction === 'LR' ? 'LR' : 'TB' };
+}
+
+export function persistSessionLayout(sessionPath: string, choice: LayoutChoice): void {
+  const all = loadAll();
+  delete all[sessionPath]; // re-insert so the most recent choice is last
+  const isDefault = choice.engine === DEFAULT_LAYOUT.engine && choice.direction === DEFAULT_LAYOUT.direction;
+  if (!isDefault) all[sessionPath] = choice;
+  const keys = Object.keys(all);
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_REMEMBERED))) delete all[key];
+  try {
+    localStorage.setItem(SESSION_LAYOUTS_KEY, JSON.stringify(all));
+  } catch {
+    // Storage unavailable — the choice lasts for this run only
+  }
+}
@@ -0,0 +1,335 @@
+import dagre from 'dagre';
+import type { GraphNode, GraphEdge, LayoutDirection, LayoutEngineId } from '../../shared/types';
+import type { LayoutChoice } from './layout-prefs';
+
+// ---------------------------------------------------------------------------
+// Graph layouts — positions for GraphNodes, independent of React Flow so the
+// exporters can lay out a graph too.
+// ---------------------------------------------------------------------------
+
+export const NODE_WIDTH = 340; // matches CSS max-width on .mind-map-node
+export const BASE_HEIGHT = 50;
+const LINE_HEIGHT = 17;
+const CHARS_PER_LINE = 36;
+const MAX_LINES = 8;
+export const COL_GAP = 120;  // horizontal gap between columns
+export const ROW_GAP = 35;   // vertical gap between nodes in a column
+export const TOP_MARGIN = 40;
+const LAST_MESSAGE_WIDTH = 420; // .mind-map-node.last-message
+const TIMELINE_GAP = 24;  // horizontal gap between nodes in a timeline lane
+
+const EXPANDED_CHARS_PER_LINE = 34; // conservative — accounts for code indentation
+const EXPANDED_LINE_HEIGHT = 19;    // 12px * 1.6 line-height
+const EXPANDED_MAX_CONTENT = 500;   // matches CSS max-height on .node-expanded-content
+const EXPANDED_OVERHEAD = 100;      // header + padding + nav buttons
+const RESULT_MAX_CONTENT = 240;     // matches CSS max-height on .node-result-text
+const RESULT_OVERHEAD = 40;         // result header + border + padding
+
+export function estimateNodeHeight(node: GraphNode, isExpanded = false): number {
+  if (isExpanded) {
+    // Diff views render old + new lines (an upper bound) plus a file header
+    const fc = node.fileChange;
+    const text = fc
+      ? [fc.filePath, ...fc.edits.flatMap((e) => [e.oldString, e.newString]), fc.content ?? ''].join('\n')
+      : node.detail || node.label;
+    let lines = 0;
+    for (const seg of text.split('\n')) {
+      // Each newline is at least one line; long segments wrap
+      lines += Math.max(1, Math.ceil(seg.length / EXPANDED_CHARS_PER_LINE));
+    }
+    const contentHeight = Math.min(lines * EXPANDED_LINE_HEIGHT, EXPANDED_MAX_CONTENT);
+    let resultHeight = 0;
+    if (node.result) {
+      let resultLines = node.result.images.length * 2;
+      for (const seg of node.result.text.split('\n')) {
+        resultLines += Math.max(1, Math.ceil(seg.length / EXPANDED_CHARS_PER_LINE));
+      }
+      resultHeight = RESULT_OVERHEAD + Math.min(resultLines * EXPANDED_LINE_HEIGHT, RESULT_MAX_CONTENT);
+    }
+    return EXPANDED_OVERHEAD + contentHeight + resultHeight;
+  }
+
+  // Last-message nodes show up to 16 lines in a wider box
+  const maxLines = node.isLastMessage ? 16 : MAX_LINES;
+  const charsPerLine = node.isLastMessage ? 44 : CHARS_PER_LINE; // wider node
+  // Count actual rendered lines: each \n creates a line break (pre-wrap),
+  // plus long lines wrap. Take the larger of char-based vs newline-based estimate.
+  const charBasedLines = Math.ceil(node.label.length / charsPerLine);
+  let actualLines = charBasedLines;
+  if (node.label.includes('\n')) {
+    const segments = node.label.split('\n');
+    actualLines = 0;
+    for (const seg of segments) {
+      actualLines += Math.max(1, Math.ceil(seg.length / charsPerLine));
+    }
+  }
+  const lines = Math.min(Math.max(charBasedLines, actualLines), maxLines);
+  let height = BASE_HEIGHT + lines * LINE_HEIGHT;
+  // User nodes have extra content: reply-to snippet + token tally
+  if (node.kind === 'user') {
+    if (node.replyToSnippet) height += 24;
+    if (node.turnInputTokens || node.turnOutputTokens) height += 4;
+  }
+  // First-response text nodes have larger text
+  if (node.isFirstResponse) height += 12;
+  // Last-message nodes have a "Waiting for you" badge
+  if (node.isLastMessage) height += 32;
+  // Task nodes show a subagent summary row
+  if (node.subagent) height += 22;
+  // Compaction nodes show what the summary kept
+  if (node.compactSummary) height += 18;
+  return height;
+}
+
+export function nodeWidth(node: GraphNode): number {
+  return node.isLastMessage ? LAST_MESSAGE_WIDTH : NODE_WIDTH;
+}
+
+// ---------------------------------------------------------------------------
+// Conversation layout: user messages horizontal, responses vertical below
+// ---------------------------------------------------------------------------
+
+export function conversationLayout(
+  graphNodes: GraphNode[],
+  graphEdges: GraphEdge[],
+  expandedNodeId?: string | null,
+): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  if (graphNodes.length === 0) return positions;
+
+  // Build adjacency
+  const childrenOf = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  for (const e of graphEdges) {
+    const list = childrenOf.get(e.source);
+    if (list) list.push(e.target);
+    else childrenOf.set(e.source, [e.target]);
+    hasParent.add(e.target);
+  }
+
+  // Node lookup
+  const nodeMap = new Map<string, GraphNode>();
+  for (const n of graphNodes) nodeMap.set(n.id, n);
+
+  // Find roots
+  const roots: string[] = [];
+  for (const n of graphNodes) {
+    if (!hasParent.has(n.id)) roots.push(n.id);
+  }
+
+  // DFS to collect nodes in chain order
+  const ordered: GraphNode[] = [];
+  const visited = new Set<string>();
+  function dfs(id: string): void {
+    if (visited.has(id)) return;
+    visited.add(id);
+    const gn = nodeMap.get(id);
+    if (gn) ordered.push(gn);
+    const kids = childrenOf.get(id) || [];
+    for (const kid of kids) dfs(kid);
+  }
+  for (const rootId of roots) dfs(rootId);
+  // Orphans
+  for (const n of graphNodes) {
+    if (!visited.has(n.id)) {
+      visited.add(n.id);
+      ordered.push(n);
+    }
+  }
+
+  // Pull subagent nodes out of the main flow — each cluster becomes a nested
+  // column beside the Task node that spawned it. Abandoned branches (rewinds,
+  // edited prompts) likewise become side columns beside their fork node.
+  const clusterOf = new Map<string, GraphNode[]>();
+  const sideBranchesOf = new Map<string, Map<number, GraphNode[]>>();
+  const mainOrdered: GraphNode[] = [];
+  for (const node of ordered) {
+    if (node.parentTaskId) {
+      const list = clusterOf.get(node.parentTaskId);
+      if (list) list.push(node);
+      else clusterOf.set(node.parentTaskId, [node]);
+    } else if (node.abandonedBranch) {
+      const { forkNodeId, index } = node.abandonedBranch;
+      let branches = sideBranchesOf.get(forkNodeId);
+      if (!branches) sideBranchesOf.set(forkNodeId, branches = new Map());
+      const list = branches.get(index);
+      if (list) list.push(node);
+      else branches.set(index, [node]);
+    } else {
+      mainOrdered.push(node);
+    }
+  }
+
+  // Split into columns: each column starts at a user node
+  const columns: GraphNode[][] = [];
+  let currentCol: GraphNode[] = [];
+  for (const node of mainOrdered) {
+    if (node.kind === 'user' && currentCol.length > 0) {
+      columns.push(currentCol);
+      currentCol = [node];
+    } else {
+      currentCol.push(node);
+    }
+  }
+  if (currentCol.length > 0) columns.push(currentCol);
+
+  /** Stack nodes in a column at x starting at startY; returns the next free x. */
+  function placeStack(stack: GraphNode[], x: number, startY: number): number {
+    let nextX = x + NODE_WIDTH + COL_GAP;
+    let y = startY;
+    for (const node of stack) {
+      positions.set(node.id, { x, y });
+      nextX = placeAttached(node.id, nextX, y);
+      y += estimateNodeHeight(node, node.id === expandedNodeId) + ROW_GAP;
+    }
+    return nextX;
+  }
+
+  /** Columns hanging off a node (subagent cluster, then abandoned branches), level with it. */
+  function placeAttached(nodeId: string, x: number, y: number): number {
+    let nextX = x;
+    const cluster = clusterOf.get(nodeId);
+    if (cluster) nextX = placeStack(cluster, nextX, y);
+    for (const branch of sideBranchesOf.get(nodeId)?.values() ?? []) nextX = placeStack(branch, nextX, y);
+    return nextX;
+  }
+
+  // Position: columns left-to-right, nodes stacked vertically within each
+  let x = 0;
+  for (const column of columns) {
+    x = placeStack(column, x, TOP_MARGIN);
+  }
+
+  // Subagent or branch nodes whose Task / fork node is hidden: stack them in a trailing column
+  let y = TOP_MARGIN;
+  for (const node of ordered) {
+    if (positions.has(node.id)) continue;
+    positions.set(node.id, { x, y });
+    y += estimateNodeHeight(node, node.id === expandedNodeId) + ROW_GAP;
+  }
+
+  return positions;
+}
+
+// ---------------------------------------------------------------------------
+// Tree layout: dagre over the actual edges, so rewinds and forks branch
+// ---------------------------------------------------------------------------
+
+export function treeLayout(
+  graphNodes: GraphNode[],
+  graphEdges: GraphEdge[],
+  direction: LayoutDirection,
+  expandedNodeId?: string | null,
+): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  if (graphNodes.length === 0) return positions;
+
+  const g = new dagre.graphlib.Graph();
+  g.setGraph({
+    rankdir: direction,
+    nodesep: direction === 'TB' ? 60 : ROW_GAP,
+    ranksep: direction === 'TB' ? ROW_GAP + 25 : COL_GAP,
+    marginx: 0,
+    marginy: TOP_MARGIN,
+  });
+  g.setDefaultEdgeLabel(() => ({}));
+
+  const sizes = new Map<string, { width: number; height: number }>();
+  for (const n of graphNodes) {
+    const size = { width: nodeWidth(n), height: estimateNodeHeight(n, n.id === expandedNodeId) };
+    sizes.set(n.id, size);
+    g.setNode(n.id, size);
+  }
+  for (const e of graphEdges) {
+    if (sizes.has(e.source) && sizes.has(e.target)) g.setEdge(e.source, e.target);
+  }
+
+  dagre.layout(g);
+
+  // dagre positions node centers; React Flow wants the top-left corner
+  for (const n of graphNodes) {
+    const { x, y } = g.node(n.id);
+    const size = sizes.get(n.id)!;
+    positions.set(n.id, { x: x - size.width / 2, y: y - size.height / 2 });
+  }
+  return positions;
+}
+
+// ---------------------------------------------------------------------------
+// Timeline layout: message order left to right, one lane per node kind
+// ---------------------------------------------------------------------------
+
+function timelineLane(node: GraphNode): number {
+  if (node.parentTaskId) return 4;
+  switch (node.kind) {
+    case 'user': return 0;
+    case 'thinking':
+    case 'text': return 1;
+    case 'tool_use': return 2;
+    default: return 3;
+  }
+}
+
+export function timelineLayout(
+  graphNodes: GraphNode[],
+  expandedNodeId?: string | null,
+): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  if (graphNodes.length === 0) return positions;
+
+  // Lane heights fit their tallest node; empty lanes take no space
+  const laneHeight = new Map<number, number>();
+  for (const n of graphNodes) {
+    const lane = timelineLane(n);
+    laneHeight.set(lane, Math.max(laneHeight.get(lane) ?? 0, estimateNodeHeight(n, n.id === expandedNodeId)));
+  }
+  const laneY = new Map<number, number>();
+  let y = TOP_MARGIN;
+  for (const lane of [...laneHeight.keys()].sort((a, b) => a - b)) {
+    laneY.set(lane, y);
+    y += laneHeight.get(lane)! + ROW_GAP;
+  }
+
+  // Nodes never start left of their predecessor, so x order is message
+  // order; consecutive nodes in different lanes can share a slot.
+  const laneNextX = new Map<number, number>();
+  let prevX = 0;
+  for (const n of graphNodes) {
+    const lane = timelineLane(n);
+    const x = Math.max(prevX, laneNextX.get(lane) ?? 0);
+    positions.set(n.id, { x, y: laneY.get(lane)! });
+    laneNextX.set(lane, x + nodeWidth(n) + TIMELINE_GAP);
+    prevX = x;
+  }
+  return positions;
+}
+
+// ---------------------------------------------------------------------------
+// Engine registry
+// ---------------------------------------------------------------------------
+
+export interface LayoutEngineInfo {
+  id: LayoutEngineId;
+  label: string;
+  title: string;
+}
+
+export const LAYOUT_ENGINES: LayoutEngineInfo[] = [
+  { id: 'conversation', label: 'Turns', title: 'One column per user turn, responses stacked below' },
+  { id: 'tree', label: 'Tree', title: 'Branching tree of the real parent links \u2014 shows rewinds and forks' },
+  { id: 'timeline', label: 'Timeline', title: 'Compact timeline in message order, one lane per node kind' },
+];
+
+/** Positions for every node under the chosen layout. */
+export function layoutGraph(
+  layout: LayoutChoice,
+  graphNodes: GraphNode[],
+  graphEdges: GraphEdge[],
+  expandedNodeId?: string | null,
+): Map<string, { x: number; y: number }> {
+  switch (layout.engine) {
+    case 'tree': return treeLayout(graphNodes, graphEdges, layout.direction, expandedNodeId);
+    case 'timeline': return timelineLayout(graphNodes, expandedNodeId);
+    default: return conversationLayout(graphNodes, graphEdges, expandedNodeId);
+  }
+}
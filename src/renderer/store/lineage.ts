@@ -0,0 +1,92 @@
+import type { JSONLMessage, SessionInfo, SessionLink } from '../../shared/types';
+
+// ---------------------------------------------------------------------------
+// Session lineage — a long task that compacts is split over several session
+// files, each continuing the last. Discovery links them through
+// continuedFrom / continuedIn; these helpers walk and stitch the chain.
+// ---------------------------------------------------------------------------
+
+function byPath(sessions: SessionInfo[]): Map<string, SessionInfo> {
+  return new Map(sessions.map((s) => [s.filePath, s]));
+}
+
+/** Earlier sessions that `path` continues, oldest first. */
+export function lineageAncestors(sessions: SessionInfo[], path: string): SessionInfo[] {
+  const lookup = byPath(sessions);
+  const out: SessionInfo[] = [];
+  const seen = new Set([path]);
+  let prev = lookup.get(path)?.continuedFrom;
+  while (prev && !seen.has(prev)) {
+    seen.add(prev);
+    const session = lookup.get(prev);
+    if (!session) break;
+    out.unshift(session);
+    prev = session.continuedFrom;
+  }
+  return out;
+}
+
+/** The latest session in the lineage `path` belongs to (`path` itself when nothing continues it). */
+export function lineageTip(sessions: SessionInfo[], path: string): string {
+  const lookup = byPath(sessions);
+  const seen = new Set([path]);
+  let tip = path;
+  let next = lookup.get(path)?.continuedIn;
+  while (next && !seen.has(next) && lookup.has(next)) {
+    seen.add(next);
+    tip = next;
+    next = lookup.get(next)?.continuedIn;
+  }
+  return tip;
+}
+
+/** Number of session files in the lineage `path` belongs to. */
+export function lineageLength(sessions: SessionInfo[], path: string): number {
+  const session = sessions.find((s) => s.filePath === path);
+  if (!session?.continuedFrom && !session?.continuedIn) return 1;
+  const tip = lineageTip(sessions, path);
+  return lineageAncestors(sessions, tip).length + 1;
+}
+
+/** Prompt a link to `session` shows: where it left off, or where it picks up. */
+function linkTitle(session: SessionInfo, end: 'first' | 'last'): string {
+  const prompts = session.userPrompts ?? [];
+  const prompt = end === 'first' ? prompts[0] : prompts[prompts.length - 1];
+  return prompt || session.displayText;
+}
+
+/**
+ * Links for the graph of `active`: the session before the first one shown
+ * (`stitched` lists the earlier sessions loaded into the same graph), and
+ * the session that continues `active`.
+ */
+export function lineageLinks(
+  sessions: SessionInfo[],
+  active: SessionInfo | undefined,
+  stitched: string[],
+): { from?: SessionLink; into?: SessionLink } {
+  if (!active) return {};
+  const lookup = byPath(sessions);
+  const first = stitched.length > 0 ? lookup.get(stitched[0]) : active;
+  const from = first?.continuedFrom ? lookup.get(first.continuedFrom) : undefined;
+  const into = active.continuedIn ? lookup.get(active.continuedIn) : undefined;
+  return {
+    from: from && { filePath: from.filePath, title: linkTitle(from, 'last') },
+    into: into && { filePath: into.filePath, title: linkTitle(into, 'first') },
+  };
+}
+
+/**
+ * Concatenate the messages of earlier sessions, oldest first. A continuation
+ * may carry over messages from the session before it; the later copy wins.
+ */
+export function mergeLineage(files: JSONLMessage[][]): JSONLMessage[] {
+  const seen = new Set<string>();
+  const kept: JSONLMessage[][] = [];
+  for (let i = files.length - 1; i >= 0; i--) {
+    const file = files[i].filter((m) => !m.uuid || !seen.has(m.uuid));
+    for (const m of file) if (m.uuid) seen.add(m.uuid);
+    kept.unshift(file);
+  }
+  return kept.flat();
+}
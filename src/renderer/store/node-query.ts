@@ -0,0 +1,334 @@
+import type { GraphNode, GraphNodeKind } from '../../shared/types';
+import { nodeSearchText } from './graph-builder';
+
+// ---------------------------------------------------------------------------
+// Node query language — the toolbar search box accepts space-separated terms:
+//
+//   kind:thinking        node kind (user, thinking, text, tool, system, ...)
+//   tool:Bash            tool name, `*` wildcards allowed (tool:mcp__*)
+//   status:error         running | success | error
+//   file:src/**          file path of Read/Edit/Write/Grep/... (glob)
+//   after:14:00          local time of day, or a date (after:2026-10-19)
+//   before:09:30
+//   tokens>5k            input+output tokens; also input, output, exit
+//   -tool:Read           leading `-` negates any term
+//   "auth bug"           anything else matches node text (see SearchOptions)
+//
+// All terms must match. Unknown `key:` prefixes fall back to text so URLs
+// and the like still search as before.
+// ---------------------------------------------------------------------------
+
+export type NodePredicate = (node: GraphNode) => boolean;
+
+/** How text terms match; structured terms are unaffected. */
+export interface SearchOptions {
+  /** Treat each text term as a regular expression. */
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = { regex: false, caseSensitive: false, wholeWord: false };
+
+export interface ParsedNodeQuery {
+  /** Null when the query is empty. */
+  predicate: NodePredicate | null;
+  /** Global pattern for the positive text terms, for highlighting matched spans. */
+  highlight: RegExp | null;
+  /** Human-readable problems with individual terms (those terms are ignored). */
+  errors: string[];
+}
+
+const KIND_ALIASES: Record<string, GraphNodeKind> = {
+  user: 'user',
+  prompt: 'user',
+  thinking: 'thinking',
+  text: 'text',
+  reply: 'text',
+  tool: 'tool_use',
+  tool_use: 'tool_use',
+  system: 'system',
+  compaction: 'compaction',
+  end: 'session_end',
+  session_end: 'session_end',
+  continued: 'continuation',
+  continuation: 'continuation',
+  queue: 'queue',
+};
+
+const STATUSES = new Set(['running', 'success', 'error']);
+
+const NUMERIC_FIELDS: Record<string, (n: GraphNode) => number | undefined> = {
+  tokens: (n) => tokenCount(n, 'input') + tokenCount(n, 'output'),
+  input: (n) => tokenCount(n, 'input'),
+  output: (n) => tokenCount(n, 'output'),
+  exit: (n) => n.result?.exitCode,
+};
+
+/** Per-call tokens on response nodes, whole-turn tokens on user nodes. */
+function tokenCount(node: GraphNode, which: 'input' | 'output'): number {
+  if (node.kind === 'user') return (which === 'input' ? node.turnInputTokens : node.turnOutputTokens) ?? 0;
+  return (which === 'input' ? node.inputTokens : node.outputTokens) ?? 0;
+}
+
+const PATH_IN_INPUT = /"(?:file_path|notebook_path|path)":\s*"((?:[^"\\]|\\.)*)"/;
+
+/** File a tool node touched, from its diff or its JSON input. */
+function nodeFilePath(node: GraphNode): string | null {
+  if (node.fileChange) return node.fileChange.filePath;
+  if (node.kind !== 'tool_use') return null;
+  const m = PATH_IN_INPUT.exec(node.detail);
+  if (!m) return null;
+  try {
+    return JSON.parse(`"${m[1]}"`);
+  } catch {
+    return m[1];
+  }
+}
+
+/**
+ * Glob → RegExp. `**` crosses directories, `*` and `?` don't. The pattern
+ * may match any trailing run of path segments, so `src/**` matches
+ * `/home/me/proj/src/a.ts`.
+ */
+function globToRegExp(glob: string, anchorToSegment: boolean): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      re += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++; // "**/" also matches zero directories
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(anchorToSegment ? `(^|/)${re}$` : `^${re}$`, 'i');
+}
+
+/** "5k" → 5000, "1.2m" → 1200000 */
+function parseAmount(value: string): number | null {
+  const m = /^(\d+(?:\.\d+)?)([km]?)$/i.exec(value);
+  if (!m) return null;
+  const mult = m[2].toLowerCase() === 'k' ? 1_000 : m[2].toLowerCase() === 'm' ? 1_000_000 : 1;
+  return parseFloat(m[1]) * mult;
+}
+
+/**
+ * after:/before: bound. HH:MM compares the node's local time of day; a date
+ * or full timestamp compares absolute time.
+ */
+function parseTimeBound(value: string): ((ts: Date) => number) | null {
+  const hm = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (hm) {
+    const minutes = parseInt(hm[1], 10) * 60 + parseInt(hm[2], 10);
+    if (minutes >= 24 * 60) return null;
+    return (ts) => ts.getHours() * 60 + ts.getMinutes() - minutes;
+  }
+  // Bare dates are local midnight, not UTC
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const bound = new Date(dateOnly ? `${value}T00:00` : value).getTime();
+  if (isNaN(bound)) return null;
+  return (ts) => ts.getTime() - bound;
+}
+
+/** Split on whitespace, keeping "quoted phrases" (and key:"quoted values") together. */
+function tokenizeQuery(query: string): string[] {
+  const terms: string[] = [];
+  const re = /(-?[\w]+(?:[:<>]=?|!=)"[^"]*"?|-?"[^"]*"?|\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(query)) !== null) terms.push(m[1]);
+  return terms;
+}
+
+function unquote(s: string): string {
+  return s.replace(/^"/, '').replace(/"$/, '');
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Predicate for a free-text term. Plain case-insensitive search stays a
+ * substring check on the precomputed lowercase text; other modes compile a
+ * RegExp and run it on the original text. `source` feeds highlighting.
+ */
+function textTerm(
+  text: string,
+  raw: string,
+  options: SearchOptions,
+  errors: string[],
+): { predicate: NodePredicate; source: string } | null {
+  let source = options.regex ? text : escapeRegExp(text);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+  let re: RegExp;
+  try {
+    re = new RegExp(source, options.caseSensitive ? '' : 'i');
+  } catch {
+    errors.push(`${raw}: invalid regular expression`);
+    return null;
+  }
+  if (!options.regex && !options.caseSensitive && !options.wholeWord) {
+    const lower = text.toLowerCase();
+    return { predicate: (n) => (n._searchText || '').includes(lower), source };
+  }
+  return { predicate: (n) => re.test(nodeSearchText(n)), source };
+}
+
+function parseTerm(raw: string, options: SearchOptions, errors: string[], highlights: string[]): NodePredicate | null {
+  let term = raw;
+  let negate = false;
+  if (term.startsWith('-') && term.length > 1) {
+    negate = true;
+    term = term.slice(1);
+  }
+  const wrap = (p: NodePredicate): NodePredicate => (negate ? (n) => !p(n) : p);
+
+  const cmp = /^(\w+)(>=|<=|!=|>|<)(.+)$/.exec(term);
+  if (cmp && NUMERIC_FIELDS[cmp[1].toLowerCase()]) {
+    const field = NUMERIC_FIELDS[cmp[1].toLowerCase()];
+    const amount = parseAmount(cmp[3]);
+    if (amount === null) {
+      errors.push(`${raw}: expected a number like 5000 or 5k`);
+      return null;
+    }
+    const op = cmp[2];
+    return wrap((n) => {
+      const v = field(n);
+      if (v === undefined) return false;
+      switch (op) {
+        case '>': return v > amount;
+        case '<': return v < amount;
+        case '>=': return v >= amount;
+        case '<=': return v <= amount;
+        default: return v !== amount;
+      }
+    });
+  }
+
+  const kv = /^(\w+):(.+)$/.exec(term);
+  if (kv) {
+    const key = kv[1].toLowerCase();
+    const value = unquote(kv[2]);
+    switch (key) {
+      case 'kind': {
+        const kind = KIND_ALIASES[value.toLowerCase()];
+        if (!kind) {
+          errors.push(`${raw}: unknown kind`);
+          return null;
+        }
+        return wrap((n) => n.kind === kind);
+      }
+      case 'tool': {
+        const re = globToRegExp(value, false);
+        return wrap((n) => n.toolName !== null && re.test(n.toolName));
+      }
+      case 'status': {
+        const status = value.toLowerCase();
+        if (!STATUSES.has(status)) {
+          errors.push(`${raw}: status is running, success or error`);
+          return null;
+        }
+        return wrap((n) => n.status === status || (status === 'error' && !!n.result?.isError));
+      }
+      case 'file': {
+        const re = globToRegExp(value.replace(/\\/g, '/'), true);
+        return wrap((n) => {
+          const p = nodeFilePath(n);
+          return p !== null && re.test(p.replace(/\\/g, '/'));
+        });
+      }
+      case 'after':
+      case 'before': {
+        const diff = parseTimeBound(value);
+        if (!diff) {
+          errors.push(`${raw}: expected HH:MM or a date`);
+          return null;
+        }
+        const after = key === 'after';
+        return wrap((n) => {
+          const ts = new Date(n.timestamp);
+          if (isNaN(ts.getTime())) return false;
+          const d = diff(ts);
+          return after ? d >= 0 : d < 0;
+        });
+      }
+      case 'exit': {
+        const code = parseInt(value, 10);
+        if (isNaN(code)) {
+          errors.push(`${raw}: expected an exit code`);
+          return null;
+        }
+        return wrap((n) => n.result?.exitCode === code);
+      }
+      default:
+        break; // Not a known field — plain text below
+    }
+  }
+
+  const text = unquote(term);
+  if (!text) return null;
+  const parsed = textTerm(text, raw, options, errors);
+  if (!parsed) return null;
+  if (!negate) highlights.push(parsed.source);
+  return wrap(parsed.predicate);
+}
+
+const EMPTY_QUERY: ParsedNodeQuery = { predicate: null, highlight: null, errors: [] };
+
+let lastKey = '';
+let lastParsed: ParsedNodeQuery = EMPTY_QUERY;
+
+/**
+ * Parse a toolbar query. The last result is cached since filters re-run
+ * often, and components select `highlight` by reference.
+ */
+export function parseNodeQuery(query: string, options: SearchOptions = DEFAULT_SEARCH_OPTIONS): ParsedNodeQuery {
+  if (!query.trim()) return EMPTY_QUERY;
+  const key = `${+options.regex}${+options.caseSensitive}${+options.wholeWord}${query}`;
+  if (key === lastKey) return lastParsed;
+
+  const errors: string[] = [];
+  const predicates: NodePredicate[] = [];
+  const highlights: string[] = [];
+  for (const raw of tokenizeQuery(query)) {
+    const predicate = parseTerm(raw, options, errors, highlights);
+    if (predicate) predicates.push(predicate);
+  }
+
+  lastKey = key;
+  lastParsed = {
+    predicate: predicates.length > 0 ? (n) => predicates.every((p) => p(n)) : null,
+    highlight: highlights.length > 0 ? new RegExp(highlights.join('|'), options.caseSensitive ? 'g' : 'gi') : null,
+    errors,
+  };
+  return lastParsed;
+}
+
+// ---------------------------------------------------------------------------
+// Saved queries — kept in renderer localStorage
+// ---------------------------------------------------------------------------
+
+const SAVED_QUERIES_KEY = 'claude-mindmap.savedQueries';
+
+export function loadSavedQueries(): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(SAVED_QUERIES_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw.filter((q): q is string => typeof q === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function persistSavedQueries(queries: string[]): void {
+  try {
+    localStorage.setItem(SAVED_QUERIES_KEY, JSON.stringify(queries));
+  } catch {
+    // Storage unavailable — queries last for this run only
+  }
+}
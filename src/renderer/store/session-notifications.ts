@@ -0,0 +1,60 @@
+import type { ActivityInfo } from '../../shared/session-analysis';
+
+// ---------------------------------------------------------------------------
+// Session notifications — which activity changes deserve a desktop
+// notification, and the per-session mute list.
+// ---------------------------------------------------------------------------
+
+/** Activity states worth interrupting the user for. */
+export type AttentionState = 'question' | 'waiting' | 'compacting';
+
+export function attentionState(info: ActivityInfo): AttentionState | null {
+  if (info.activity === 'tool_running' && info.detail === 'AskUserQuestion') return 'question';
+  if (info.activity === 'waiting_on_user') return 'waiting';
+  if (info.activity === 'compacting') return 'compacting';
+  return null;
+}
+
+const TITLES: Record<AttentionState, string> = {
+  question: 'Claude has a question',
+  waiting: 'Claude is waiting for you',
+  compacting: 'Claude is compacting context',
+};
+
+/**
+ * The notification for a session moving from `prev` to `next`, or null.
+ * Only entering an attention state notifies; staying in one doesn't.
+ */
+export function notificationFor(
+  prev: AttentionState | null,
+  next: AttentionState | null,
+  sessionName: string,
+  lastReply?: string,
+): { title: string; body: string } | null {
+  if (!next || next === prev) return null;
+  const body = next === 'waiting' && lastReply ? `${sessionName}\n${lastReply}` : sessionName;
+  return { title: TITLES[next], body };
+}
+
+// ---------------------------------------------------------------------------
+// Muted sessions — kept in renderer localStorage
+// ---------------------------------------------------------------------------
+
+const MUTED_SESSIONS_KEY = 'claude-mindmap.mutedSessions';
+
+export function loadMutedSessions(): string[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(MUTED_SESSIONS_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw.filter((p): p is string => typeof p === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function persistMutedSessions(paths: string[]): void {
+  try {
+    localStorage.setItem(MUTED_SESSIONS_KEY, JSON.stringify(paths));
+  } catch {
+    // Storage unavailable — mutes last for this run only
+  }
+}
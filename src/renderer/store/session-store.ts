@@ -5,24 +5,31 @@ import {
   GraphNode,
   GraphEdge,
   LayoutDirection,
+  LayoutEngineId,
   SessionEndReason,
+  SubagentTranscript,
+  UsageIndexSnapshot,
+  UsageIndexStatus,
 } from '../../shared/types';
+import { BUILTIN_PRICING, type PricingInfo } from '../../shared/pricing';
 import { buildGraph } from './graph-builder';
-
-export type LiveActivity = 'idle' | 'thinking' | 'tool_running' | 'responding' | 'waiting_on_user' | 'compacting';
-
-export interface ActivityInfo {
-  activity: LiveActivity;
-  detail?: string; // e.g., tool name for tool_running
-}
-
-export interface TokenStats {
-  inputTokens: number;
-  outputTokens: number;
-  cacheRead: number;
-  cacheCreation: number;
-  estimatedCost: number;
-}
+import {
+  parseNodeQuery,
+  loadSavedQueries,
+  persistSavedQueries,
+  DEFAULT_SEARCH_OPTIONS,
+  type SearchOptions,
+} from './node-query';
+import { computeTokenStats, detectActivity, type TokenStats, type LiveActivity } from '../../shared/session-analysis';
+import type { ImageExportRequest } from './image-export';
+import { detectThrash, EMPTY_THRASH_REPORT, type ThrashReport } from './thrash-detection';
+import { loadMutedSessions, persistMutedSessions } from './session-notifications';
+import { loadSessionLayout, persistSessionLayout } from './layout-prefs';
+import { lineageLinks, lineageTip, mergeLineage } from './lineage';
+import { collectCompactSummaries, type CompactSummaryMatch } from './compaction-summary';
+
+export { detectActivity };
+export type { LiveActivity, ActivityInfo, TokenStats } from '../../shared/session-analysis';
 
 interface SessionState {
   // Session management
@@ -31,6 +38,7 @@ interface SessionState {
 
   // Graph data
   rawMessages: JSONLMessage[];
+  subagentTranscripts: SubagentTranscript[];
   nodes: GraphNode[];
   edges: GraphEdge[];
 
@@ -41,9 +49,22 @@ interface SessionState {
   // Per-session message cache (survives session switches)
   _sessionCache: Map<string, JSONLMessage[]>;
 
+  /** Load the earlier sessions of a compaction lineage into the same graph. */
+  stitchLineage: boolean;
+  /** Messages of the stitched earlier sessions; rawMessages = [..._lineagePrefix, ...this session's messages]. */
+  _lineagePrefix: JSONLMessage[];
+  /** File paths of the stitched earlier sessions, oldest first. */
+  _lineagePaths: string[];
+  /** Compaction summaries audited against all of rawMessages, not just the windowed graph; reused on append. */
+  _compactSummaries: Map<string, CompactSummaryMatch>;
+
   // UI state
   selectedNodeId: string | null;
   expandedNodeId: string | null;
+  /** Fork parentUuid → prompt uuid of the branch the user picked as main line (this session only). */
+  branchSelections: Map<string, string>;
+  /** Layout engine and tree direction, remembered per session. */
+  layoutEngine: LayoutEngineId;
   layoutDirection: LayoutDirection;
   showThinking: boolean;
   showText: boolean;
@@ -61,10 +82,27 @@ interface SessionState {
   lastActivityTime: number;
   collapsedNodes: Set<string>;
   searchQuery: string;
+  searchOptions: SearchOptions;
+  savedQueries: string[];
   tokenStats: TokenStats;
+  /** Loop/thrash warnings per user turn, recomputed as messages arrive. */
+  thrash: ThrashReport;
+  pricingInfo: PricingInfo;
   backgroundActivities: Map<string, { activity: LiveActivity; detail?: string; sessionName: string; lastReply?: string }>;
+  /** File paths of sessions whose desktop notifications are muted. */
+  mutedSessions: string[];
   isWindowed: boolean;
   totalMessageCount: number;
+  showFilesPanel: boolean;
+  showFailuresPanel: boolean;
+  showCostPanel: boolean;
+  showContextPanel: boolean;
+  showUsageDashboard: boolean;
+  showSearchPanel: boolean;
+  /** Node to focus once the session being opened has loaded (global search click-through). */
+  pendingFocusNodeId: string | null;
+  usageIndex: UsageIndexSnapshot;
+  imageExportRequest: ImageExportRequest | null;
   _filterRevision: number;
 
   // Turn tracking (for live status bar)
@@ -78,9 +116,16 @@ interface SessionState {
   setActiveSession: (path: string) => void;
   setMessages: (messages: JSONLMessage[]) => void;
   appendMessages: (messages: JSONLMessage[]) => void;
+  setSubagentTranscripts: (transcripts: SubagentTranscript[]) => void;
+  setPricing: (info: PricingInfo) => void;
   selectNode: (id: string | null) => void;
   expandNode: (id: string | null) => void;
   setLayoutDirection: (dir: LayoutDirection) => void;
+  setLayoutEngine: (engine: LayoutEngineId) => void;
+  selectBranch: (forkUuid: string, branchUuid: string) => void;
+  toggleStitchLineage: () => void;
+  setLineageMessages: (path: string, paths: string[], files: JSONLMessage[][]) => void;
+  openLinkedSession: (path: string) => void;
   toggleShowThinking: () => void;
   toggleShowText: () => void;
   toggleShowSystem: () => void;
@@ -92,7 +137,12 @@ interface SessionState {
   setIdle: () => void;
   toggleCollapse: (nodeId: string) => void;
   setSearchQuery: (query: string) => void;
+  setSearchOptions: (options: Partial<SearchOptions>) => void;
+  navigateSearchMatch: (direction: 'prev' | 'next') => void;
+  saveQuery: (query: string) => void;
+  removeSavedQuery: (query: string) => void;
   setBackgroundActivities: (map: Map<string, { activity: LiveActivity; detail?: string; sessionName: string; lastReply?: string }>) => void;
+  toggleSessionMute: (path: string) => void;
   loadFullSession: () => void;
   navigateUserMessage: (direction: 'prev' | 'next') => void;
   navigateExpandedNode: (direction: 'prev' | 'next') => void;
@@ -100,6 +150,18 @@ interface SessionState {
   navigateToFirstUserMessage: () => void;
   navigateToLastUserMessage: () => void;
   clearCenterOnNode: () => void;
+  focusNode: (nodeId: string) => void;
+  toggleFilesPanel: () => void;
+  toggleFailuresPanel: () => void;
+  toggleCostPanel: () => void;
+  toggleContextPanel: () => void;
+  toggleUsageDashboard: () => void;
+  toggleSearchPanel: () => void;
+  openSessionAtNode: (path: string, nodeId: string) => void;
+  setUsageIndex: (snapshot: UsageIndexSnapshot) => void;
+  setUsageIndexStatus: (status: UsageIndexStatus) => void;
+  requestImageExport: (request: ImageExportRequest) => void;
+  clearImageExportRequest: () => void;
 
   // Split view
   splitMode: boolean;
@@ -109,61 +171,6 @@ interface SessionState {
   swapPanes: () => void;
 }
 
-// ---------------------------------------------------------------------------
-// Token cost estimation (USD per million tokens, Sonnet 4 pricing as default)
-// ---------------------------------------------------------------------------
-const PRICING: Record<string, { input: number; output: number }> = {
-  'claude-sonnet-4-20250514': { input: 3, output: 15 },
-  'claude-opus-4-20250514': { input: 15, output: 75 },
-  'claude-haiku-4-20250506': { input: 0.8, output: 4 },
-};
-const DEFAULT_PRICING = { input: 3, output: 15 };
-
-function computeTokenStats(messages: JSONLMessage[]): TokenStats {
-  // Deduplicate by message ID — Claude Code writes multiple streaming chunks
-  // per API call, each with cumulative usage. Only use the last chunk per ID.
-  const lastUsageById = new Map<string, { usage: any; model: string }>();
-
-  for (const msg of messages) {
-    if (msg.type !== 'assistant') continue;
-    const m = (msg as any).message;
-    const usage = m?.usage;
-    if (!usage) continue;
-    const id = m?.id || '';
-    // Later entries for the same ID overwrite earlier ones (last = final usage)
-    lastUsageById.set(id, { usage, model: m?.model || '' });
-  }
-
-  let inputTokens = 0;
-  let outputTokens = 0;
-  let cacheRead = 0;
-  let cacheCreation = 0;
-  let estimatedCost = 0;
-
-  for (const { usage, model } of lastUsageById.values()) {
-    const inTok = usage.input_tokens || 0;
-    const outTok = usage.output_tokens || 0;
-    const cRead = usage.cache_read_input_tokens || 0;
-    const cCreate = usage.cache_creation_input_tokens || 0;
-
-    inputTokens += inTok;
-    outputTokens += outTok;
-    cacheRead += cRead;
-    cacheCreation += cCreate;
-
-    const price = PRICING[model] || DEFAULT_PRICING;
-    // Cache-aware pricing: cache_read at 10%, cache_creation at 125%
-    estimatedCost += (
-      inTok * price.input +
-      cRead * price.input * 0.1 +
-      cCreate * price.input * 1.25 +
-      outTok * price.output
-    ) / 1_000_000;
-  }
-
-  return { inputTokens, outputTokens, cacheRead, cacheCreation, estimatedCost };
-}
-
 // ---------------------------------------------------------------------------
 // Descendant counting — single-pass memoized computation
 // ---------------------------------------------------------------------------
@@ -235,6 +242,7 @@ export function applyFilters(
   showSystem: boolean,
   collapsedNodes: Set<string>,
   searchQuery: string,
+  searchOptions: SearchOptions = DEFAULT_SEARCH_OPTIONS,
 ): { nodes: GraphNode[]; edges: GraphEdge[] } {
   // 1. Visibility filter (compaction + session_end always pass through)
   let filtered = nodes.filter((node) => {
@@ -320,105 +328,18 @@ export function applyFilters(
     }));
   }
 
-  // 3. Search: mark matching nodes (only when there's an active query)
-  if (searchQuery.length > 0) {
-    const q = searchQuery.toLowerCase();
+  // 3. Search: mark nodes matching the query (only when it has usable terms)
+  const { predicate } = parseNodeQuery(searchQuery, searchOptions);
+  if (predicate) {
     filtered = filtered.map((node) => ({
       ...node,
-      searchMatch: (node._searchText || '').includes(q),
+      searchMatch: predicate(node),
     }));
   }
 
   return { nodes: filtered, edges: filteredEdges };
 }
 
-/**
- * Detect what Claude is currently doing based on the tail of the message stream.
- * Walk backwards from the end to find the last meaningful message type.
- * When isKnownActive is true (lock file present), skip the staleness check
- * so long-running tools don't falsely show as idle.
- */
-export function detectActivity(messages: JSONLMessage[], isKnownActive = false, fileMtime = 0): ActivityInfo {
-  // If the last message is more than 30 seconds old and we don't know the session
-  // is active, assume it's idle
-  if (!isKnownActive && messages.length > 0) {
-    const last = messages[messages.length - 1];
-    if (last.timestamp) {
-      const age = Date.now() - new Date(last.timestamp).getTime();
-      if (age > 30_000) return { activity: 'idle' };
-    }
-  }
-
-  // Check staleness of the last message — used as a fallback below
-  let lastMessageAge = 0;
-  if (messages.length > 0) {
-    const last = messages[messages.length - 1];
-    if (last.timestamp) {
-      lastMessageAge = Date.now() - new Date(last.timestamp).getTime();
-    }
-  }
-
-  let sawSystem = false;
-
-  for (let i = messages.length - 1; i >= 0; i--) {
-    const msg = messages[i];
-
-    // Progress messages mean something is actively happening
-    if (msg.type === 'progress') continue;
-
-    // System messages (turn duration) appear after Claude finishes a turn.
-    // Compaction boundaries mean Claude is actively compacting context.
-    if (msg.type === 'system') {
-      if ((msg as any).subtype === 'compact_boundary') return { activity: 'compacting' };
-      sawSystem = true;
-      continue;
-    }
-
-    if (msg.type === 'assistant') {
-      const content = (msg as any).message?.content;
-      if (!Array.isArray(content) || content.length === 0) continue;
-      const last = content[content.length - 1];
-
-      // If a system message followed this assistant message, the turn is
-      // complete — Claude finished and is now waiting on the user.
-      if (sawSystem) {
-        if (last.type === 'text') return { activity: 'waiting_on_user' };
-        // After a tool_use + system = tool finished, Claude is processing result
-        return { activity: 'idle' };
-      }
-
-      // Check stop_reason — if the API response is complete, Claude is done
-      const stopReason = (msg as any).message?.stop_reason;
-      if (stopReason === 'end_turn') return { activity: 'waiting_on_user' };
-
-      // Staleness fallback: if the last message is old and we'd say
-      // 'responding' or 'thinking', Claude almost certainly finished and we
-      // missed the final signal (streaming chunk timing, watcher delay, etc.)
-      // BUT skip this if the file was modified recently — that means Claude
-      // is still actively writing even if individual message timestamps are stale.
-      const fileAge = fileMtime > 0 ? Date.now() - fileMtime : Infinity;
-      const fileRecentlyModified = fileAge < 5_000;
-      if (!fileRecentlyModified && lastMessageAge > 8_000) {
-        if (last.type === 'thinking' || last.type === 'text') {
-          return { activity: 'waiting_on_user' };
-        }
-      }
-
-      if (last.type === 'thinking') return { activity: 'thinking' };
-      if (last.type === 'tool_use') return { activity: 'tool_running', detail: last.name };
-      if (last.type === 'text') return { activity: 'responding' };
-      return { activity: 'idle' };
-    }
-
-    // A user message (whether string prompt or tool_result) means
-    // Claude hasn't started replying yet — still idle from our POV
-    if (msg.type === 'user') return { activity: 'idle' };
-
-    break;
-  }
-  return { activity: 'idle' };
-}
-
 // ---------------------------------------------------------------------------
 // Message windowing — show only the last N user turns for performance
 // ---------------------------------------------------------------------------
@@ -568,7 +489,11 @@ function fullRebuild(state: SessionState, messages: JSONLMessage[], maxTurnsOver
   const maxTurns = maxTurnsOverride ?? (isActive ? MAX_USER_TURNS_ACTIVE : MAX_USER_TURNS_PAST);
   const windowed = windowMessages(messages, maxTurns);
   const isWindowed = windowed.length < messages.length;
-  const { nodes: allNodes, edges: allEdges } = buildGraph(windowed, endReason);
+  const lineage = lineageLinks(state.sessions, activeSession, state._lineagePaths);
+  const compactSummaries = collectCompactSummaries(messages.filter((m) => !m.isSidechain), state._compactSummaries);
+  const { nodes: allNodes, edges: allEdges } = buildGraph(
+    windowed, endReason, state.subagentTranscripts, state.branchSelections, lineage, compactSummaries,
+  );
 
   // Auto-collapse: past sessions collapse all, active sessions keep last N expanded
   const autoCollapsed = isActive
@@ -578,7 +503,7 @@ function fullRebuild(state: SessionState, messages: JSONLMessage[], maxTurnsOver
   const { nodes, edges } = applyFilters(
     allNodes, allEdges,
     state.showThinking, state.showText, state.showSystem,
-    autoCollapsed, state.searchQuery,
+    autoCollapsed, state.searchQuery, state.searchOptions,
   );
 
   // Mark last message on the FILTERED node set so collapsed/hidden tool nodes
@@ -595,12 +520,12 @@ function fullRebuild(state: SessionState, messages: JSONLMessage[], maxTurnsOver
         n.isLastMessage = true;
         break;
       }
-      if (n.kind === 'system' || n.kind === 'thinking') continue;
+      if (n.kind === 'system' || n.kind === 'thinking' || n.parentTaskId) continue;
       break; // tool_use, user, compaction — Claude isn't waiting
     }
   }
 
-  return { allNodes, allEdges, nodes, edges, isWindowed, totalMessageCount: messages.length, autoCollapsed };
+  return { allNodes, allEdges, nodes, edges, isWindowed, totalMessageCount: messages.length, autoCollapsed, compactSummaries };
 }
 
 function filterOnly(state: SessionState, overrides: {
@@ -609,6 +534,7 @@ function filterOnly(state: SessionState, overrides: {
   showSystem?: boolean;
   collapsedNodes?: Set<string>;
   searchQuery?: string;
+  searchOptions?: SearchOptions;
 }) {
   const result = applyFilters(
     state._cachedAllNodes,
@@ -618,6 +544,7 @@ function filterOnly(state: SessionState, overrides: {
     overrides.showSystem ?? state.showSystem,
     overrides.collapsedNodes ?? state.collapsedNodes,
     overrides.searchQuery ?? state.searchQuery,
+    overrides.searchOptions ?? state.searchOptions,
   );
 
   // Re-mark isLastMessage on filtered set
@@ -634,7 +561,7 @@ function filterOnly(state: SessionState, overrides: {
         n.isLastMessage = true;
         break;
       }
-      if (n.kind === 'system' || n.kind === 'thinking') continue;
+      if (n.kind === 'system' || n.kind === 'thinking' || n.parentTaskId) continue;
       break;
     }
   }
@@ -642,7 +569,33 @@ function filterOnly(state: SessionState, overrides: {
   return result;
 }
 
-const EMPTY_STATS: TokenStats = { inputTokens: 0, outputTokens: 0, cacheRead: 0, cacheCreation: 0, estimatedCost: 0 };
+// ---------------------------------------------------------------------------
+// Search matches — every node the query matches, in graph order, including
+// nodes hidden inside collapsed turns (navigating to one expands its turn)
+// ---------------------------------------------------------------------------
+
+let matchCache: { nodes: GraphNode[]; key: string; ids: string[] } = { nodes: [], key: '', ids: [] };
+
+export function selectSearchMatchIds(state: Pick<SessionState,
+  '_cachedAllNodes' | 'searchQuery' | 'searchOptions' | 'showThinking' | 'showText' | 'showSystem'>): string[] {
+  const { predicate } = parseNodeQuery(state.searchQuery, state.searchOptions);
+  const key = `${state.searchQuery}\0${JSON.stringify(state.searchOptions)}${+state.showThinking}${+state.showText}${+state.showSystem}`;
+  if (matchCache.nodes === state._cachedAllNodes && matchCache.key === key) return matchCache.ids;
+
+  const ids: string[] = [];
+  if (predicate) {
+    for (const node of state._cachedAllNodes) {
+      if (!state.showThinking && node.kind === 'thinking') continue;
+      if (!state.showText && node.kind === 'text') continue;
+      if (!state.showSystem && node.kind === 'system') continue;
+      if (predicate(node)) ids.push(node.id);
+    }
+  }
+  matchCache = { nodes: state._cachedAllNodes, key, ids };
+  return ids;
+}
+
+const EMPTY_STATS: TokenStats = { inputTokens: 0, outputTokens: 0, cacheRead: 0, cacheCreation: 0, estimatedCost: 0, unknownModels: [] };
 
 export const useSessionStore = create<SessionState>((set, get) => ({
   // Session management
@@ -651,6 +604,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
   // Graph data
   rawMessages: [],
+  subagentTranscripts: [],
   nodes: [],
   edges: [],
 
@@ -661,9 +615,16 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   // Per-session message cache
   _sessionCache: new Map<string, JSONLMessage[]>(),
 
+  stitchLineage: false,
+  _lineagePrefix: [],
+  _lineagePaths: [],
+  _compactSummaries: new Map(),
+
   // UI state
   selectedNodeId: null,
   expandedNodeId: null,
+  branchSelections: new Map(),
+  layoutEngine: 'conversation',
   layoutDirection: 'TB',
   showThinking: true,
   showText: true,
@@ -681,10 +642,24 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   lastActivityTime: 0,
   collapsedNodes: new Set<string>(),
   searchQuery: '',
+  searchOptions: DEFAULT_SEARCH_OPTIONS,
+  savedQueries: loadSavedQueries(),
   tokenStats: EMPTY_STATS,
+  thrash: EMPTY_THRASH_REPORT,
+  pricingInfo: { table: BUILTIN_PRICING, filePath: '', error: null },
   backgroundActivities: new Map(),
+  mutedSessions: loadMutedSessions(),
   isWindowed: false,
   totalMessageCount: 0,
+  showFilesPanel: false,
+  showFailuresPanel: false,
+  showCostPanel: false,
+  showContextPanel: false,
+  showUsageDashboard: false,
+  showSearchPanel: false,
+  pendingFocusNodeId: null,
+  usageIndex: { sessions: [], status: { indexing: false, done: 0, total: 0 } },
+  imageExportRequest: null,
   _filterRevision: 0,
 
   // Turn tracking
@@ -704,10 +679,11 @@ export const useSessionStore = create<SessionState>((set, get) => ({
   setActiveSession: (path) => {
     const state = get();
     const cache = state._sessionCache;
+    if (state.pendingFocusNodeId) set({ pendingFocusNodeId: null });
 
     // Save current session's messages to cache before switching away
-    if (state.activeSessionPath && state.rawMessages.length > 0) {
-      cache.set(state.activeSessionPath, state.rawMessages);
+    if (state.activeSessionPath && state.rawMessages.length > state._lineagePrefix.length) {
+      cache.set(state.activeSessionPath, state.rawMessages.slice(state._lineagePrefix.length));
       // LRU eviction: keep at most 10 cached sessions
       if (cache.size > 10) {
         const oldest = cache.keys().next().value;
@@ -715,18 +691,34 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       }
     }
 
+    const layout = loadSessionLayout(path);
+
     // Try to restore from cache for instant display
     const cached = cache.get(path);
     const isActive = state.sessions.some(s => s.filePath === path && s.endReason === 'active');
     if (cached && cached.length > 0) {
       // Pass state with updated activeSessionPath so fullRebuild finds the correct session
-      const result = fullRebuild({ ...state, activeSessionPath: path }, cached);
+      const result = fullRebuild({
+        ...state,
+        activeSessionPath: path,
+        subagentTranscripts: [],
+        branchSelections: new Map(),
+        _lineagePaths: [],
+        _compactSummaries: new Map(),
+      }, cached);
       const { activity, detail } = detectActivity(cached, isActive);
-      const tokenStats = computeTokenStats(cached);
+      const tokenStats = computeTokenStats(cached, [], state.pricingInfo.table);
       const turnData = computeTurnData(cached);
       set({
         activeSessionPath: path,
+        branchSelections: new Map(),
+        _lineagePrefix: [],
+        _lineagePaths: [],
+        _compactSummaries: result.compactSummaries,
+        layoutEngine: layout.engine,
+        layoutDirection: layout.direction,
         rawMessages: cached,
+        subagentTranscripts: [],
         _cachedAllNodes: result.allNodes,
         _cachedAllEdges: result.allEdges,
         nodes: result.nodes,
@@ -740,6 +732,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         liveActivityDetail: detail,
         lastActivityTime: Date.now(),
         tokenStats,
+        thrash: detectThrash(cached),
         isWindowed: result.isWindowed,
         totalMessageCount: result.totalMessageCount,
         centerRequested: false,
@@ -753,7 +746,14 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     } else {
       set({
         activeSessionPath: path,
+        branchSelections: new Map(),
+        _lineagePrefix: [],
+        _lineagePaths: [],
+        _compactSummaries: new Map(),
+        layoutEngine: layout.engine,
+        layoutDirection: layout.direction,
         rawMessages: [],
+        subagentTranscripts: [],
         nodes: [],
         edges: [],
         _cachedAllNodes: [],
@@ -764,6 +764,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
         collapsedNodes: new Set<string>(),
         searchQuery: '',
         tokenStats: EMPTY_STATS,
+        thrash: EMPTY_THRASH_REPORT,
         isWindowed: false,
         totalMessageCount: 0,
         centerRequested: false,
@@ -777,12 +778,17 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     }
   },
 
-  setMessages: (messages) => {
+  setMessages: (own) => {
     const state = get();
-    const result = fullRebuild(state, messages);
+    // Stitched lineage: earlier sessions go first, minus anything this one carried over
+    const ownUuids = state._lineagePrefix.length > 0 ? new Set(own.map((m) => m.uuid)) : null;
+    const prefix = ownUuids ? state._lineagePrefix.filter((m) => !ownUuids.has(m.uuid)) : state._lineagePrefix;
+    const messages = prefix.length > 0 ? [...prefix, ...own] : own;
+    // A replaced list may differ anywhere, so every summary is audited again
+    const result = fullRebuild({ ...state, _compactSummaries: new Map() }, messages);
     const isActive = state.sessions.some(s => s.filePath === state.activeSessionPath && s.endReason === 'active');
     const { activity, detail } = detectActivity(messages, isActive);
-    const tokenStats = computeTokenStats(messages);
+    const tokenStats = computeTokenStats(messages, state.subagentTranscripts, state.pricingInfo.table);
     const turnData = computeTurnData(messages);
     const turnChanged = turnData.turnStartTime !== state.turnStartTime && turnData.turnStartTime > 0;
     const thinking = updateThinkingTracking(
@@ -791,12 +797,15 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     );
 
     // Keep session cache current
-    if (state.activeSessionPath && messages.length > 0) {
-      state._sessionCache.set(state.activeSessionPath, messages);
+    if (state.activeSessionPath && own.length > 0) {
+      state._sessionCache.set(state.activeSessionPath, own);
     }
 
     set({
       rawMessages: messages,
+      _lineagePrefix: prefix,
+      _compactSummaries: result.compactSummaries,
+      thrash: detectThrash(messages),
       _cachedAllNodes: result.allNodes,
       _cachedAllEdges: result.allEdges,
       nodes: result.nodes,
@@ -814,6 +823,12 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       turnThinkingMs: thinking.turnThinkingMs,
       _thinkingStartedAt: thinking._thinkingStartedAt,
     });
+
+    const pendingFocus = get().pendingFocusNodeId;
+    if (pendingFocus) {
+      set({ pendingFocusNodeId: null });
+      get().focusNode(pendingFocus);
+    }
   },
 
   appendMessages: (messages) => {
@@ -845,7 +860,7 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     const { activity, detail } = detectActivity(combined, isActive);
 
     // Recompute from all messages to stay accurate (dedup handles streaming chunks)
-    const tokenStats = computeTokenStats(combined);
+    const tokenStats = computeTokenStats(combined, state.subagentTranscripts, state.pricingInfo.table);
 
     const turnData = computeTurnData(combined);
     const turnChanged = turnData.turnStartTime !== state.turnStartTime && turnData.turnStartTime > 0;
@@ -856,11 +871,14 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
     // Keep session cache current
     if (state.activeSessionPath) {
-      state._sessionCache.set(state.activeSessionPath, combined);
+      state._sessionCache.set(state.activeSessionPath, combined.slice(state._lineagePrefix.length));
     }
 
     set({
       rawMessages: combined,
+      _compactSummaries: result.compactSummaries,
+      // Only the current turn can change on append; earlier turns are reused
+      thrash: detectThrash(combined, state.thrash),
       _cachedAllNodes: result.allNodes,
       _cachedAllEdges: result.allEdges,
       nodes: nodesWithFlags,
@@ -883,10 +901,99 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     });
   },
 
+  setSubagentTranscripts: (transcripts) => {
+    const state = get();
+    if (transcripts.length === 0 && state.subagentTranscripts.length === 0) return;
+    // Rebuild the graph with the nested clusters, but keep the user's
+    // current collapse state (fullRebuild would reset it to auto-collapse).
+    const next = { ...state, subagentTranscripts: transcripts };
+    const result = fullRebuild(next, state.rawMessages, state.isWindowed ? undefined : Infinity);
+    const { nodes, edges } = filterOnly(
+      { ...next, _cachedAllNodes: result.allNodes, _cachedAllEdges: result.allEdges },
+      {},
+    );
+    set({
+      subagentTranscripts: transcripts,
+      _cachedAllNodes: result.allNodes,
+      _cachedAllEdges: result.allEdges,
+      nodes,
+      edges,
+      tokenStats: computeTokenStats(state.rawMessages, transcripts, state.pricingInfo.table),
+    });
+  },
+
+  selectBranch: (forkUuid, branchUuid) => {
+    const state = get();
+    const branchSelections = new Map(state.branchSelections);
+    branchSelections.set(forkUuid, branchUuid);
+    // Same as a subagent reload: rebuild the graph but keep the collapse state
+    const next = { ...state, branchSelections };
+    const result = fullRebuild(next, state.rawMessages, state.isWindowed ? undefined : Infinity);
+    const { nodes, edges } = filterOnly(
+      { ...next, _cachedAllNodes: result.allNodes, _cachedAllEdges: result.allEdges },
+      {},
+    );
+    set({
+      branchSelections,
+      _cachedAllNodes: result.allNodes,
+      _cachedAllEdges: result.allEdges,
+      nodes,
+      edges,
+      _filterRevision: state._filterRevision + 1,
+    });
+  },
+
+  toggleStitchLineage: () => {
+    const state = get();
+    const path = state.activeSessionPath;
+    if (state.stitchLineage) {
+      set({ stitchLineage: false });
+      if (path) get().setLineageMessages(path, [], []);
+      return;
+    }
+    set({ stitchLineage: true });
+    // Stitch the whole lineage: jump to its latest session, the watcher loads the rest
+    const tip = path ? lineageTip(state.sessions, path) : null;
+    if (tip && tip !== path) get().openLinkedSession(tip);
+  },
+
+  setLineageMessages: (path, paths, files) => {
+    const state = get();
+    if (path !== state.activeSessionPath) return; // stale
+    if (paths.length === 0 && state._lineagePaths.length === 0) return;
+    const own = state.rawMessages.slice(state._lineagePrefix.length);
+    set({ _lineagePrefix: mergeLineage(files), _lineagePaths: paths });
+    if (own.length > 0) get().setMessages(own);
+  },
+
+  openLinkedSession: (path) => {
+    if (path === get().activeSessionPath) return;
+    set({ centerOnLoad: true, showUsageDashboard: false });
+    get().setActiveSession(path);
+  },
+
+  setPricing: (info) => {
+    const state = get();
+    set({
+      pricingInfo: info,
+      tokenStats: computeTokenStats(state.rawMessages, state.subagentTranscripts, info.table),
+    });
+  },
+
   selectNode: (id) => set({ selectedNodeId: id, expandedNodeId: null }),
   expandNode: (id) => set({ expandedNodeId: id }),
 
-  setLayoutDirection: (dir) => set({ layoutDirection: dir }),
+  setLayoutDirection: (dir) => {
+    const { activeSessionPath, layoutEngine } = get();
+    if (activeSessionPath) persistSessionLayout(activeSessionPath, { engine: layoutEngine, direction: dir });
+    set({ layoutDirection: dir });
+  },
+
+  setLayoutEngine: (engine) => {
+    const { activeSessionPath, layoutDirection } = get();
+    if (activeSessionPath) persistSessionLayout(activeSessionPath, { engine, direction: layoutDirection });
+    set({ layoutEngine: engine });
+  },
 
   // Filter toggles use filterOnly — skips buildGraph entirely.
   // _filterRevision is bumped so useAutoLayout generates fresh edge IDs,
@@ -955,8 +1062,47 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     set({ searchQuery: query, nodes, edges });
   },
 
+  setSearchOptions: (options) => {
+    const state = get();
+    const searchOptions = { ...state.searchOptions, ...options };
+    const { nodes, edges } = filterOnly(state, { searchOptions });
+    set({ searchOptions, nodes, edges });
+  },
+
+  navigateSearchMatch: (direction) => {
+    const state = get();
+    const ids = selectSearchMatchIds(state);
+    if (ids.length === 0) return;
+    const current = state.selectedNodeId ? ids.indexOf(state.selectedNodeId) : -1;
+    let next: number;
+    if (current < 0) next = direction === 'next' ? 0 : ids.length - 1;
+    else next = (current + (direction === 'next' ? 1 : -1) + ids.length) % ids.length;
+    state.focusNode(ids[next]);
+  },
+
+  saveQuery: (query: string) => {
+    const q = query.trim();
+    if (!q) return;
+    const savedQueries = [q, ...get().savedQueries.filter(s => s !== q)];
+    persistSavedQueries(savedQueries);
+    set({ savedQueries });
+  },
+
+  removeSavedQuery: (query: string) => {
+    const savedQueries = get().savedQueries.filter(s => s !== query);
+    persistSavedQueries(savedQueries);
+    set({ savedQueries });
+  },
+
   setBackgroundActivities: (map) => set({ backgroundActivities: map }),
 
+  toggleSessionMute: (path: string) => {
+    const muted = get().mutedSessions;
+    const mutedSessions = muted.includes(path) ? muted.filter(p => p !== path) : [...muted, path];
+    persistMutedSessions(mutedSessions);
+    set({ mutedSessions });
+  },
+
   loadFullSession: () => {
     const state = get();
     if (state.rawMessages.length === 0) return;
@@ -1113,6 +1259,57 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
   clearCenterOnNode: () => set({ centerOnNodeId: null, centerOnNodeBottom: false }),
 
+  focusNode: (nodeId) => {
+    let state = get();
+    // Node may be outside the windowed turns — load everything first
+    if (state.isWindowed && !state._cachedAllNodes.some((n) => n.id === nodeId)) {
+      state.loadFullSession();
+      state = get();
+    }
+    const idx = state._cachedAllNodes.findIndex((n) => n.id === nodeId);
+    if (idx < 0) return;
+
+    // Expand the owning user turn if it's collapsed
+    let turnId: string | null = null;
+    for (let i = idx; i >= 0; i--) {
+      if (state._cachedAllNodes[i].kind === 'user') {
+        turnId = state._cachedAllNodes[i].id;
+        break;
+      }
+    }
+    if (turnId && turnId !== nodeId && state.collapsedNodes.has(turnId)) {
+      const next = new Set(state.collapsedNodes);
+      next.delete(turnId);
+      const { nodes, edges } = filterOnly(state, { collapsedNodes: next });
+      set({ collapsedNodes: next, nodes, edges });
+    }
+
+    set({ selectedNodeId: nodeId, centerOnNodeId: nodeId, autoFollow: false });
+  },
+
+  toggleFilesPanel: () => set((s) => ({ showFilesPanel: !s.showFilesPanel })),
+  toggleFailuresPanel: () => set((s) => ({ showFailuresPanel: !s.showFailuresPanel })),
+  toggleCostPanel: () => set((s) => ({ showCostPanel: !s.showCostPanel })),
+  toggleContextPanel: () => set((s) => ({ showContextPanel: !s.showContextPanel })),
+  toggleUsageDashboard: () => set((s) => ({ showUsageDashboard: !s.showUsageDashboard })),
+  toggleSearchPanel: () => set((s) => ({ showSearchPanel: !s.showSearchPanel })),
+
+  openSessionAtNode: (path, nodeId) => {
+    const state = get();
+    if (state.activeSessionPath === path && state.rawMessages.length > 0) {
+      state.focusNode(nodeId);
+      return;
+    }
+    state.setActiveSession(path);
+    // setMessages picks this up once the session's file has been read
+    set({ pendingFocusNodeId: nodeId, showUsageDashboard: false });
+  },
+  setUsageIndex: (snapshot) => set({ usageIndex: snapshot }),
+  setUsageIndexStatus: (status) => set((s) => ({ usageIndex: { ...s.usageIndex, status } })),
+
+  requestImageExport: (request) => set({ imageExportRequest: request }),
+  clearImageExportRequest: () => set({ imageExportRequest: null }),
+
   // ── Split View ──────────────────────────────────────────────────────
   toggleSplitMode: () => {
     const state = get();
@@ -0,0 +1,239 @@
+import type { JSONLMessage } from '../../shared/types';
+import { buildFailureReport, collectToolResults } from './failure-analysis';
+import { resolveToolStatus } from './graph-builder';
+import { isPromptMessage } from '../../shared/session-analysis';
+
+// ---------------------------------------------------------------------------
+// Thrash detection — patterns within a single user turn that usually mean
+// Claude is stuck: re-running the same command, editing a file back and
+// forth, failing the same way repeatedly, or working through long stretches
+// of tool calls without saying anything.
+// ---------------------------------------------------------------------------
+
+export type ThrashKind = 'repeated_command' | 'edit_churn' | 'repeated_failure' | 'tool_only_stretch';
+
+export interface ThrashWarning {
+  kind: ThrashKind;
+  /** Graph id of the user prompt node the turn starts at (null before the first prompt). */
+  turnId: string | null;
+  message: string;
+  count: number;
+  /** Tool node ids involved, in order. */
+  nodeIds: string[];
+}
+
+export interface ThrashReport {
+  /**
+   * Warnings keyed by turnId; turns without any are absent. Settled turns
+   * keep the same array across updates, so per-turn selectors stay stable.
+   */
+  byTurn: Map<string | null, ThrashWarning[]>;
+  /** The latest turn — its warnings are the live ones. */
+  currentTurnId: string | null;
+  /** Index of the message the latest turn starts at; everything before it is settled. */
+  currentTurnStart: number;
+}
+
+export const EMPTY_THRASH_REPORT: ThrashReport = { byTurn: new Map(), currentTurnId: null, currentTurnStart: 0 };
+
+const NO_WARNINGS: ThrashWarning[] = [];
+
+/** Same Bash command this many times in one turn. */
+const REPEATED_COMMAND_THRESHOLD = 4;
+/** Same tool failing with the same error signature this many times in one turn. */
+const REPEATED_FAILURE_THRESHOLD = 3;
+/** Edits to one file in one turn, even without any reverts. */
+const EDIT_CHURN_THRESHOLD = 8;
+/** Consecutive tool calls with no assistant text in between. */
+const TOOL_STRETCH_THRESHOLD = 25;
+
+const MAX_COMMAND_LENGTH = 60;
+
+interface TurnSlice {
+  turnId: string | null;
+  /** Index of the turn's first message in the full list. */
+  start: number;
+  messages: JSONLMessage[];
+}
+
+interface EditRecord {
+  nodeId: string;
+  oldString: string;
+  newString: string;
+}
+
+/** Split `messages[from..]` into turns; the first slice continues `turnId`. */
+function sliceTurns(messages: JSONLMessage[], from: number, turnId: string | null): TurnSlice[] {
+  const turns: TurnSlice[] = [{ turnId, start: from, messages: [] }];
+  for (let i = from; i < messages.length; i++) {
+    const msg = messages[i];
+    if (isPromptMessage(msg) && !(i === from && msg.uuid === turnId)) {
+      turns.push({ turnId: msg.uuid, start: i, messages: [] });
+    }
+    turns[turns.length - 1].messages.push(msg);
+  }
+  return turns.filter((t) => t.turnId !== null || t.messages.length > 0);
+}
+
+function sameWarnings(a: ThrashWarning[], b: ThrashWarning[]): boolean {
+  return a.length === b.length && a.every((w, i) =>
+    w.kind === b[i].kind
+    && w.message === b[i].message
+    && w.nodeIds.length === b[i].nodeIds.length
+    && w.nodeIds.every((id, j) => id === b[i].nodeIds[j]));
+}
+
+function shortCommand(command: string): string {
+  const oneLine = command.replace(/\s+/g, ' ').trim();
+  return oneLine.length > MAX_COMMAND_LENGTH ? oneLine.slice(0, MAX_COMMAND_LENGTH) + '\u2026' : oneLine;
+}
+
+function baseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath;
+}
+
+function editsOf(toolName: string, input: any): { oldString: string; newString: string }[] {
+  if (toolName === 'Edit') return [{ oldString: String(input?.old_string ?? ''), newString: String(input?.new_string ?? '') }];
+  if (toolName === 'MultiEdit' && Array.isArray(input?.edits)) {
+    return input.edits.map((e: any) => ({ oldString: String(e?.old_string ?? ''), newString: String(e?.new_string ?? '') }));
+  }
+  return [];
+}
+
+function analyzeTurn(turn: TurnSlice, results: Map<string, { text: string; isError: boolean }>): ThrashWarning[] {
+  const warnings: ThrashWarning[] = [];
+  const commands = new Map<string, string[]>();
+  const edits = new Map<string, EditRecord[]>();
+  let stretch: string[] = [];
+  let longestStretch: string[] = [];
+
+  for (const msg of turn.messages) {
+    if (msg.type !== 'assistant' || msg.isSidechain) continue;
+    const content = (msg as any).message?.content;
+    if (!Array.isArray(content)) continue;
+
+    for (let i = 0; i < content.length; i++) {
+      const block = content[i];
+      if (block?.type === 'text' && block.text?.trim()) {
+        stretch = [];
+        continue;
+      }
+      if (block?.type !== 'tool_use') continue;
+      const nodeId = `${msg.uuid}-${i}`;
+
+      stretch.push(nodeId);
+      if (stretch.length > longestStretch.length) longestStretch = stretch;
+
+      if (block.name === 'Bash' && typeof block.input?.command === 'string') {
+        const command = block.input.command.trim();
+        const list = commands.get(command);
+        if (list) list.push(nodeId);
+        else commands.set(command, [nodeId]);
+      }
+
+      const filePath = block.input?.file_path;
+      const result = results.get(block.id);
+      const failed = result !== undefined && resolveToolStatus(result.text, result.isError) === 'error';
+      if (typeof filePath === 'string' && !failed) {
+        for (const e of editsOf(block.name, block.input)) {
+          const list = edits.get(filePath);
+          const record = { nodeId, ...e };
+          if (list) list.push(record);
+          else edits.set(filePath, [record]);
+        }
+      }
+    }
+  }
+
+  const reported = new Set<string>();
+
+  for (const [command, nodeIds] of commands) {
+    if (nodeIds.length < REPEATED_COMMAND_THRESHOLD) continue;
+    warnings.push({
+      kind: 'repeated_command',
+      turnId: turn.turnId,
+      message: `Ran \`${shortCommand(command)}\` ${nodeIds.length}\u00D7`,
+      count: nodeIds.length,
+      nodeIds,
+    });
+    for (const id of nodeIds) reported.add(id);
+  }
+
+  for (const group of buildFailureReport(turn.messages).groups) {
+    if (group.calls.length < REPEATED_FAILURE_THRESHOLD) continue;
+    const nodeIds = group.calls.map((c) => c.nodeId);
+    // Already covered by a repeated-command warning for the same calls
+    if (nodeIds.every((id) => reported.has(id))) continue;
+    warnings.push({
+      kind: 'repeated_failure',
+      turnId: turn.turnId,
+      message: `${group.toolName} failed ${nodeIds.length}\u00D7: ${group.signature}`,
+      count: nodeIds.length,
+      nodeIds,
+    });
+  }
+
+  for (const [filePath, records] of edits) {
+    // A revert: an edit that undoes an earlier one exactly
+    let reverts = 0;
+    records.forEach((e, j) => {
+      if (!e.oldString && !e.newString) return;
+      if (records.slice(0, j).some((p) => p.newString === e.oldString && p.oldString === e.newString)) reverts++;
+    });
+    if (reverts === 0 && records.length < EDIT_CHURN_THRESHOLD) continue;
+    warnings.push({
+      kind: 'edit_churn',
+      turnId: turn.turnId,
+      message: reverts > 0
+        ? `Edited ${baseName(filePath)} back and forth (${reverts} revert${reverts === 1 ? '' : 's'})`
+        : `Edited ${baseName(filePath)} ${records.length}\u00D7`,
+      count: records.length,
+      nodeIds: [...new Set(records.map((r) => r.nodeId))],
+    });
+  }
+
+  if (longestStretch.length >= TOOL_STRETCH_THRESHOLD) {
+    warnings.push({
+      kind: 'tool_only_stretch',
+      turnId: turn.turnId,
+      message: `${longestStretch.length} tool calls in a row without a reply`,
+      count: longestStretch.length,
+      nodeIds: longestStretch,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Analyse each turn of `messages`. Pass the report for a prefix of the same
+ * list (live appends) and only the turn that was current then, plus any new
+ * ones, is analysed again; earlier turns are settled and carried over.
+ */
+export function detectThrash(messages: JSONLMessage[], previous: ThrashReport = EMPTY_THRASH_REPORT): ThrashReport {
+  if (messages.length === 0) return EMPTY_THRASH_REPORT;
+  const resume = previous.currentTurnStart <= messages.length ? previous : EMPTY_THRASH_REPORT;
+
+  const byTurn = new Map(resume.byTurn);
+  byTurn.delete(resume.currentTurnId);
+  const turns = sliceTurns(messages, resume.currentTurnStart, resume.currentTurnId);
+  const results = collectToolResults(messages.slice(resume.currentTurnStart));
+  for (const turn of turns) {
+    const warnings = analyzeTurn(turn, results);
+    if (warnings.length === 0) continue;
+    const before = resume.byTurn.get(turn.turnId);
+    byTurn.set(turn.turnId, before && sameWarnings(before, warnings) ? before : warnings);
+  }
+
+  const current = turns[turns.length - 1];
+  return {
+    byTurn,
+    currentTurnId: current ? current.turnId : resume.currentTurnId,
+    currentTurnStart: current ? current.start : resume.currentTurnStart,
+  };
+}
+
+/** Warnings for one turn, e.g. the user node's badge or the live (current) turn. Stable while the turn is unchanged. */
+export function turnWarnings(report: ThrashReport, turnId: string | null): ThrashWarning[] {
+  return report.byTurn.get(turnId) ?? NO_WARNINGS;
+}
@@ -0,0 +1,168 @@
+import type { SessionUsage, UsageTotals } from '../../shared/types';
+import { findModelPrice, isUnpricedModel, usageCost, type PricingTable } from '../../shared/pricing';
+
+// ---------------------------------------------------------------------------
+// Cross-session usage aggregation — folds the main process's per-session
+// day/model totals into dashboard rows for a date range, pricing them with
+// the current table.
+// ---------------------------------------------------------------------------
+
+/** Inclusive YYYY-MM-DD bounds; null leaves that side open. */
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface UsageRow {
+  key: string;
+  sessions: number;
+  calls: number;
+  /** Input including cache reads and writes. */
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface WeeklyProjectRow {
+  project: string;
+  /** Cost per week, aligned with UsageAggregate.weeks. */
+  weeks: number[];
+  total: number;
+}
+
+export interface UsageAggregate {
+  total: UsageRow;
+  /** Every day in the range that has data, plus empty days between them. */
+  byDay: UsageRow[];
+  byProject: UsageRow[];
+  byModel: UsageRow[];
+  /** Monday of each week in the range (YYYY-MM-DD), oldest first. */
+  weeks: string[];
+  weeklyByProject: WeeklyProjectRow[];
+  unknownModels: string[];
+}
+
+function parseDay(day: string): Date {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function formatDay(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
+/** Monday of the week containing `day`. */
+export function weekStart(day: string): string {
+  const d = parseDay(day);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return formatDay(d);
+}
+
+function addDays(day: string, n: number): string {
+  const d = parseDay(day);
+  d.setDate(d.getDate() + n);
+  return formatDay(d);
+}
+
+function emptyRow(key: string): UsageRow {
+  return { key, sessions: 0, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+/** Last path segment of a project directory, for compact labels. */
+export function projectName(project: string): string {
+  return project.split(/[\\/]/).filter(Boolean).pop() || project;
+}
+
+export function aggregateUsage(sessions: SessionUsage[], pricing: PricingTable, range: DateRange): UsageAggregate {
+  const total = emptyRow('total');
+  const byDay = new Map<string, UsageRow>();
+  const byProject = new Map<string, UsageRow>();
+  const byModel = new Map<string, UsageRow>();
+  const weekly = new Map<string, Map<string, number>>();
+  const unknown = new Set<string>();
+  // Which rows each session has already been counted in
+  const seen = new Set<string>();
+
+  const add = (map: Map<string, UsageRow>, key: string, sessionId: string, t: UsageTotals, cost: number) => {
+    let row = map.get(key);
+    if (!row) {
+      row = emptyRow(key);
+      map.set(key, row);
+    }
+    const seenKey = `${key}\u0000${sessionId}`;
+    if (!seen.has(seenKey)) {
+      seen.add(seenKey);
+      row.sessions++;
+    }
+    row.calls += t.calls;
+    row.inputTokens += t.input + t.cacheRead + t.cacheWrite5m + t.cacheWrite1h;
+    row.outputTokens += t.output;
+    row.cost += cost;
+  };
+
+  for (const s of sessions) {
+    let counted = false;
+    for (const [day, models] of Object.entries(s.days)) {
+      if (range.from && day < range.from) continue;
+      if (range.to && day > range.to) continue;
+      const week = weekStart(day);
+      for (const [model, t] of Object.entries(models)) {
+        let price = findModelPrice(pricing, model);
+        if (!price) {
+          if (!isUnpricedModel(model) && model !== 'unknown') unknown.add(model);
+          price = pricing.default;
+        }
+        const c = usageCost(price, t);
+        const cost = c.input + c.output + c.cacheRead + c.cacheWrite;
+
+        total.calls += t.calls;
+        total.inputTokens += t.input + t.cacheRead + t.cacheWrite5m + t.cacheWrite1h;
+        total.outputTokens += t.output;
+        total.cost += cost;
+        counted = true;
+
+        add(byDay, day, s.sessionId, t, cost);
+        add(byProject, s.project, s.sessionId, t, cost);
+        add(byModel, model, s.sessionId, t, cost);
+
+        const perWeek = weekly.get(s.project) ?? new Map<string, number>();
+        weekly.set(s.project, perWeek);
+        perWeek.set(week, (perWeek.get(week) ?? 0) + cost);
+      }
+    }
+    if (counted) total.sessions++;
+  }
+
+  // Fill gaps so the daily chart has an even time axis
+  const days = [...byDay.keys()].sort();
+  const dayRows: UsageRow[] = [];
+  if (days.length > 0) {
+    for (let d = days[0]; d <= days[days.length - 1]; d = addDays(d, 1)) {
+      dayRows.push(byDay.get(d) ?? emptyRow(d));
+    }
+  }
+
+  const weeks: string[] = [];
+  if (days.length > 0) {
+    for (let w = weekStart(days[0]); w <= days[days.length - 1]; w = addDays(w, 7)) weeks.push(w);
+  }
+  const weeklyByProject = [...weekly.entries()]
+    .map(([project, perWeek]) => {
+      const cells = weeks.map((w) => perWeek.get(w) ?? 0);
+      return { project, weeks: cells, total: cells.reduce((a, b) => a + b, 0) };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  const byCost = (a: UsageRow, b: UsageRow) => b.cost - a.cost;
+  return {
+    total,
+    byDay: dayRows,
+    byProject: [...byProject.values()].sort(byCost),
+    byModel: [...byModel.values()].sort(byCost),
+    weeks,
+    weeklyByProject,
+    unknownModels: [...unknown],
+  };
+}
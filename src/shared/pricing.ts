@@ -0,0 +1,166 @@
+// ---------------------------------------------------------------------------
+// Model pricing — USD per million tokens, plus each model's context window.
+// The built-in table is merged with the user's pricing.json (loaded by the
+// main process), so new models can be priced without a release.
+// ---------------------------------------------------------------------------
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Cache hits. Defaults to 10% of input. */
+  cacheRead?: number;
+  /** 5-minute ephemeral cache writes. Defaults to 125% of input. */
+  cacheWrite5m?: number;
+  /** 1-hour ephemeral cache writes. Defaults to 200% of input. */
+  cacheWrite1h?: number;
+  /** Context window in tokens. Defaults to the table default's. */
+  contextWindow?: number;
+}
+
+export interface PricingTable {
+  /**
+   * Keyed by model pattern. A key matches a model ID exactly, as a prefix
+   * (`claude-sonnet-4-5` matches `claude-sonnet-4-5-20250929`), or as a glob
+   * where `*` matches any run of characters. The most specific key wins.
+   */
+  models: Record<string, ModelPrice>;
+  /** Used for models no key matches. */
+  default: ModelPrice;
+}
+
+/** What the main process hands the renderer: the merged table and where it came from. */
+export interface PricingInfo {
+  table: PricingTable;
+  filePath: string;
+  /** Parse/validation problem with the user's file; built-in prices are used when set. */
+  error: string | null;
+}
+
+/**
+ * Keyed on dated model IDs, never on a bare family like `claude-opus-4`: a
+ * family prefix would also price every later model in it, so a new model
+ * would be costed at a stale rate instead of being flagged as unknown.
+ */
+export const BUILTIN_PRICING: PricingTable = {
+  models: {
+    'claude-opus-4-5-20251101': { input: 5, output: 25, cacheRead: 0.5, cacheWrite5m: 6.25, cacheWrite1h: 10 },
+    'claude-opus-4-1-20250805': { input: 15, output: 75, cacheRead: 1.5, cacheWrite5m: 18.75, cacheWrite1h: 30 },
+    'claude-opus-4-20250514': { input: 15, output: 75, cacheRead: 1.5, cacheWrite5m: 18.75, cacheWrite1h: 30 },
+    'claude-sonnet-4-5-20250929': { input: 3, output: 15, cacheRead: 0.3, cacheWrite5m: 3.75, cacheWrite1h: 6 },
+    'claude-sonnet-4-20250514': { input: 3, output: 15, cacheRead: 0.3, cacheWrite5m: 3.75, cacheWrite1h: 6 },
+    'claude-3-7-sonnet-20250219': { input: 3, output: 15, cacheRead: 0.3, cacheWrite5m: 3.75, cacheWrite1h: 6 },
+    'claude-3-5-sonnet-20241022': { input: 3, output: 15, cacheRead: 0.3, cacheWrite5m: 3.75, cacheWrite1h: 6 },
+    'claude-3-5-sonnet-20240620': { input: 3, output: 15, cacheRead: 0.3, cacheWrite5m: 3.75, cacheWrite1h: 6 },
+    'claude-haiku-4-5-20251001': { input: 1, output: 5, cacheRead: 0.1, cacheWrite5m: 1.25, cacheWrite1h: 2 },
+    'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite5m: 1, cacheWrite1h: 1.6 },
+    'claude-3-haiku-20240307': { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite5m: 0.3, cacheWrite1h: 0.5 },
+    'claude-3-opus-20240229': { input: 15, output: 75, cacheRead: 1.5, cacheWrite5m: 18.75, cacheWrite1h: 30 },
+  },
+  default: { input: 3, output: 15, contextWindow: 200_000 },
+};
+
+/** Window assumed when neither the model nor the table default sets one. */
+export const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+/** Models that never incur cost and shouldn't be reported as unknown. */
+const UNPRICED_MODELS = new Set(['', '<synthetic>']);
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/** Score how specifically `pattern` matches `model`; -1 when it doesn't. */
+function matchScore(pattern: string, model: string): number {
+  if (pattern === model) return Number.MAX_SAFE_INTEGER;
+  if (pattern.includes('*')) {
+    return globToRegExp(pattern).test(model) ? pattern.replace(/\*/g, '').length : -1;
+  }
+  // Prefix matches must end at a segment boundary so `claude-opus-4` doesn't claim `claude-opus-45`
+  if (model.startsWith(pattern) && (model.length === pattern.length || model[pattern.length] === '-')) {
+    return pattern.length;
+  }
+  return -1;
+}
+
+/** Resolve the price for a model, or null when only the default applies. */
+export function findModelPrice(table: PricingTable, model: string): ModelPrice | null {
+  let best: ModelPrice | null = null;
+  let bestScore = -1;
+  for (const [pattern, price] of Object.entries(table.models)) {
+    const score = matchScore(pattern, model);
+    if (score > bestScore) {
+      best = price;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Context window for a model: its own entry's, else the table default's. */
+export function contextWindowFor(table: PricingTable, model: string): number {
+  return findModelPrice(table, model)?.contextWindow ?? table.default.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+export function isUnpricedModel(model: string): boolean {
+  return UNPRICED_MODELS.has(model);
+}
+
+export interface UsageCost {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/** Cost in USD of one API call's usage under `price`. */
+export function usageCost(
+  price: ModelPrice,
+  tokens: { input: number; output: number; cacheRead: number; cacheWrite5m: number; cacheWrite1h: number },
+): UsageCost {
+  const cacheRead = price.cacheRead ?? price.input * 0.1;
+  const cacheWrite5m = price.cacheWrite5m ?? price.input * 1.25;
+  const cacheWrite1h = price.cacheWrite1h ?? price.input * 2;
+  return {
+    input: tokens.input * price.input / 1_000_000,
+    output: tokens.output * price.output / 1_000_000,
+    cacheRead: tokens.cacheRead * cacheRead / 1_000_000,
+    cacheWrite: (tokens.cacheWrite5m * cacheWrite5m + tokens.cacheWrite1h * cacheWrite1h) / 1_000_000,
+  };
+}
+
+function isPrice(value: unknown): value is ModelPrice {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  const optional = ['cacheRead', 'cacheWrite5m', 'cacheWrite1h', 'contextWindow'];
+  return typeof v.input === 'number' && typeof v.output === 'number'
+    && optional.every((k) => v[k] === undefined || typeof v[k] === 'number');
+}
+
+/**
+ * Merge a parsed pricing.json over `base`. Invalid entries are skipped and
+ * reported so one typo doesn't throw away the whole file.
+ */
+export function mergePricing(base: PricingTable, raw: unknown): { table: PricingTable; problems: string[] } {
+  const problems: string[] = [];
+  const table: PricingTable = { models: { ...base.models }, default: base.default };
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { table, problems: ['expected a JSON object with "models" and/or "default"'] };
+  }
+  const obj = raw as Record<string, unknown>;
+  if (obj.default !== undefined) {
+    if (isPrice(obj.default)) table.default = obj.default;
+    else problems.push('"default" needs numeric "input" and "output", and numbers for any other field');
+  }
+  if (obj.models !== undefined) {
+    if (!obj.models || typeof obj.models !== 'object' || Array.isArray(obj.models)) {
+      problems.push('"models" must be an object keyed by model pattern');
+    } else {
+      for (const [pattern, price] of Object.entries(obj.models as Record<string, unknown>)) {
+        if (isPrice(price)) table.models[pattern] = price;
+        else problems.push(`"${pattern}" needs numeric "input" and "output", and numbers for any other field`);
+      }
+    }
+  }
+  return { table, problems };
+}
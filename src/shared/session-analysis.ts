@@ -0,0 +1,399 @@
+import type { JSONLMessage, SubagentTranscript } from './types';
+import { BUILTIN_PRICING, findModelPrice, isUnpricedModel, usageCost, type PricingTable } from './pricing';
+
+// ---------------------------------------------------------------------------
+// Session analysis — pure functions over raw JSONL messages. Kept free of
+// React/zustand so the main process and the headless CLI can reuse them.
+// ---------------------------------------------------------------------------
+
+export type LiveActivity = 'idle' | 'thinking' | 'tool_running' | 'responding' | 'waiting_on_user' | 'compacting';
+
+export interface ActivityInfo {
+  activity: LiveActivity;
+  detail?: string; // e.g., tool name for tool_running
+}
+
+export interface TokenStats {
+  inputTokens: number;
+  outputTokens: number;
+  cacheRead: number;
+  cacheCreation: number;
+  estimatedCost: number;
+  /** Models that matched no pricing entry and were costed at the default rate. */
+  unknownModels: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Token cost estimation — prices come from the merged pricing table
+// ---------------------------------------------------------------------------
+
+export function computeTokenStats(
+  messages: JSONLMessage[],
+  subagents: SubagentTranscript[] = [],
+  pricing: PricingTable = BUILTIN_PRICING,
+): TokenStats {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let cacheRead = 0;
+  let cacheCreation = 0;
+  let estimatedCost = 0;
+  const unknownModels = new Set<string>();
+
+  // Subagent API calls are billed to the session too
+  for (const call of collectApiCalls(messages, subagents)) {
+    inputTokens += call.input;
+    outputTokens += call.output;
+    cacheRead += call.cacheRead;
+    cacheCreation += call.cacheWrite5m + call.cacheWrite1h;
+
+    let price = findModelPrice(pricing, call.model);
+    if (!price) {
+      if (!isUnpricedModel(call.model)) unknownModels.add(call.model);
+      price = pricing.default;
+    }
+    const cost = usageCost(price, call);
+    estimatedCost += cost.input + cost.output + cost.cacheRead + cost.cacheWrite;
+  }
+
+  return { inputTokens, outputTokens, cacheRead, cacheCreation, estimatedCost, unknownModels: [...unknownModels] };
+}
+
+// ---------------------------------------------------------------------------
+// Cost breakdown — per API call, attributed to the user turn it belongs to
+// and the tool whose result prompted it
+// ---------------------------------------------------------------------------
+
+/** Which user messages start a turn (same rule as windowMessages/buildGraph). */
+export function isPromptMessage(msg: JSONLMessage): boolean {
+  if (msg.type !== 'user' || msg.isSidechain || isCompactSummary(msg)) return false;
+  const content = (msg as any).message?.content;
+  if (typeof content === 'string') return !isInjectedText(content);
+  if (!Array.isArray(content)) return false;
+  // buildGraph checks the prefix on the joined text blocks, so do the same here
+  const text = content.filter((b: any) => b.type === 'text').map((b: any) => b.text ?? '').join('\n');
+  return text.trim() !== '' && !isInjectedText(text);
+}
+
+/** Notifications and reminders Claude Code injects as user messages. */
+function isInjectedText(text: string): boolean {
+  const trimmed = text.trimStart();
+  return trimmed.startsWith('<task-notification>') || trimmed.startsWith('<system-reminder>');
+}
+
+const COMPACT_SUMMARY_PREFIX = 'This session is being continued from a previous conversation';
+
+/**
+ * The summary Claude Code injects as a user message right after a
+ * compact_boundary. Flagged isCompactSummary in current logs; older logs
+ * only have the stock opening sentence.
+ */
+export function isCompactSummary(msg: JSONLMessage): boolean {
+  if (msg.type !== 'user') return false;
+  if ((msg as any).isCompactSummary === true) return true;
+  const content = (msg as any).message?.content;
+  const text = typeof content === 'string'
+    ? content
+    : Array.isArray(content) ? content.find((b: any) => b.type === 'text')?.text ?? '' : '';
+  return text.trimStart().startsWith(COMPACT_SUMMARY_PREFIX);
+}
+
+/** Trigger label for calls made right after the user's prompt. */
+export const PROMPT_TRIGGER = '(prompt)';
+/** Trigger label for calls made inside subagent transcripts. */
+export const SUBAGENT_TRIGGER = '(subagent)';
+
+export interface ApiCall {
+  /** message.id — streaming chunks of one call share it. */
+  id: string;
+  model: string;
+  timestamp: string;
+  /** uuid of the prompt message (= user node id) that started the turn, or null before the first prompt. */
+  turnId: string | null;
+  /** Tool whose tool_result preceded the call, PROMPT_TRIGGER, or SUBAGENT_TRIGGER. */
+  trigger: string;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite5m: number;
+  cacheWrite1h: number;
+}
+
+/**
+ * Flatten a main transcript into deduplicated API calls in order. Subagent
+ * calls are attributed to the turn whose Task/Agent call spawned them, when
+ * the tool_result naming the agent has arrived; otherwise to the last turn.
+ */
+export function collectApiCalls(messages: JSONLMessage[], subagents: SubagentTranscript[] = []): ApiCall[] {
+  const toolNames = new Map<string, string>();
+  const agentTurns = new Map<string, string | null>();
+  const byId = new Map<string, ApiCall>();
+  let turnId: string | null = null;
+  let trigger = PROMPT_TRIGGER;
+
+  const record = (msg: JSONLMessage, turn: string | null, trig: string) => {
+    const m = (msg as any).message;
+    const usage = m?.usage;
+    if (!usage) return;
+    const id = m?.id || msg.uuid;
+    const cacheWrite = usage.cache_creation_input_tokens || 0;
+    const cacheWrite1h = Math.min(cacheWrite, usage.cache_creation?.ephemeral_1h_input_tokens || 0);
+    const existing = byId.get(id);
+    // Later chunks carry the final usage but keep the first chunk's timestamp/attribution
+    byId.set(id, {
+      id,
+      model: m?.model || '',
+      timestamp: existing?.timestamp || msg.timestamp || '',
+      turnId: existing ? existing.turnId : turn,
+      trigger: existing ? existing.trigger : trig,
+      input: usage.input_tokens || 0,
+      output: usage.output_tokens || 0,
+      cacheRead: usage.cache_read_input_tokens || 0,
+      cacheWrite5m: cacheWrite - cacheWrite1h,
+      cacheWrite1h,
+    });
+  };
+
+  for (const msg of messages) {
+    if (msg.isSidechain) {
+      // Older transcripts inline subagent messages in the main file
+      if (msg.type === 'assistant') record(msg, turnId, SUBAGENT_TRIGGER);
+      continue;
+    }
+    if (msg.type === 'user') {
+      if (isPromptMessage(msg)) {
+        turnId = msg.uuid;
+        trigger = PROMPT_TRIGGER;
+        continue;
+      }
+      const content = (msg as any).message?.content;
+      if (Array.isArray(content)) {
+        const names = content
+          .filter((b: any) => b?.type === 'tool_result')
+          .map((b: any) => toolNames.get(b.tool_use_id) || 'unknown');
+        if (names.length > 0) trigger = names[names.length - 1];
+      }
+      const agentId = (msg as any).toolUseResult?.agentId;
+      if (agentId) agentTurns.set(agentId, turnId);
+      continue;
+    }
+    if (msg.type !== 'assistant') continue;
+    const content = (msg as any).message?.content;
+    if (Array.isArray(content)) {
+      for (const b of content) {
+        if (b?.type === 'tool_use') toolNames.set(b.id, b.name);
+      }
+    }
+    record(msg, turnId, trigger);
+  }
+
+  for (const t of subagents) {
+    const turn = agentTurns.has(t.agentId) ? agentTurns.get(t.agentId)! : turnId;
+    for (const msg of t.messages) {
+      if (msg.type === 'assistant') record(msg, turn, SUBAGENT_TRIGGER);
+    }
+  }
+
+  return [...byId.values()];
+}
+
+export interface CostBucket {
+  key: string;
+  calls: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cost: number;
+}
+
+export interface TurnCost extends CostBucket {
+  /** 1-based turn number; 0 for calls before the first prompt. */
+  turn: number;
+  prompt: string;
+}
+
+export interface CostBreakdown {
+  total: CostBucket;
+  /** Cost split by token class. */
+  byClass: { input: number; output: number; cacheRead: number; cacheWrite: number };
+  byModel: CostBucket[];
+  byTurn: TurnCost[];
+  byTrigger: CostBucket[];
+  /** Cumulative cost after each call, in time order, for the sparkline. */
+  timeline: { time: number; cost: number }[];
+}
+
+function emptyBucket(key: string): CostBucket {
+  return { key, calls: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+}
+
+/** A prompt's text on one line, truncated to 120 characters. */
+export function promptText(msg: JSONLMessage): string {
+  const content = (msg as any).message?.content;
+  const text = typeof content === 'string'
+    ? content
+    : Array.isArray(content)
+      ? content.filter((b: any) => b.type === 'text').map((b: any) => b.text).join(' ')
+      : '';
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > 120 ? oneLine.slice(0, 119) + '\u2026' : oneLine;
+}
+
+export function computeCostBreakdown(
+  messages: JSONLMessage[],
+  subagents: SubagentTranscript[] = [],
+  pricing: PricingTable = BUILTIN_PRICING,
+): CostBreakdown {
+  const calls = collectApiCalls(messages, subagents);
+  const total = emptyBucket('total');
+  const byClass = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+  const byModel = new Map<string, CostBucket>();
+  const byTrigger = new Map<string, CostBucket>();
+  const byTurn = new Map<string | null, TurnCost>();
+
+  // Turns in order, so turns without any API call (interrupted) still get numbers
+  let turnNumber = 0;
+  for (const msg of messages) {
+    if (!isPromptMessage(msg)) continue;
+    turnNumber++;
+    byTurn.set(msg.uuid, { ...emptyBucket(msg.uuid), turn: turnNumber, prompt: promptText(msg) });
+  }
+
+  const add = (bucket: CostBucket, call: ApiCall, cost: number) => {
+    bucket.calls++;
+    bucket.input += call.input;
+    bucket.output += call.output;
+    bucket.cacheRead += call.cacheRead;
+    bucket.cacheWrite += call.cacheWrite5m + call.cacheWrite1h;
+    bucket.cost += cost;
+  };
+
+  const timed: { time: number; cost: number }[] = [];
+  for (const call of calls) {
+    const c = usageCost(findModelPrice(pricing, call.model) ?? pricing.default, call);
+    const cost = c.input + c.output + c.cacheRead + c.cacheWrite;
+    byClass.input += c.input;
+    byClass.output += c.output;
+    byClass.cacheRead += c.cacheRead;
+    byClass.cacheWrite += c.cacheWrite;
+    add(total, call, cost);
+
+    const model = call.model || 'unknown';
+    if (!byModel.has(model)) byModel.set(model, emptyBucket(model));
+    add(byModel.get(model)!, call, cost);
+
+    if (!byTrigger.has(call.trigger)) byTrigger.set(call.trigger, emptyBucket(call.trigger));
+    add(byTrigger.get(call.trigger)!, call, cost);
+
+    let turn = byTurn.get(call.turnId);
+    if (!turn) {
+      turn = { ...emptyBucket(call.turnId ?? 'pre'), turn: 0, prompt: '' };
+      byTurn.set(call.turnId, turn);
+    }
+    add(turn, call, cost);
+
+    const time = new Date(call.timestamp).getTime();
+    if (!isNaN(time)) timed.push({ time, cost });
+  }
+
+  timed.sort((a, b) => a.time - b.time);
+  let running = 0;
+  const timeline = timed.map(({ time, cost }) => ({ time, cost: (running += cost) }));
+
+  const byCost = (a: CostBucket, b: CostBucket) => b.cost - a.cost;
+  return {
+    total,
+    byClass,
+    byModel: [...byModel.values()].sort(byCost),
+    byTurn: [...byTurn.values()].sort((a, b) => a.turn - b.turn),
+    byTrigger: [...byTrigger.values()].sort(byCost),
+    timeline,
+  };
+}
+
+/**
+ * Detect what Claude is currently doing based on the tail of the message stream.
+ * Walk backwards from the end to find the last meaningful message type.
+ * When isKnownActive is true (lock file present), skip the staleness check
+ * so long-running tools don't falsely show as idle.
+ */
+export function detectActivity(messages: JSONLMessage[], isKnownActive = false, fileMtime = 0): ActivityInfo {
+  // If the last message is more than 30 seconds old and we don't know the session
+  // is active, assume it's idle
+  if (!isKnownActive && messages.length > 0) {
+    const last = messages[messages.length - 1];
+    if (last.timestamp) {
+      const age = Date.now() - new Date(last.timestamp).getTime();
+      if (age > 30_000) return { activity: 'idle' };
+    }
+  }
+
+  // Check staleness of the last message — used as a fallback below
+  let lastMessageAge = 0;
+  if (messages.length > 0) {
+    const last = messages[messages.length - 1];
+    if (last.timestamp) {
+      lastMessageAge = Date.now() - new Date(last.timestamp).getTime();
+    }
+  }
+
+  let sawSystem = false;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+
+    // Progress messages mean something is actively happening
+    if (msg.type === 'progress') continue;
+
+    // System messages (turn duration) appear after Claude finishes a turn.
+    // Compaction boundaries mean Claude is actively compacting context.
+    if (msg.type === 'system') {
+      if ((msg as any).subtype === 'compact_boundary') return { activity: 'compacting' };
+      sawSystem = true;
+      continue;
+    }
+
+    if (msg.type === 'assistant') {
+      const content = (msg as any).message?.content;
+      if (!Array.isArray(content) || content.length === 0) continue;
+      const last = content[content.length - 1];
+
+      // If a system message followed this assistant message, the turn is
+      // complete — Claude finished and is now waiting on the user.
+      if (sawSystem) {
+        if (last.type === 'text') return { activity: 'waiting_on_user' };
+        // After a tool_use + system = tool finished, Claude is processing result
+        return { activity: 'idle' };
+      }
+
+      // Check stop_reason — if the API response is complete, Claude is done
+      const stopReason = (msg as any).message?.stop_reason;
+      if (stopReason === 'end_turn') return { activity: 'waiting_on_user' };
+
+      // Staleness fallback: if the last message is old and we'd say
+      // 'responding' or 'thinking', Claude almost certainly finished and we
+      // missed the final signal (streaming chunk timing, watcher delay, etc.)
+      // BUT skip this if the file was modified recently — that means Claude
+      // is still actively writing even if individual message timestamps are stale.
+      const fileAge = fileMtime > 0 ? Date.now() - fileMtime : Infinity;
+      const fileRecentlyModified = fileAge < 5_000;
+      if (!fileRecentlyModified && lastMessageAge > 8_000) {
+        if (last.type === 'thinking' || last.type === 'text') {
+          return { activity: 'waiting_on_user' };
+        }
+      }
+
+      if (last.type === 'thinking') return { activity: 'thinking' };
+      if (last.type === 'tool_use') return { activity: 'tool_running', detail: last.name };
+      if (last.type === 'text') return { activity: 'responding' };
+      return { activity: 'idle' };
+    }
+
+    // A user message (whether string prompt or tool_result) means
+    // Claude hasn't started replying yet — still idle from our POV
+    if (msg.type === 'user') return { activity: 'idle' };
+
+    break;
+  }
+  return { activity: 'idle' };
+}
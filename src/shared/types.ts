@@ -23,6 +23,7 @@ export interface ToolResultBlock {
   type: 'tool_result';
   tool_use_id: string;
   content: string | unknown[];
+  is_error?: boolean;
 }
 
 export type ContentBlock = ThinkingBlock | TextBlock | ToolUseBlock | ToolResultBlock;
@@ -72,16 +73,66 @@ export interface SystemMessage extends BaseMessage {
 
 export type JSONLMessage = UserMessage | AssistantMessage | ProgressMessage | SystemMessage;
 
+/**
+ * Messages from a subagent run spawned by a Task tool_use. Read either from
+ * a dedicated agent transcript file or from inline `isSidechain` messages.
+ */
+export interface SubagentTranscript {
+  agentId: string;
+  messages: JSONLMessage[];
+}
+
 // ---------------------------------------------------------------------------
 // Graph Model
 // ---------------------------------------------------------------------------
 
-export type GraphNodeKind = 'user' | 'thinking' | 'text' | 'tool_use' | 'system' | 'compaction' | 'session_end' | 'queue';
+export type GraphNodeKind = 'user' | 'thinking' | 'text' | 'tool_use' | 'system' | 'compaction' | 'session_end' | 'continuation' | 'queue';
 
 export type SessionEndReason = 'active' | 'ended' | 'compacted';
 
 export type ToolStatus = 'running' | 'success' | 'error';
 
+/** Roll-up of a subagent run, attached to the Task node that spawned it. */
+export interface SubagentSummary {
+  agentId: string;
+  nodeCount: number;
+  toolCount: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** A single old→new replacement made by Edit or MultiEdit. */
+export interface FileEdit {
+  oldString: string;
+  newString: string;
+  replaceAll?: boolean;
+}
+
+/** File modification carried by an Edit, MultiEdit or Write tool call. */
+export interface FileChange {
+  filePath: string;
+  kind: 'edit' | 'write';
+  /** For edit changes: replacements in the order they were applied. */
+  edits: FileEdit[];
+  /** For write changes: the full file content. */
+  content?: string;
+}
+
+/** Output of a tool call, taken from its tool_result and attached to the tool_use node. */
+export interface ToolResultPayload {
+  /** Text content of the result, truncated for display. */
+  text: string;
+  /** Length of the full text before truncation. */
+  size: number;
+  truncated: boolean;
+  /** Media types of image blocks in the result (shown as placeholders). */
+  images: string[];
+  /** Exit code for shell commands, when the result reports one. */
+  exitCode?: number;
+  /** True when the tool_result was flagged with is_error. */
+  isError?: boolean;
+}
+
 export interface GraphNode {
   id: string;
   parentId: string | null;
@@ -100,8 +151,12 @@ export interface GraphNode {
   searchMatch?: boolean;
   /** For compaction nodes: number of tokens compressed. */
   compactTokens?: number;
+  /** For compaction nodes: the injected summary, audited against the turns it replaced. */
+  compactSummary?: CompactSummary;
   /** For session_end nodes: why the session ended. */
   endReason?: SessionEndReason;
+  /** For continuation and session_end nodes: the session this one continues from / continues in. */
+  linkedSession?: SessionLink;
   /** Tokens used by the assistant API call that produced this node. */
   inputTokens?: number;
   outputTokens?: number;
@@ -110,6 +165,10 @@ export interface GraphNode {
   /** For user nodes: total tokens used in the response turn below. */
   turnInputTokens?: number;
   turnOutputTokens?: number;
+  /** For Edit/MultiEdit/Write nodes: the file change, for diff rendering. */
+  fileChange?: FileChange;
+  /** For tool_use nodes: the tool's output, once its result has arrived. */
+  result?: ToolResultPayload;
   /** For AskUserQuestion nodes: the options and user's choice. */
   questionOptions?: { label: string; chosen: boolean }[];
   questionText?: string;
@@ -117,10 +176,63 @@ export interface GraphNode {
   isFirstResponse?: boolean;
   /** True on the last text/question node in an active session (waiting for user). */
   isLastMessage?: boolean;
+  /** For nodes from a subagent transcript: id of the Task node that spawned it. */
+  parentTaskId?: string;
+  /** For Task nodes: summary of the subagent run nested under it. */
+  subagent?: SubagentSummary;
+  /** On the node a rewind or edited prompt forked from: the sibling prompts that start each branch. */
+  branchPoint?: BranchPoint;
+  /** On nodes of a branch other than the main line. */
+  abandonedBranch?: AbandonedBranch;
   /** Pre-computed lowercase search text (label + detail + toolName). */
   _searchText?: string;
 }
 
+/** What a compaction summary kept of the conversation before it. */
+export interface CompactSummary {
+  /** Summary text Claude Code injected after the compact_boundary. */
+  text: string;
+  /** Files read or changed before compaction, split by whether the summary mentions them. */
+  files: { kept: string[]; dropped: string[]; summaryOnly: string[] };
+  /** Items of the last todo list before compaction, split the same way. */
+  todos: { kept: CompactTodo[]; dropped: CompactTodo[] };
+  /**
+   * False when none of the turns it replaced are loaded, e.g. they are in
+   * the session this one continues and the lineage isn't stitched.
+   */
+  audited: boolean;
+}
+
+export interface CompactTodo {
+  content: string;
+  status: string;
+}
+
+/** Another session file in the same compaction lineage. */
+export interface SessionLink {
+  filePath: string;
+  /** Prompt shown on the link: where the earlier session left off, or where the next one picks up. */
+  title: string;
+}
+
+export interface BranchPoint {
+  /** parentUuid shared by the sibling prompts. */
+  forkUuid: string;
+  /** uuids (= user node ids) of the sibling prompts, in file order. */
+  branchUuids: string[];
+  mainIndex: number;
+}
+
+export interface AbandonedBranch {
+  /** Graph id of the fork node the branch hangs off. */
+  forkNodeId: string;
+  forkUuid: string;
+  /** Index of the branch among the fork's branchUuids. */
+  index: number;
+  /** uuid (= user node id) of the prompt that starts the branch. */
+  branchUuid: string;
+}
+
 export interface GraphEdge {
   id: string;
   source: string;
@@ -145,6 +257,84 @@ export interface SessionInfo {
   endReason: SessionEndReason;
   /** All user message summaries in order (truncated to 80 chars each). */
   userPrompts?: string[];
+  /** Label of the .claude root the session was found in (e.g. "Local", "WSL/Ubuntu", "devbox"). */
+  source?: string;
+  /** File path of the compacted session this one continues. */
+  continuedFrom?: string;
+  /** File path of the session that continues this one after compaction. */
+  continuedIn?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Usage Index (cross-session dashboard)
+// ---------------------------------------------------------------------------
+
+/** Token counts for a set of API calls. Costs are applied in the renderer so pricing edits don't need a reindex. */
+export interface UsageTotals {
+  calls: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite5m: number;
+  cacheWrite1h: number;
+}
+
+export interface SessionUsage {
+  sessionId: string;
+  project: string;
+  filePath: string;
+  /** Size/mtime of the session file when indexed; a mismatch means re-parse. */
+  signature: string;
+  /** Local day (YYYY-MM-DD) → model → totals, including subagent calls. */
+  days: Record<string, Record<string, UsageTotals>>;
+}
+
+export interface UsageIndexStatus {
+  indexing: boolean;
+  done: number;
+  total: number;
+}
+
+export interface UsageIndexSnapshot {
+  sessions: SessionUsage[];
+  status: UsageIndexStatus;
+}
+
+// ---------------------------------------------------------------------------
+// Global Search (across sessions)
+// ---------------------------------------------------------------------------
+
+export type SearchHitKind = 'user' | 'text' | 'tool_input' | 'tool_result';
+
+export interface SearchHit {
+  /** Graph node the match belongs to (tool results map to their tool_use node). */
+  nodeId: string;
+  kind: SearchHitKind;
+  snippet: string;
+  timestamp: string;
+}
+
+export interface SessionSearchResult {
+  filePath: string;
+  sessionId: string;
+  project: string;
+  displayText: string;
+  lastModified: number;
+  /** Matching blocks in this session; `hits` holds only the first few. */
+  totalHits: number;
+  hits: SearchHit[];
+}
+
+export interface GlobalSearchResponse {
+  query: string;
+  /** The most recent matching sessions; capped, see totalSessions. */
+  results: SessionSearchResult[];
+  /** Matching blocks across every matching session, including those past the cap. */
+  totalHits: number;
+  /** Every matching session, including those past the cap. */
+  totalSessions: number;
+  /** True while the index is still catching up, so results may be incomplete. */
+  indexing: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -153,6 +343,14 @@ export interface SessionInfo {
 
 export type LayoutDirection = 'TB' | 'LR';
 
+/**
+ * How the graph is arranged:
+ *   conversation -- one column per user turn, responses stacked below
+ *   tree         -- dagre tree over the real parentUuid links, so rewinds and forks branch
+ *   timeline     -- every node in message order, one horizontal lane per kind
+ */
+export type LayoutEngineId = 'conversation' | 'tree' | 'timeline';
+
 // ---------------------------------------------------------------------------
 // Tool Color Palette
 // ---------------------------------------------------------------------------
@@ -161,12 +359,14 @@ export const TOOL_COLORS: Record<string, string> = {
   Bash:              '#ff6b35',
   Read:              '#00d4ff',
   Edit:              '#ff3d71',
+  MultiEdit:         '#ff3d71',
   Write:             '#ff3d71',
   Grep:              '#a855f7',
   Glob:              '#a855f7',
   WebFetch:          '#22d3ee',
   WebSearch:         '#22d3ee',
   Task:              '#fbbf24',
+  Agent:             '#fbbf24',
   AskUserQuestion:   '#f472b6',
   default:           '#6b7280',
 } as const;
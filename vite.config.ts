@@ -29,6 +29,19 @@ export default defineConfig({
           },
         },
       },
+      {
+        // Headless CLI (bin/claude-mindmap.js) — plain Node, no Electron
+        entry: 'src/cli/index.ts',
+        onstart() {},
+        vite: {
+          build: {
+            outDir: 'dist-electron/cli',
+            rollupOptions: {
+              external: ['chokidar'],
+            },
+          },
+        },
+      },
     ]),
     renderer(),
   ],